@@ -1,32 +1,108 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Trophy, Brain, Delete, Sun, Moon, RotateCcw, Users, User, ArrowRight, Lock, ShieldCheck, Check, Lightbulb } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useReducer, useRef } from 'react';
+import {
+  Alphabet, ALPHABETS, DEFAULT_RULES, GameMode, Match, GameRules, GameStatus, MAX_ATTEMPT_LIMIT, MIN_ATTEMPT_LIMIT, MIN_CODE_LENGTH, SolverStrategy,
+  HINT_COSTS, HINT_KINDS, HintKind, canAfford, difficultyOf, pointsLeft,
+  NoteGrid, NoteMark, createNotes, cycleNote, deduceNotes, excludedSymbols, mergeNotes,
+  scoreBreakdown,
+  BLITZ_LIMITS, BlitzTimer, MARATHON_MS, timeLeft,
+  BREAKER_STRENGTHS, BreakerStrength, codeSpaceSize,
+  SharedGame, readShareHash, shareHash,
+  ChallengeReport, decodeChallengeResult, encodeChallengeResult, scoreChallengeResult,
+  DAILY_RULES, KeyCheck, commitmentFingerprint, createSalt, verifyReveal, GameAnalysis, GameRecord, GameState, buildShareGrid, runHints, canSolve, classifySymbols, createGameRecords, createInitialState, candidateSteps, gameReducer,
+  InputError, BEST_OF_OPTIONS, MAX_NAME_LENGTH, ROOM_CODE_LENGTH, matchWinner, opponentOf, winsNeeded,
+  dailyKey, dailyNumber, dailySecret, maxCodeLength, normalizeRules, suggestGuess,
+} from './engine';
+import { addRecord, loadHistory } from './services/history';
+import { loadDailyGame, saveDailyGame } from './services/daily';
+import { clearSession, isActiveGame, loadSession, saveSession } from './services/session';
+import { RelayConnection, RelayIntent, RelayStatus, connectToRelay } from './services/relay';
+import { ProfileStore, addProfile, loadProfiles, removeProfile, selectProfile } from './services/profiles';
+import { registerServiceWorker } from './services/serviceWorker';
+import { analyzeInBackground } from './services/analysis';
+import { SentChallenge, challengeHash, loadSentChallenges, openChallenge, readChallengeHash, rememberChallenge, sealChallenge } from './services/challenge';
+import { StatsScreen } from './components/StatsScreen';
+import { LeaderboardScreen } from './components/LeaderboardScreen';
+import { QrCode } from './components/QrCode';
+import { THEMES, ThemeId, applyTheme, isThemeId, themeById } from './components/themes';
+import { I18nContext, LOCALES, Locale, MessageKey, Translator, createTranslator, isLocale, preferredLocale, useI18n } from './i18n';
+import { Trophy, Brain, Delete, Palette, RotateCcw, Users, User, ArrowRight, Lock, ShieldCheck, Check, Lightbulb, SlidersHorizontal, Minus, Plus, Sparkles, Bot, BarChart3, CalendarDays, Share2, Play, Globe, Loader2, WifiOff, ShieldAlert, ShieldEllipsis, NotebookPen, Medal, X, Timer, Zap, ArrowLeft, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Film, Target, Send, Skull, Cpu } from 'lucide-react';
 
-// --- Types & Constants ---
-type GameMode = 'solo' | 'multiplayer';
-type GameStatus = 'menu' | 'setup' | 'handover' | 'playing' | 'won' | 'lost';
+// --- Constants ---
+// Swatch classes for the 'colors' alphabet, keyed by symbol
+const COLOR_SWATCHES: Record<string, string> = {
+  R: 'bg-rose-500',
+  O: 'bg-orange-500',
+  Y: 'bg-yellow-400',
+  G: 'bg-green-500',
+  B: 'bg-blue-500',
+  P: 'bg-purple-500',
+  C: 'bg-cyan-400',
+  W: 'bg-white border border-zinc-300',
+};
+// Messages are looked up by key (see ./i18n); these name the keys for engine values
+const INPUT_ERROR_MESSAGES: Record<InputError, MessageKey> = {
+  incomplete: 'error.incomplete',
+  duplicate: 'error.duplicate',
+  'invalid-symbol': 'error.invalid-symbol',
+  'no-hint': 'error.no-hint',
+};
+
+const MODE_LABELS: Record<GameMode, MessageKey> = {
+  solo: 'mode.solo',
+  multiplayer: 'mode.multiplayer',
+  daily: 'mode.daily',
+  online: 'mode.online',
+  blitz: 'mode.blitz',
+  marathon: 'mode.marathon',
+  challenge: 'mode.challenge',
+  evil: 'mode.evil',
+  reverse: 'mode.reverse',
+};
+
+const BREAKER_LABELS: Record<BreakerStrength, MessageKey> = {
+  random: 'breaker.random',
+  minimax: 'breaker.minimax',
+  entropy: 'breaker.entropy',
+};
+
+// Countdown display: "2:05"
+const formatClock = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+// "1 bull, 2 cows": the wording used for screen readers
+const describeFeedback = ({ t }: Translator, bulls: number, cows: number) =>
+  t('feedback.describe', { bulls: t('feedback.bulls', { count: bulls }), cows: t('feedback.cows', { count: cows }) });
 
-interface Guess {
-  code: string;
-  bulls: number;
-  cows: number;
-  isRevealed?: boolean; // New property for the hint feature
-}
+// Swatches are spoken by their color names
+const spellCode = ({ t }: Translator, code: string, alphabet: Alphabet) =>
+  code.split('').map((symbol) => (alphabet === 'colors' ? t(`color.${symbol}` as MessageKey) : symbol)).join(' ');
 
-const MAX_ATTEMPTS = 10;
-const CODE_LENGTH = 4;
+// "unique 4-digit": the rules in the words of the menu tagline
+const describeRulesIn = ({ t }: Translator, rules: GameRules) =>
+  t(rules.allowDuplicates ? 'rules.describe.repeats' : 'rules.describe.unique', {
+    length: rules.codeLength,
+    unit: t(`unit.${rules.alphabet}`, { count: 1 }),
+    units: t(`unit.${rules.alphabet}`, { count: rules.codeLength }),
+  });
 
 // --- Components ---
 
 // 1. Feedback Indicator (The dots)
-const FeedbackDisplay = ({ bulls, cows }: { bulls: number; cows: number }) => {
-  const misses = 4 - bulls - cows;
+// Bulls are solid, cows hollow, misses faint, and the counts are spelled out
+// next to them, so the result never depends on telling the theme's bull and cow colors apart.
+const FeedbackDisplay = ({ bulls, cows, length }: { bulls: number; cows: number; length: number }) => {
+  const i18n = useI18n();
+  const misses = length - bulls - cows;
   return (
-    <div className="flex gap-2">
+    <div role="img" aria-label={describeFeedback(i18n, bulls, cows)} className={`flex items-center ${length > 5 ? 'gap-1.5' : 'gap-2'}`}>
+      <span aria-hidden="true" className="text-[10px] font-mono font-bold text-zinc-400 tabular-nums me-0.5">{i18n.t('feedback.short', { bulls, cows })}</span>
       {[...Array(bulls)].map((_, i) => (
-        <div key={`b-${i}`} className="w-3 h-3 rounded-full bg-emerald-500 shadow-[0_0_10px_rgba(16,185,129,0.6)] ring-2 ring-emerald-500/20" />
+        <div key={`b-${i}`} className="w-3 h-3 rounded-full bg-bull shadow-[0_0_10px_rgb(var(--color-bull)/0.6)] ring-2 ring-bull/20" />
       ))}
       {[...Array(cows)].map((_, i) => (
-        <div key={`c-${i}`} className="w-3 h-3 rounded-full bg-transparent border-[3px] border-amber-400 box-border" />
+        <div key={`c-${i}`} className="w-3 h-3 rounded-full bg-transparent border-[3px] border-cow box-border" />
       ))}
       {[...Array(misses)].map((_, i) => (
         <div key={`m-${i}`} className="w-3 h-3 rounded-full bg-zinc-200 dark:bg-zinc-800" />
@@ -35,27 +111,42 @@ const FeedbackDisplay = ({ bulls, cows }: { bulls: number; cows: number }) => {
   );
 };
 
-// 2. The Input "Vault" Display (The 4 boxes)
-const InputDisplay = ({ value, status, shake }: { value: string, status: GameStatus, shake: boolean }) => {
+// 2. A single code symbol (plain character, or a swatch for the colors alphabet)
+const CodeSymbol = ({ symbol, alphabet, size = 'md' }: { symbol: string; alphabet: Alphabet; size?: 'sm' | 'md' }) => {
+  const i18n = useI18n();
+  if (alphabet !== 'colors') return <>{symbol}</>;
+  return (
+    <span
+      title={symbol}
+      role="img"
+      aria-label={spellCode(i18n, symbol, alphabet)}
+      className={`inline-block rounded-full ${size === 'sm' ? 'w-4 h-4' : 'w-6 h-6'} ${COLOR_SWATCHES[symbol] ?? 'bg-zinc-400'}`}
+    />
+  );
+};
+
+// 3. The Input "Vault" Display (One box per code position)
+const InputDisplay = ({ value, status, shake, rules }: { value: string, status: GameStatus, shake: boolean, rules: GameRules }) => {
   const digits = value.split('');
+  const compact = rules.codeLength > 5;
   
   return (
-    <div className={`flex gap-2 justify-center mb-4 ${shake ? 'shake-anim' : ''}`}>
-      {[0, 1, 2, 3].map((i) => {
+    <div dir="ltr" className={`flex ${compact ? 'gap-1.5' : 'gap-2'} justify-center mb-4 ${shake ? 'shake-anim' : ''}`}>
+      {[...Array(rules.codeLength)].map((_, i) => {
         const hasValue = digits[i] !== undefined;
-        // Show actual number
-        const displayChar = hasValue ? digits[i] : ''; 
+        // Show actual symbol
+        const displayChar = hasValue ? <CodeSymbol symbol={digits[i]} alphabet={rules.alphabet} /> : ''; 
         
         return (
           <div 
             key={i}
             className={`
-              w-12 h-14 sm:w-14 sm:h-16 rounded-xl border-2 flex items-center justify-center text-3xl font-mono font-bold transition-all duration-200
+              ${compact ? 'w-9 h-12 sm:w-11 sm:h-14 text-2xl' : 'w-12 h-14 sm:w-14 sm:h-16 text-3xl'} rounded-xl border-2 flex items-center justify-center font-mono font-bold transition-all duration-200
               ${hasValue 
                 ? 'border-zinc-900 dark:border-zinc-100 text-zinc-900 dark:text-zinc-100 bg-white dark:bg-zinc-900 shadow-md transform -translate-y-1' 
                 : 'border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-900/50 text-transparent'}
-              ${status === 'won' ? 'border-emerald-500 text-emerald-500' : ''}
-              ${status === 'lost' ? 'border-rose-500 text-rose-500' : ''}
+              ${status === 'won' ? 'border-bull text-bull' : ''}
+              ${status === 'lost' ? 'border-danger text-danger' : ''}
             `}
           >
             {displayChar}
@@ -66,201 +157,1047 @@ const InputDisplay = ({ value, status, shake }: { value: string, status: GameSta
   );
 };
 
+// 4. Versus score strip (names, round score, whose turn it is)
+const MatchScoreboard = ({ match }: { match: Match }) => (
+  <div className="flex-none flex items-center justify-center gap-3 px-5 pt-3 text-xs font-bold">
+    {match.players.map((p, i) => (
+      <React.Fragment key={i}>
+        {i === 1 && (
+          <span className="font-mono text-zinc-400 tabular-nums">{match.scores[0]} – {match.scores[1]}</span>
+        )}
+        <span className={`px-2.5 py-1 rounded-full truncate max-w-[120px] ${match.turn === i
+          ? 'bg-zinc-900 dark:bg-white text-white dark:text-zinc-900'
+          : 'text-zinc-400'}`}>
+          {p.name}
+        </span>
+      </React.Fragment>
+    ))}
+    <span className="text-[10px] font-mono text-zinc-400 uppercase tracking-widest">R{match.round} · Bo{match.bestOf}</span>
+  </div>
+);
+
+// 5. Published commitments, so both players can note them before guessing starts
+const KeySeals = ({ match }: { match: Match }) => {
+  if (!match.players.some((p) => p.commitment)) return null;
+  return (
+    <div className="-mt-4 mb-8 flex flex-col gap-1 text-[10px] font-mono uppercase tracking-widest text-zinc-400">
+      {match.players.map((p, i) => p.commitment && (
+        <span key={i} className="flex items-center justify-center gap-1.5">
+          <Lock size={10} strokeWidth={3} /> {p.name} · #{commitmentFingerprint(p.commitment)}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+// 6. Commit-reveal verdict for a revealed versus key
+const KeyCheckBadge = ({ check }: { check: KeyCheck }) => {
+  const { t } = useI18n();
+  const styles: Record<KeyCheck, { label: MessageKey; className: string; icon: React.ReactNode }> = {
+    verified: { label: 'key.verified', className: 'bg-bull/15 text-bull', icon: <ShieldCheck size={12} strokeWidth={3} /> },
+    tampered: { label: 'key.tampered', className: 'bg-danger/15 text-danger', icon: <ShieldAlert size={12} strokeWidth={3} /> },
+    pending: { label: 'key.pending', className: 'bg-zinc-100 text-zinc-400 dark:bg-zinc-800', icon: <ShieldEllipsis size={12} strokeWidth={3} /> },
+  };
+  const { label, className, icon } = styles[check];
+  return (
+    <div className={`mt-3 mx-auto w-fit flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider ${className}`}>
+      {icon} {t(label)}
+    </div>
+  );
+};
+
+// 7. Step-by-step replay of a shared game, with the solver's candidate count after each guess
+type Replay = Extract<SharedGame, { kind: 'replay' }>;
+
+const ReplayViewer = ({ replay, onBack }: { replay: Replay; onBack: () => void }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const { rules, secret, guesses } = replay;
+  const [step, setStep] = useState(0);
+  const [showSolver, setShowSolver] = useState(false);
+
+  const remaining = useMemo(() => candidateSteps(rules, guesses)?.slice(1).map((step) => step.length) ?? null, [replay]);
+
+  const cracked = guesses.some((g) => g.bulls === rules.codeLength);
+  const stepButton = 'w-11 h-11 rounded-xl flex items-center justify-center bg-zinc-100 dark:bg-zinc-800 active:scale-90 transition-transform disabled:opacity-30';
+
+  return (
+    <div className="flex-1 flex flex-col px-6 pt-4 pb-[max(env(safe-area-inset-bottom),1.5rem)] min-h-0 animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <div className="flex items-center justify-between mb-2">
+        <button onClick={onBack} aria-label={t('common.back')} className="w-9 h-9 rounded-full flex items-center justify-center bg-zinc-200 dark:bg-zinc-800 active:scale-90 transition-transform">
+          <ArrowLeft size={16} className="rtl:-scale-x-100" />
+        </button>
+        <h2 className="text-2xl font-bold tracking-tight">{t('replay.title')}</h2>
+        <div className="w-9" />
+      </div>
+      <p className="text-center text-[10px] font-mono uppercase tracking-widest text-zinc-400 mb-4">
+        {describeRulesIn(i18n, rules)} · {t(cracked ? 'replay.cracked' : 'replay.failed', { count: guesses.length })}
+      </p>
+
+      <div dir="ltr" className="flex justify-center gap-2 mb-4" aria-label={t('replay.secret', { code: spellCode(i18n, secret, rules.alphabet) })}>
+        {secret.split('').map((char, i) => (
+          <div key={i} className="w-8 h-10 bg-white dark:bg-zinc-900 border border-zinc-100 dark:border-zinc-800 rounded-lg flex items-center justify-center font-mono font-bold">
+            <CodeSymbol symbol={char} alphabet={rules.alphabet} size="sm" />
+          </div>
+        ))}
+      </div>
+
+      <ol className="flex-1 overflow-y-auto no-scrollbar space-y-2 min-h-0">
+        {guesses.slice(0, step).map((g, idx) => (
+          <li key={idx} className="flex items-center justify-between p-3 px-4 bg-white dark:bg-zinc-900 border border-zinc-100 dark:border-zinc-800 rounded-2xl animate-in fade-in slide-in-from-bottom-2 duration-300">
+            <div className="flex items-center gap-3">
+              <span className="text-[10px] font-mono text-zinc-300 w-4">{idx + 1}</span>
+              <span dir="ltr" className="flex gap-2 text-lg font-mono font-bold tracking-widest">
+                {g.code.split('').map((char, i) => (
+                  <span key={i} className="flex"><CodeSymbol symbol={char} alphabet={rules.alphabet} size="sm" /></span>
+                ))}
+              </span>
+            </div>
+            <div className="flex items-center gap-3">
+              {showSolver && remaining && (
+                <span className="text-[10px] font-mono text-zinc-400 tabular-nums">{t('common.left', { count: remaining[idx] })}</span>
+              )}
+              <FeedbackDisplay bulls={g.bulls} cows={g.cows} length={rules.codeLength} />
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex-none pt-4 flex items-center justify-between">
+        <button className={stepButton} aria-label={t('replay.first')} disabled={step === 0} onClick={() => setStep(0)}><ChevronsLeft size={18} className="rtl:-scale-x-100" /></button>
+        <button className={stepButton} aria-label={t('replay.previous')} disabled={step === 0} onClick={() => setStep(step - 1)}><ChevronLeft size={18} className="rtl:-scale-x-100" /></button>
+        <span className="text-xs font-mono font-bold text-zinc-400 tabular-nums" aria-live="polite">{step}/{guesses.length}</span>
+        <button className={stepButton} aria-label={t('replay.next')} disabled={step === guesses.length} onClick={() => setStep(step + 1)}><ChevronRight size={18} className="rtl:-scale-x-100" /></button>
+        <button className={stepButton} aria-label={t('replay.last')} disabled={step === guesses.length} onClick={() => setStep(guesses.length)}><ChevronsRight size={18} className="rtl:-scale-x-100" /></button>
+      </div>
+      {remaining && (
+        <button
+          onClick={() => setShowSolver(!showSolver)}
+          className={`mt-3 mx-auto flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider transition-colors ${showSolver
+            ? 'bg-accent text-on-accent'
+            : 'bg-accent/15 text-accent'}`}
+        >
+          <Sparkles size={12} strokeWidth={3} /> {t('replay.solver')}
+        </button>
+      )}
+    </div>
+  );
+};
+
 export default function App() {
   // --- State ---
-  // Initialize dark mode from LocalStorage or System Preference
-  const [darkMode, setDarkMode] = useState(() => {
+  // Initialize the theme from LocalStorage (where 'light' and 'dark' carry over from the old toggle) or System Preference
+  const [themeId, setThemeId] = useState<ThemeId>(() => {
     if (typeof window !== 'undefined') {
       const savedTheme = localStorage.getItem('smashCodeTheme');
-      if (savedTheme) {
-        return savedTheme === 'dark';
+      if (isThemeId(savedTheme)) return savedTheme;
+      return window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light';
+    }
+    return 'light';
+  });
+  // Interface language: the saved choice, or the first of the browser's languages there is a catalog for
+  const [locale, setLocale] = useState<Locale>(() => {
+    if (typeof window === 'undefined') return 'en';
+    const savedLocale = localStorage.getItem('smashCodeLanguage');
+    return isLocale(savedLocale) ? savedLocale : preferredLocale(navigator.languages ?? [navigator.language]);
+  });
+  const i18n = useMemo(() => createTranslator(locale), [locale]);
+  const { t } = i18n;
+  const [showSettings, setShowSettings] = useState(false);
+
+  // Rules chosen from the menu, persisted alongside the theme
+  const [menuRules, setMenuRules] = useState<GameRules>(() => {
+    if (typeof window !== 'undefined') {
+      try {
+        const savedRules = localStorage.getItem('smashCodeRules');
+        if (savedRules) return normalizeRules(JSON.parse(savedRules));
+      } catch {
+        // Corrupt entry: fall back to the defaults
       }
-      return window.matchMedia('(prefers-color-scheme: dark)').matches;
     }
-    return false;
+    return DEFAULT_RULES;
   });
+  const [showRules, setShowRules] = useState(false);
 
-  const [gameStatus, setGameStatus] = useState<GameStatus>('menu');
-  
-  const [secretCode, setSecretCode] = useState<string>('');
-  const [currentInput, setCurrentInput] = useState<string>('');
-  const [guesses, setGuesses] = useState<Guess[]>([]);
+  // Scoring used by the solver when suggesting or auto-playing guesses
+  const [solverStrategy, setSolverStrategy] = useState<SolverStrategy>(() =>
+    typeof window !== 'undefined' && localStorage.getItem('smashCodeSolver') === 'minimax' ? 'minimax' : 'entropy'
+  );
+  const [autoSolving, setAutoSolving] = useState(false);
+
+  // Deduction notepad: the player's marks per board (versus players each keep their own)
+  const [showNotes, setShowNotes] = useState(false);
+  const [notesAutoFill, setNotesAutoFill] = useState(() =>
+    typeof window !== 'undefined' && localStorage.getItem('smashCodeNotesAuto') === 'on'
+  );
+  const [notesByBoard, setNotesByBoard] = useState<Record<number, NoteGrid>>({});
+
+  // Hint menu (shown in place of the keypad), and whether a tap on a guess should color it
+  const [showHints, setShowHints] = useState(false);
+  const [pickingGuess, setPickingGuess] = useState(false);
+
+  // Versus match options, entered before the first round
+  const [showVersusSetup, setShowVersusSetup] = useState(false);
+  const [playerNames, setPlayerNames] = useState<[string, string]>(() => {
+    try {
+      const saved = typeof window !== 'undefined' ? JSON.parse(localStorage.getItem('smashCodePlayers') ?? 'null') : null;
+      if (Array.isArray(saved) && saved.length === 2 && saved.every((n) => typeof n === 'string')) return [saved[0], saved[1]];
+    } catch {
+      // Corrupt entry: start with empty names
+    }
+    return ['', ''];
+  });
+  const [bestOf, setBestOf] = useState(3);
+
+  // Blitz options: one clock for the game or one per guess
+  const [showBlitzSetup, setShowBlitzSetup] = useState(false);
+  const [blitzTimer, setBlitzTimer] = useState<BlitzTimer>('game');
+
+  // Reverse options: how well the CPU guesses, and who scores its guesses
+  const [showReverseSetup, setShowReverseSetup] = useState(false);
+  const [breaker, setBreaker] = useState<BreakerStrength>('minimax');
+  const [manualScoring, setManualScoring] = useState(false);
+  // Reverse, scored by hand: the answer being put together for the CPU's guess
+  const [answer, setAnswer] = useState({ bulls: 0, cows: 0 });
+
+  // Remote challenges: the link for a code just set, and results pasted back by its setter
+  const [showChallengeSetup, setShowChallengeSetup] = useState(false);
+  const [challengeLink, setChallengeLink] = useState<string | null>(null);
+  const [challengeError, setChallengeError] = useState<string | null>(null);
+  const [resultInput, setResultInput] = useState('');
+  const [challengeReport, setChallengeReport] = useState<{ challenge: SentChallenge; report: ChallengeReport } | null>(null);
+  // Timed modes: the time the clock was last drawn at
+  const [now, setNow] = useState(() => Date.now());
+
+  // Online play: connection to the relay server and the lobby form
+  const [showOnlineSetup, setShowOnlineSetup] = useState(false);
+  const [joinCode, setJoinCode] = useState('');
+  const [relayStatus, setRelayStatus] = useState<RelayStatus | null>(null);
+  const [relayRoom, setRelayRoom] = useState<string | null>(null);
+  const [relayError, setRelayError] = useState<string | null>(null);
+  const relayRef = useRef<RelayConnection | null>(null);
+  const seatRef = useRef<{ room: string; seat: 0 | 1 } | null>(null);
+  // Everything but online play works without a network
+  const [offline, setOffline] = useState(() => typeof navigator !== 'undefined' && !navigator.onLine);
+
+  // A newer build is installed and waiting; calling this switches to it
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+
+  // Screens outside the game flow
+  const [screen, setScreen] = useState<'game' | 'stats' | 'leaderboard' | 'replay'>('game');
+  // The game a replay link was opened for
+  const [replay, setReplay] = useState<Replay | null>(null);
+
+  // Local profiles: the active one is stamped on every recorded game
+  const [profileStore, setProfileStore] = useState<ProfileStore>(() =>
+    typeof window !== 'undefined' ? loadProfiles() : { profiles: [], activeId: '' }
+  );
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [newProfileName, setNewProfileName] = useState('');
+  const activeProfile = profileStore.profiles.find((p) => p.id === profileStore.activeId);
+  const [history, setHistory] = useState<GameRecord[]>(() => (typeof window !== 'undefined' ? loadHistory() : []));
+
+  const [game, dispatch] = useReducer(gameReducer, menuRules, createInitialState);
+  // Unfinished game from an earlier visit (or from before returning to the menu)
+  const [savedSession, setSavedSession] = useState<GameState | null>(() => (typeof window !== 'undefined' ? loadSession() : null));
+  const { status: gameStatus, rules, secret: secretCode, input: currentInput, guesses, hints } = game;
   const [shakeInput, setShakeInput] = useState(false);
-  const [hintAvailable, setHintAvailable] = useState(true);
+  // Read out by the polite live region: guess results, rejections and the outcome
+  const [announcement, setAnnouncement] = useState('');
+  const { match } = game;
+  const currentPlayer = match ? match.players[match.turn] : null;
+  // Versus: the opponent cracked the code last turn, so this is the answering turn
+  const lastChance = !!match && !game.online && gameStatus === 'handover'
+    && match.players[opponentOf(match.turn)].guesses.some((g) => g.bulls === rules.codeLength);
+  const matchOverWinner = match ? matchWinner(match) : null;
+
+  const { clock, marathon } = game;
+  const clockRunning = gameStatus === 'playing' && !!clock && clock.runningSince !== null;
+  // The clock stops where it ran out, so an expired one has nothing left
+  const outOfTime = clock?.leftMs === 0;
+
+  // Overlay copy: versus reports the round and match, reverse the player's code, the other modes the lone board
+  const resultTitle = game.reverse
+    ? t(game.reverse.lied ? 'result.lied' : gameStatus === 'won' ? 'result.held' : 'result.cracked')
+    : !match
+      ? t(marathon ? 'result.timeUp' : gameStatus === 'won' ? 'result.unlocked' : outOfTime ? 'result.timedOut' : 'result.failed')
+      : match.roundWinner === null
+        ? t('result.deadlock')
+        : match.players[match.roundWinner].name.toLocaleUpperCase(locale);
+  const resultMessage = (() => {
+    if (game.reverse) {
+      if (game.reverse.lied) return t('result.lied.text', { count: guesses.length });
+      return gameStatus === 'won' ? t('result.held.text') : t('result.cracked.text', { count: guesses.length });
+    }
+    if (marathon) return marathon.solved > 0 ? t('result.marathon.text', { count: marathon.solved }) : t('result.marathon.none');
+    if (!match) {
+      if (gameStatus === 'won') return t('result.won.text', { count: guesses.length });
+      return t(outOfTime ? 'result.timedOut.text' : 'result.lost.text');
+    }
+    if (match.roundWinner === null) {
+      return t(match.decidedByTiebreak ? 'round.void.tiebreak' : 'round.void');
+    }
+    const winner = match.players[match.roundWinner];
+    const loser = match.players[opponentOf(match.roundWinner)];
+    const params = { name: winner.name, count: winner.guesses.length, round: match.round };
+    if (match.decidedByTiebreak) {
+      return t(matchOverWinner !== null ? 'round.fasterMatch' : 'round.faster', {
+        ...params,
+        time: Math.round(winner.timeMs / 1000),
+        otherTime: Math.round(loser.timeMs / 1000),
+      });
+    }
+    return t(matchOverWinner !== null ? 'round.wonMatch' : 'round.won', params);
+  })();
+  const [shareCopied, setShareCopied] = useState(false);
+  // Which link or result string was just copied
+  const [linkCopied, setLinkCopied] = useState<SharedGame['kind'] | 'duel' | 'result' | null>(null);
+  // Single boards can be shared; a marathon's last code is only the tail of the run,
+  // a remote challenge reports back with its result string instead, and in reverse the CPU did the guessing
+  const shareable = !match && !marathon && !game.online && game.mode !== 'challenge' && !game.reverse;
+  const challengeResult = useMemo(() => encodeChallengeResult(game), [game.status, game.finishedAt]);
+  // Score of a won single-board game (versus rounds are scored on the leaderboard only, reverse games not at all)
+  const gameScore = useMemo(() => {
+    const [record] = match || game.reverse ? [] : createGameRecords(game);
+    return record?.outcome === 'won' ? scoreBreakdown(record) : null;
+  }, [game.status, game.finishedAt]);
+
+  // Over a whole marathon run, not just its last code
+  const hintsTaken = (marathon ? runHints(marathon).length : 0) + hints.clues.length;
+
+  // Today's Daily Cipher, as far as it has been played
+  const todayKey = dailyKey(new Date());
+  const todaysDaily = useMemo(() => (typeof window !== 'undefined' ? loadDailyGame(todayKey) : null), [todayKey, gameStatus]);
+  // The day the current daily game belongs to (it may have been started before midnight)
+  const gameDailyKey = game.mode === 'daily' && game.startedAt !== null ? dailyKey(new Date(game.startedAt)) : null;
+
+  // The advisor only helps in Solo Run, and only when the code space is small enough to enumerate
+  const solverEnabled = gameStatus !== 'menu' && game.mode === 'solo' && canSolve(rules);
+
+  // Secrets still consistent with the board's guesses, after each of them (for the notepad and the advisor)
+  const autoNotes = notesAutoFill && gameStatus === 'playing';
+  const candidateHistory = useMemo(
+    () => (solverEnabled || autoNotes ? candidateSteps(rules, guesses) : null),
+    [solverEnabled, autoNotes, rules, guesses],
+  );
+
+  // The notepad for the board being played: the player's marks, plus what the guesses prove if auto-fill is on
+  const notesBoard = match ? match.turn : 0;
+  const manualNotes = notesByBoard[notesBoard] ?? createNotes(rules);
+  const deducedNotes = useMemo(
+    () => (autoNotes ? deduceNotes(rules, guesses, candidateHistory && candidateHistory[candidateHistory.length - 1]) : null),
+    [autoNotes, rules, guesses, candidateHistory],
+  );
+  const notes = mergeNotes(manualNotes, deducedNotes);
+  // Keys to dim on the keypad while guessing: ruled out in the notes, or named by a 'missing symbol' hint
+  const ruledOut = gameStatus === 'playing'
+    ? [...excludedSymbols(notes), ...hints.clues.flatMap((c) => (c.kind === 'absent' ? [c.symbol] : []))]
+    : [];
+
+  // Secrets still consistent with the history, plus how many were left after each guess
+  const solverView = useMemo(() => {
+    if (!solverEnabled || !candidateHistory) return null;
+    return {
+      candidates: candidateHistory[candidateHistory.length - 1],
+      remaining: candidateHistory.slice(1).map((step) => step.length),
+    };
+  }, [solverEnabled, candidateHistory]);
+  // Candidates left after each guess, where they are tracked (reverse: by the CPU)
+  const candidatesLeft = game.reverse?.remaining ?? solverView?.remaining ?? null;
+
+  // Post-game comparison with the solver's own play, worked out in the background
+  const [analysis, setAnalysis] = useState<GameAnalysis | null>(null);
+  useEffect(() => {
+    setAnalysis(null);
+    if (!solverEnabled || (gameStatus !== 'won' && gameStatus !== 'lost')) return;
+    return analyzeInBackground({ secret: secretCode, rules, guesses, strategy: solverStrategy }, setAnalysis);
+  }, [solverEnabled, gameStatus, secretCode, rules, guesses, solverStrategy]);
   
   const historyRef = useRef<HTMLDivElement>(null);
+  // The latest state, for page lifecycle handlers registered once
+  const gameRef = useRef(game);
+  gameRef.current = game;
+
+  // Saving pauses a timed game's clock as of now, so the saved time left is never stale
+  const saveActiveGame = (state: GameState) => {
+    if (isActiveGame(state)) setSavedSession(saveSession(state));
+  };
 
   // --- Effects ---
   
   // Handle Theme Changes (DOM & Persistence)
   useEffect(() => {
-    const root = document.documentElement;
-    const metaThemeColor = document.querySelector('meta[name="theme-color"]');
-    
-    if (darkMode) {
-      root.classList.add('dark');
-      localStorage.setItem('smashCodeTheme', 'dark');
-      // Update mobile browser status bar
-      if (metaThemeColor) metaThemeColor.setAttribute('content', '#09090b');
-    } else {
-      root.classList.remove('dark');
-      localStorage.setItem('smashCodeTheme', 'light');
-      // Update mobile browser status bar
-      if (metaThemeColor) metaThemeColor.setAttribute('content', '#fafafa');
-    }
-  }, [darkMode]);
+    applyTheme(themeById(themeId));
+    localStorage.setItem('smashCodeTheme', themeId);
+  }, [themeId]);
 
+  // The page's language and text direction follow the chosen language
   useEffect(() => {
-    // Scroll to bottom whenever guesses change
-    if (historyRef.current) {
-      historyRef.current.scrollTop = historyRef.current.scrollHeight;
+    document.documentElement.lang = locale;
+    document.documentElement.dir = i18n.dir;
+    localStorage.setItem('smashCodeLanguage', locale);
+  }, [locale]);
+
+  useEffect(() => {
+    localStorage.setItem('smashCodeRules', JSON.stringify(menuRules));
+  }, [menuRules]);
+
+  useEffect(() => {
+    localStorage.setItem('smashCodeSolver', solverStrategy);
+  }, [solverStrategy]);
+
+  useEffect(() => {
+    localStorage.setItem('smashCodeNotesAuto', notesAutoFill ? 'on' : 'off');
+  }, [notesAutoFill]);
+
+  // Notes belong to one game (or round): start clean whenever codes are being set or the menu is up
+  useEffect(() => {
+    if (gameStatus === 'menu' || gameStatus === 'setup') setNotesByBoard({});
+  }, [gameStatus]);
+
+  // Marathon: every new code starts with a clean notepad
+  useEffect(() => {
+    if (marathon) setNotesByBoard({});
+  }, [marathon?.solved]);
+
+  // Timed modes: redraw the clock a few times a second; 'tick' ends the game once it runs out
+  useEffect(() => {
+    if (!clockRunning) return;
+    const timer = setInterval(() => {
+      const at = Date.now();
+      setNow(at);
+      dispatch({ type: 'tick', at });
+    }, 250);
+    return () => clearInterval(timer);
+  }, [clockRunning]);
+
+  // Timed modes: the clock stops while the app is in the background. The live game is saved
+  // right away too, since a page that is being closed may never render the paused state.
+  useEffect(() => {
+    const onVisibilityChange = () => {
+      const hidden = document.visibilityState === 'hidden';
+      if (hidden) saveActiveGame(gameRef.current);
+      dispatch({ type: hidden ? 'pause' : 'resume', at: Date.now() });
+    };
+    const onPageHide = () => saveActiveGame(gameRef.current);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('pagehide', onPageHide);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('pagehide', onPageHide);
+    };
+  }, []);
+
+  // Hint menus never outlive the turn they were opened in
+  useEffect(() => {
+    setShowHints(false);
+    setPickingGuess(false);
+  }, [gameStatus, match?.turn]);
+
+  useEffect(() => {
+    localStorage.setItem('smashCodePlayers', JSON.stringify(playerNames));
+  }, [playerNames]);
+
+  // Offline play: register the service worker and offer new builds as they arrive
+  useEffect(() => {
+    registerServiceWorker((apply) => setApplyUpdate(() => apply));
+    const onConnectivity = () => setOffline(!navigator.onLine);
+    window.addEventListener('online', onConnectivity);
+    window.addEventListener('offline', onConnectivity);
+    return () => {
+      window.removeEventListener('online', onConnectivity);
+      window.removeEventListener('offline', onConnectivity);
+    };
+  }, []);
+
+  // Auto-play: submit the solver's pick at a readable pace until the game ends
+  useEffect(() => {
+    if (!autoSolving) return;
+    if (gameStatus !== 'playing' || !solverView) {
+      setAutoSolving(false);
+      return;
     }
-  }, [guesses, gameStatus]);
+    const timer = setTimeout(() => {
+      const code = suggestGuess(solverView.candidates, solverStrategy);
+      if (code) dispatch({ type: 'submit', at: Date.now(), code });
+    }, 700);
+    return () => clearTimeout(timer);
+  }, [autoSolving, gameStatus, solverView, solverStrategy]);
 
-  // --- Logic ---
+  // Reverse: the CPU guesses at a readable pace; scored by hand, it waits for each answer
+  useEffect(() => {
+    if (gameStatus !== 'playing' || !game.reverse || game.reverse.pending) return;
+    const timer = setTimeout(() => dispatch({ type: 'cpuGuess', at: Date.now() }), 900);
+    return () => clearTimeout(timer);
+  }, [gameStatus, game.reverse]);
+
+  // Reverse, scored by hand: every guess starts from a blank answer and is read out
+  const pendingGuess = game.reverse?.pending ?? null;
+  useEffect(() => {
+    setAnswer({ bulls: 0, cows: 0 });
+    if (pendingGuess) setAnnouncement(t('announce.cpuGuess', { code: spellCode(i18n, pendingGuess, rules.alphabet) }));
+  }, [pendingGuess]);
 
-  const generateSecretCode = (): string => {
-    const digits = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
-    let code = '';
-    for (let i = 0; i < CODE_LENGTH; i++) {
-      const randomIndex = Math.floor(Math.random() * digits.length);
-      code += digits[randomIndex];
-      digits.splice(randomIndex, 1);
+  // Snapshot the active game on every transition so it survives the tab being killed
+  useEffect(() => {
+    if (isActiveGame(game)) {
+      saveActiveGame(game);
+    } else if ((gameStatus === 'won' || gameStatus === 'lost') && game.mode !== 'online') {
+      clearSession();
+      setSavedSession(null);
     }
-    return code;
-  };
+  }, [game]);
+
+  // Keep daily progress across reloads
+  useEffect(() => {
+    if (game.mode === 'daily' && gameStatus !== 'menu') saveDailyGame(game);
+  }, [game]);
+
+  // Online: hand queued messages to the relay, then drop them from the engine's outbox
+  useEffect(() => {
+    const outbox = game.online?.outbox ?? [];
+    if (outbox.length === 0 || !relayRef.current) return;
+    outbox.forEach((message) => relayRef.current?.send(message));
+    dispatch({ type: 'flushOutbox', count: outbox.length });
+  }, [game.online?.outbox]);
 
-  const calculateFeedback = (secret: string, guess: string) => {
-    let bulls = 0;
-    let cows = 0;
-    for (let i = 0; i < CODE_LENGTH; i++) {
-      if (guess[i] === secret[i]) {
-        bulls++;
-      } else if (secret.includes(guess[i])) {
-        cows++;
+  // Shared game links: a replay opens the viewer, a challenge starts a solo game on the shared code,
+  // and a sealed remote challenge is opened and played as one
+  useEffect(() => {
+    const openSharedGame = async () => {
+      const sealed = readChallengeHash(window.location.hash);
+      const shared = readShareHash(window.location.hash);
+      if (!sealed && !shared) return;
+      // Drop the payload so a reload doesn't open it again
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      resetGame();
+      if (sealed) {
+        const challenge = await openChallenge(sealed);
+        if (challenge) {
+          dispatch({ type: 'start', mode: 'challenge', rules: challenge.rules, secret: challenge.secret, challengeId: challenge.id, at: Date.now() });
+        } else {
+          setChallengeError(t('challenge.damaged'));
+          setShowChallengeSetup(true);
+        }
+      } else if (shared?.kind === 'replay') {
+        setReplay(shared);
+        setScreen('replay');
+      } else if (shared) {
+        dispatch({ type: 'start', mode: 'solo', rules: shared.rules, secret: shared.secret, at: Date.now() });
       }
+    };
+    openSharedGame();
+    window.addEventListener('hashchange', openSharedGame);
+    return () => window.removeEventListener('hashchange', openSharedGame);
+  }, []);
+
+  // Remote challenge: once the code is set, seal it into a link and keep a copy to score the result against
+  useEffect(() => {
+    setChallengeLink(null);
+    if (game.mode !== 'challenge' || gameStatus !== 'handover' || !game.challengeId) return;
+    const challenge = { id: game.challengeId, rules, secret: secretCode };
+    rememberChallenge(challenge, Date.now());
+    let cancelled = false;
+    (async () => {
+      try {
+        const sealed = await sealChallenge(challenge);
+        if (!cancelled) setChallengeLink(`${window.location.origin}${window.location.pathname}${challengeHash(sealed)}`);
+      } catch {
+        // WebCrypto only exists on secure pages
+        if (!cancelled) setChallengeError(t('challenge.insecure'));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [game.mode, gameStatus, game.challengeId]);
+
+  // Close the relay connection when the app goes away
+  useEffect(() => () => relayRef.current?.leave(), []);
+
+  // Save every decided game to the history. Versus boards are named after their players instead of a profile.
+  useEffect(() => {
+    for (const record of createGameRecords(game)) {
+      setHistory(addRecord(record.mode === 'multiplayer' ? record : { ...record, profile: profileStore.activeId }));
     }
-    return { bulls, cows };
-  };
+  }, [game.status, game.secret]);
 
-  const triggerShake = () => {
+  // The engine flags rejected input; shake the vault whenever it does
+  useEffect(() => {
+    if (game.errorCount === 0) return;
+    // The alternating trailing space makes a repeated error count as new text, so it is read again
+    if (game.error) setAnnouncement(t(INPUT_ERROR_MESSAGES[game.error]) + (game.errorCount % 2 ? '\u00a0' : ''));
     setShakeInput(true);
-    setTimeout(() => setShakeInput(false), 400);
-  };
+    const timer = setTimeout(() => setShakeInput(false), 400);
+    return () => clearTimeout(timer);
+  }, [game.errorCount]);
+
+  // Announce each scored guess, and the result once the game is decided
+  useEffect(() => {
+    if (gameStatus !== 'playing' && gameStatus !== 'won' && gameStatus !== 'lost') return;
+    const last = guesses[guesses.length - 1];
+    const parts = last
+      ? [t('announce.guess', { number: guesses.length, code: spellCode(i18n, last.code, rules.alphabet), feedback: describeFeedback(i18n, last.bulls, last.cows) })]
+      : [];
+    if (gameStatus !== 'playing') parts.push(t('announce.result', { title: resultTitle, message: resultMessage }));
+    if (parts.length > 0) setAnnouncement(parts.join(' '));
+  }, [guesses, gameStatus]);
+
+  // Physical keyboard: symbols, Backspace/Delete and Enter go through the keypad handler.
+  // Re-subscribed on every render so the listener never acts on stale state.
+  useEffect(() => {
+    if (screen !== 'game' || (gameStatus !== 'setup' && gameStatus !== 'playing')) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.repeat) return;
+      const target = e.target as HTMLElement | null;
+      // Leave typing in form fields alone, and let Enter activate a focused button
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (e.key === 'Enter' && target?.closest('button')) return;
+
+      let key: string | null = null;
+      if (e.key === 'Enter') key = 'ENTER';
+      else if (e.key === 'Backspace' || e.key === 'Delete') key = 'DEL';
+      else if (ALPHABETS[rules.alphabet].symbols.includes(e.key.toUpperCase())) key = e.key.toUpperCase();
+      if (!key) return;
+      e.preventDefault();
+      handleKeypadPress(key);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  useEffect(() => {
+    // Scroll to bottom whenever guesses change
+    if (historyRef.current) {
+      historyRef.current.scrollTop = historyRef.current.scrollHeight;
+    }
+  }, [guesses, gameStatus]);
+
+  // --- Logic ---
+  // All game rules live in ./engine; the UI only translates input into actions.
 
   const handleKeypadPress = (key: string) => {
     if (shakeInput) return;
 
     if (key === 'ENTER') {
-      submitAction();
+      // A salt in case this sets a match code; guesses ignore it
+      dispatch({ type: 'submit', at: Date.now(), salt: createSalt() });
     } else if (key === 'DEL') {
-      setCurrentInput((prev) => prev.slice(0, -1));
+      dispatch({ type: 'delete' });
     } else {
-      if (currentInput.length >= CODE_LENGTH) return;
-      if (currentInput.includes(key)) {
-        triggerShake();
-        return;
-      }
-      setCurrentInput((prev) => prev + key);
+      dispatch({ type: 'input', symbol: key });
     }
   };
 
-  const submitAction = () => {
-    if (currentInput.length !== CODE_LENGTH) {
-      triggerShake();
+  const takeHint = (kind: HintKind) => {
+    setShowHints(false);
+    // With more than one guess to choose from, the player picks which one to color
+    if (kind === 'color' && guesses.length > 1) {
+      setPickingGuess(true);
       return;
     }
+    dispatch({ type: 'hint', kind, at: Date.now() });
+  };
 
-    // 1. SETUP MODE (Player 1 sets code)
-    if (gameStatus === 'setup') {
-      setSecretCode(currentInput);
-      setCurrentInput('');
-      setGameStatus('handover'); 
-      return;
+  const colorGuess = (index: number) => {
+    setPickingGuess(false);
+    dispatch({ type: 'hint', kind: 'color', guess: index, at: Date.now() });
+  };
+
+  const toggleNote = (symbol: string, position: number) =>
+    setNotesByBoard({ ...notesByBoard, [notesBoard]: cycleNote(manualNotes, symbol, position) });
+
+  const suggestNextGuess = () => {
+    if (!solverView) return;
+    const code = suggestGuess(solverView.candidates, solverStrategy);
+    if (code) dispatch({ type: 'fill', code });
+  };
+
+  // The daily can only be played once: a saved game is resumed (or its result shown) instead
+  const startDaily = () => {
+    const saved = loadDailyGame(todayKey);
+    if (saved) {
+      dispatch({ type: 'restore', state: saved });
+    } else {
+      dispatch({ type: 'start', mode: 'daily', rules: DAILY_RULES, secret: dailySecret(todayKey), at: Date.now() });
+    }
+  };
+
+  const shareDailyResult = async () => {
+    if (!gameDailyKey) return;
+    try {
+      await navigator.clipboard.writeText(buildShareGrid(gameDailyKey, guesses, rules, gameStatus === 'won'));
+      setShareCopied(true);
+      setTimeout(() => setShareCopied(false), 2000);
+    } catch {
+      // Clipboard blocked (e.g. insecure context): the grid is still visible to copy by hand
     }
+  };
 
-    // 2. PLAYING MODE (Player 2 guesses)
-    const { bulls, cows } = calculateFeedback(secretCode, currentInput);
-    const newGuess: Guess = { code: currentInput, bulls, cows, isRevealed: false };
-    const newGuesses = [...guesses, newGuess];
-    
-    setGuesses(newGuesses);
-    setCurrentInput('');
-
-    if (bulls === CODE_LENGTH) {
-      setGameStatus('won');
-    } else if (newGuesses.length >= MAX_ATTEMPTS) {
-      setGameStatus('lost');
+  const copyText = async (text: string, what: NonNullable<typeof linkCopied>) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setLinkCopied(what);
+      setTimeout(() => setLinkCopied(null), 2000);
+    } catch {
+      // Clipboard blocked (e.g. insecure context): links aren't shown, result strings can be copied by hand
     }
   };
 
-  const useHint = () => {
-    if (!hintAvailable || guesses.length === 0) return;
-    
-    // Create a copy of guesses
-    const updatedGuesses = [...guesses];
-    // Mark the last guess as revealed
-    updatedGuesses[updatedGuesses.length - 1].isRevealed = true;
-    
-    setGuesses(updatedGuesses);
-    setHintAvailable(false);
+  // A copied link puts the whole game (replay) or just its secret (challenge) in the URL fragment
+  const copyGameLink = (kind: SharedGame['kind']) => {
+    const shared: SharedGame = kind === 'replay' ? { kind, rules, secret: secretCode, guesses } : { kind, rules, secret: secretCode };
+    copyText(`${window.location.origin}${window.location.pathname}${shareHash(shared)}`, kind);
   };
 
-  const startGame = (mode: GameMode) => {
-    setGuesses([]);
-    setCurrentInput('');
-    setSecretCode('');
-    setHintAvailable(true);
-    
-    if (mode === 'solo') {
-      setSecretCode(generateSecretCode());
-      setGameStatus('playing');
+  // The setter scores a pasted result against the copy of the code kept when it was sent
+  const checkChallengeResult = () => {
+    setChallengeReport(null);
+    const result = decodeChallengeResult(resultInput);
+    const challenge = result && loadSentChallenges().find((c) => c.id === result.id);
+    const report = result && challenge && scoreChallengeResult(challenge, result);
+    if (!result) {
+      setChallengeError(t('challenge.notResult'));
+    } else if (!challenge) {
+      setChallengeError(t('challenge.otherDevice'));
+    } else if (!report) {
+      setChallengeError(t('challenge.mismatch'));
     } else {
-      setGameStatus('setup');
+      setChallengeError(null);
+      setChallengeReport({ challenge, report });
     }
   };
 
+  // The setter is done sharing: nothing on this device is left to resume
+  const finishChallenge = () => {
+    resetGame();
+    clearSession();
+    setSavedSession(null);
+  };
+
+  const continueGame = () => {
+    if (!savedSession) return;
+    dispatch({ type: 'restore', state: savedSession });
+    // Timed games come back with their clock stopped
+    dispatch({ type: 'resume', at: Date.now() });
+  };
+
+  const startGame = (mode: GameMode) => dispatch({ type: 'start', mode, rules: menuRules, at: Date.now() });
+
+  const startTimed = (mode: 'blitz' | 'marathon') => {
+    setShowBlitzSetup(false);
+    dispatch({ type: 'start', mode, rules: menuRules, at: Date.now(), timer: blitzTimer });
+  };
+
+  const startReverse = () => {
+    setShowReverseSetup(false);
+    dispatch({ type: 'start', mode: 'reverse', rules: menuRules, at: Date.now(), breaker, manualScoring });
+  };
+
+  // Left empty, a name falls back to the numbered default in the interface language
+  const playerName = (i: 0 | 1) => playerNames[i].trim() || t('player.default', { number: i + 1 });
+
+  const startMatch = () => {
+    setShowVersusSetup(false);
+    dispatch({ type: 'start', mode: 'multiplayer', rules: menuRules, at: Date.now(), players: [playerName(0), playerName(1)], bestOf });
+  };
+
+  const leaveRelay = () => {
+    relayRef.current?.leave();
+    relayRef.current = null;
+    seatRef.current = null;
+    setRelayRoom(null);
+    setRelayStatus(null);
+  };
+
+  const connectOnline = (intent: RelayIntent) => {
+    leaveRelay();
+    setRelayError(null);
+    relayRef.current = connectToRelay(intent, {
+      onStatus: setRelayStatus,
+      onJoined: (room, seat) => {
+        seatRef.current = { room, seat };
+        setRelayRoom(room);
+      },
+      onRoomReady: (players, rules) => {
+        if (!seatRef.current) return;
+        setShowOnlineSetup(false);
+        dispatch({ type: 'start', mode: 'online', rules, at: Date.now(), players, online: { room: seatRef.current.room, me: seatRef.current.seat } });
+      },
+      onMessage: (message) => dispatch({ type: 'remote', message, at: Date.now() }),
+      onOpponent: (event) => dispatch({ type: 'opponentConnection', event }),
+      onError: setRelayError,
+    });
+  };
+
   const resetGame = () => {
-    setGameStatus('menu');
-    setGuesses([]);
-    setCurrentInput('');
-    setSecretCode('');
-    setHintAvailable(true);
+    // Leaving mid-game: save the clock as it stands, not as it was at the last guess
+    saveActiveGame(game);
+    leaveRelay();
+    setAutoSolving(false);
+    setScreen('game');
+    dispatch({ type: 'reset' });
   };
 
   // --- Sub-Components ---
+  // Called as functions rather than rendered as <Keypad />: a component defined in here
+  // would remount on every render and drop keyboard focus.
 
   const Keypad = () => {
-    const keys = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'DEL', '0', 'ENTER'];
+    const symbols = ALPHABETS[rules.alphabet].symbols;
+    // Digits keep the classic phone layout; other alphabets get a symbol grid with an action row
+    const keys = rules.alphabet === 'digits'
+      ? ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'DEL', '0', 'ENTER']
+      : [...symbols, 'DEL', 'ENTER'];
+    const columns = rules.alphabet === 'digits' ? 'grid-cols-3' : 'grid-cols-4';
+
+    const renderKey = (k: string) => {
+      const isSpecial = k === 'DEL' || k === 'ENTER';
+      const isEnter = k === 'ENTER';
+      // Ruled out in the notepad: dimmed, but still pressable
+      const isRuledOut = ruledOut.includes(k);
+      return (
+        <button
+          key={k}
+          onClick={() => handleKeypadPress(k)}
+          aria-label={k === 'DEL' ? t('keypad.delete') : k === 'ENTER' ? t('keypad.submit') : isRuledOut ? t('keypad.ruledOut', { symbol: spellCode(i18n, k, rules.alphabet) }) : undefined}
+          className={`
+            ${rules.alphabet === 'hex' ? 'h-10 sm:h-12' : 'h-12 sm:h-14'} rounded-2xl text-xl font-medium transition-all duration-100 active:scale-95 flex items-center justify-center select-none touch-manipulation
+            ${isRuledOut ? 'opacity-30' : ''}
+            ${isEnter 
+              ? 'bg-bull text-on-bull shadow-lg shadow-bull/20 active:bg-bull/90' 
+              : isSpecial 
+                ? 'bg-zinc-100 dark:bg-zinc-800 text-danger active:bg-zinc-200 dark:active:bg-zinc-700' 
+                : 'bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 border border-zinc-200 dark:border-zinc-700 shadow-sm active:bg-zinc-50 dark:active:bg-zinc-700'}
+          `}
+        >
+          {k === 'DEL' ? <Delete strokeWidth={2.5} size={20} /> : k === 'ENTER' ? <Check strokeWidth={3} size={24} /> : <CodeSymbol symbol={k} alphabet={rules.alphabet} />}
+        </button>
+      );
+    };
+
     return (
-      <div className="w-full max-w-[420px] mx-auto px-4 pb-[env(safe-area-inset-bottom)]">
-        <div className="grid grid-cols-3 gap-2 sm:gap-3 pb-2">
-          {keys.map((k) => {
-            const isSpecial = k === 'DEL' || k === 'ENTER';
-            const isEnter = k === 'ENTER';
-            return (
-              <button
-                key={k}
-                onClick={() => handleKeypadPress(k)}
-                className={`
-                  h-12 sm:h-14 rounded-2xl text-xl font-medium transition-all duration-100 active:scale-95 flex items-center justify-center select-none touch-manipulation
-                  ${isEnter 
-                    ? 'bg-emerald-500 text-white shadow-lg shadow-emerald-500/20 active:bg-emerald-600' 
-                    : isSpecial 
-                      ? 'bg-zinc-100 dark:bg-zinc-800 text-rose-500 dark:text-rose-400 active:bg-zinc-200 dark:active:bg-zinc-700' 
-                      : 'bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 border border-zinc-200 dark:border-zinc-700 shadow-sm active:bg-zinc-50 dark:active:bg-zinc-700'}
-                `}
-              >
-                {k === 'DEL' ? <Delete strokeWidth={2.5} size={20} /> : k === 'ENTER' ? <Check strokeWidth={3} size={24} /> : k}
+      <div dir="ltr" className="w-full max-w-[420px] mx-auto px-4 pb-[env(safe-area-inset-bottom)]">
+        {rules.alphabet === 'digits' ? (
+          <div className={`grid ${columns} gap-2 sm:gap-3 pb-2`}>
+            {keys.map(renderKey)}
+          </div>
+        ) : (
+          <>
+            <div className={`grid ${columns} gap-2 sm:gap-3 pb-2`}>
+              {symbols.map(renderKey)}
+            </div>
+            <div className="grid grid-cols-2 gap-2 sm:gap-3 pb-2">
+              {['DEL', 'ENTER'].map(renderKey)}
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  // Hint menu: every kind of hint with its price; shown in place of the keypad
+  const HintMenu = () => {
+    const price = (kind: HintKind) => {
+      const { points, attempts } = HINT_COSTS[kind];
+      return points > 0 ? t('hint.points', { count: points }) : t('count.attempts', { count: attempts });
+    };
+    const available = (kind: HintKind) => {
+      if (!canAfford(hints, kind)) return false;
+      if (kind === 'color') return guesses.some((g) => !g.isRevealed);
+      if (kind === 'narrow') return canSolve(rules);
+      return true;
+    };
+    return (
+      <div className="w-full max-w-[420px] mx-auto px-4 pb-[max(env(safe-area-inset-bottom),0.5rem)] space-y-2">
+        <div className="flex justify-between items-center px-1 text-[10px] font-mono uppercase tracking-widest text-zinc-400">
+          <span>{t('hint.pointsLeft', { difficulty: t(`difficulty.${difficultyOf(rules)}`), count: pointsLeft(hints) })}</span>
+          <button onClick={() => setShowHints(false)} className="font-bold">{t('common.close')}</button>
+        </div>
+        {HINT_KINDS.map((kind) => (
+          <button
+            key={kind}
+            onClick={() => takeHint(kind)}
+            disabled={!available(kind)}
+            className="w-full flex items-center justify-between gap-3 px-4 py-2.5 rounded-2xl bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 text-start active:scale-[0.98] transition-transform disabled:opacity-40"
+          >
+            <span>
+              <span className="block text-sm font-bold">{t(`hint.${kind}.title`)}</span>
+              <span className="block text-xs text-zinc-500">{t(`hint.${kind}.text`)}</span>
+            </span>
+            <span className="flex-none text-[10px] font-mono font-bold uppercase tracking-wider text-cow">{price(kind)}</span>
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  // Reverse: the CPU's side of the board, shown in place of the keypad. Scored automatically it
+  // plays against the player's code on show; by hand, the player answers each guess with steppers.
+  const CpuPanel = () => {
+    const reverse = game.reverse!;
+    const { codeLength } = rules;
+    const stepperButton = 'w-8 h-8 rounded-full flex items-center justify-center bg-zinc-100 dark:bg-zinc-800 active:scale-90 transition-transform disabled:opacity-30';
+    const stepper = (label: MessageKey, key: 'bulls' | 'cows') => (
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-mono text-zinc-400 uppercase tracking-widest">{t(label)}</span>
+        <div className="flex items-center gap-3">
+          <button className={stepperButton} disabled={answer[key] <= 0} onClick={() => setAnswer({ ...answer, [key]: answer[key] - 1 })}><Minus size={14} /></button>
+          <span className="w-4 text-center font-mono font-bold">{answer[key]}</span>
+          <button className={stepperButton} disabled={answer.bulls + answer.cows >= codeLength} onClick={() => setAnswer({ ...answer, [key]: answer[key] + 1 })}><Plus size={14} /></button>
+        </div>
+      </div>
+    );
+    return (
+      <div className="w-full max-w-[420px] mx-auto px-4 pb-[max(env(safe-area-inset-bottom),0.5rem)]">
+        <div className="text-center text-[10px] font-mono uppercase tracking-widest text-zinc-400 mb-2">
+          {reverse.pending
+            ? t('cpu.guesses')
+            : reverse.manual ? t(BREAKER_LABELS[reverse.strength]) : t('cpu.yourCode', { strength: t(BREAKER_LABELS[reverse.strength]) })}
+        </div>
+        {reverse.pending || !reverse.manual ? (
+          <InputDisplay value={reverse.pending ?? secretCode} status={gameStatus} shake={false} rules={rules} />
+        ) : null}
+        {reverse.pending ? (
+          <div className="space-y-2 pb-2">
+            {stepper('cpu.bulls', 'bulls')}
+            {stepper('cpu.cows', 'cows')}
+            <div className="flex justify-center py-1">
+              <FeedbackDisplay bulls={answer.bulls} cows={answer.cows} length={codeLength} />
+            </div>
+            <button
+              onClick={() => dispatch({ type: 'score', ...answer, at: Date.now() })}
+              className="w-full h-12 bg-accent text-on-accent rounded-xl font-bold flex items-center justify-center gap-2 active:scale-95 transition-transform"
+            >
+              <Check size={18} /> {t('cpu.answer')}
+            </button>
+          </div>
+        ) : (
+          <div className="h-24 flex items-center justify-center gap-2 text-xs font-mono uppercase tracking-widest text-zinc-400">
+            <Loader2 size={14} className="animate-spin" /> {t('cpu.thinking')}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Deduction notepad: one row per code position, one column per symbol; tap a cell to cycle its mark
+  const NotesPanel = () => {
+    const symbols = ALPHABETS[rules.alphabet].symbols;
+    const glyphs: Record<NoteMark, string> = { blank: '', excluded: '✕', possible: '?', confirmed: '●' };
+    const tones: Record<NoteMark, string> = {
+      blank: '',
+      excluded: 'text-danger',
+      possible: 'text-cow',
+      confirmed: 'text-bull',
+    };
+    return (
+      <div className="flex-none mx-5 mt-3 p-3 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-2xl animate-in fade-in slide-in-from-top-2 duration-300">
+        <div dir="ltr" className="grid gap-0.5" style={{ gridTemplateColumns: `1.25rem repeat(${symbols.length}, minmax(0, 1fr))` }}>
+          <span />
+          {symbols.map((symbol) => (
+            <span key={symbol} className="flex justify-center text-[10px] font-mono font-bold text-zinc-400">
+              <CodeSymbol symbol={symbol} alphabet={rules.alphabet} size="sm" />
+            </span>
+          ))}
+          {[...Array(rules.codeLength)].map((_, p) => (
+            <React.Fragment key={p}>
+              <span className="flex items-center text-[10px] font-mono font-bold text-zinc-400">{p + 1}</span>
+              {symbols.map((symbol) => {
+                const mark = notes[symbol][p];
+                // Deduced marks sit in cells the player left blank, and are drawn fainter
+                const deduced = manualNotes[symbol][p] === 'blank' && mark !== 'blank';
+                return (
+                  <button
+                    key={symbol}
+                    onClick={() => toggleNote(symbol, p)}
+                    aria-label={t(deduced ? 'notes.cellDeduced' : 'notes.cell', {
+                      symbol: spellCode(i18n, symbol, rules.alphabet),
+                      position: p + 1,
+                      mark: t(`notes.mark.${mark}`),
+                    })}
+                    className={`h-6 rounded-md bg-zinc-50 dark:bg-zinc-800 text-xs font-bold flex items-center justify-center ${tones[mark]} ${deduced ? 'opacity-50' : ''}`}
+                  >
+                    {glyphs[mark]}
+                  </button>
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </div>
+        <div className="flex items-center justify-between mt-2">
+          <span className="text-[10px] font-mono text-zinc-400 uppercase tracking-widest">{t('notes.legend')}</span>
+          <button
+            onClick={() => setNotesAutoFill(!notesAutoFill)}
+            aria-pressed={notesAutoFill}
+            className={`px-2.5 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider transition-colors ${notesAutoFill
+              ? 'bg-zinc-900 dark:bg-white text-white dark:text-zinc-900'
+              : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500'}`}
+          >
+            {t('notes.autoFill')}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  // Menu panel for picking the game rules
+  const RulesPanel = () => {
+    const stepperButton = 'w-8 h-8 rounded-full flex items-center justify-center bg-zinc-100 dark:bg-zinc-800 active:scale-90 transition-transform disabled:opacity-30';
+    const chip = (active: boolean) => `px-3 h-8 rounded-full text-xs font-bold transition-colors ${active
+      ? 'bg-zinc-900 dark:bg-white text-white dark:text-zinc-900'
+      : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500'}`;
+    const update = (patch: Partial<GameRules>) => setMenuRules(normalizeRules({ ...menuRules, ...patch }));
+    const maxLength = maxCodeLength(menuRules);
+
+    return (
+      <div className="mt-3 p-4 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-3xl space-y-4 animate-in fade-in slide-in-from-top-2 duration-300">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-mono text-zinc-400 uppercase tracking-widest">{t('rules.length')}</span>
+          <div className="flex items-center gap-3">
+            <button className={stepperButton} disabled={menuRules.codeLength <= MIN_CODE_LENGTH} onClick={() => update({ codeLength: menuRules.codeLength - 1 })}><Minus size={14} /></button>
+            <span className="w-4 text-center font-mono font-bold">{menuRules.codeLength}</span>
+            <button className={stepperButton} disabled={menuRules.codeLength >= maxLength} onClick={() => update({ codeLength: menuRules.codeLength + 1 })}><Plus size={14} /></button>
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-mono text-zinc-400 uppercase tracking-widest">{t('rules.symbols')}</span>
+          <div className="flex flex-wrap justify-end gap-1.5">
+            {(Object.keys(ALPHABETS) as Alphabet[]).map((a) => (
+              <button key={a} className={chip(menuRules.alphabet === a)} onClick={() => update({ alphabet: a })}>
+                {t(`alphabet.${a}`)}
               </button>
-            );
-          })}
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-mono text-zinc-400 uppercase tracking-widest">{t('rules.repeats')}</span>
+          <div className="flex gap-1.5">
+            <button className={chip(!menuRules.allowDuplicates)} onClick={() => update({ allowDuplicates: false })}>{t('rules.unique')}</button>
+            <button className={chip(menuRules.allowDuplicates)} onClick={() => update({ allowDuplicates: true })}>{t('rules.allowed')}</button>
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-mono text-zinc-400 uppercase tracking-widest">{t('rules.attempts')}</span>
+          <div className="flex items-center gap-3">
+            <button className={stepperButton} disabled={menuRules.maxAttempts <= MIN_ATTEMPT_LIMIT} onClick={() => update({ maxAttempts: menuRules.maxAttempts - 1 })}><Minus size={14} /></button>
+            <span className="w-4 text-center font-mono font-bold">{menuRules.maxAttempts}</span>
+            <button className={stepperButton} disabled={menuRules.maxAttempts >= MAX_ATTEMPT_LIMIT} onClick={() => update({ maxAttempts: menuRules.maxAttempts + 1 })}><Plus size={14} /></button>
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-mono text-zinc-400 uppercase tracking-widest">{t('rules.advisor')}</span>
+          <div className="flex gap-1.5">
+            <button className={chip(solverStrategy === 'minimax')} onClick={() => setSolverStrategy('minimax')}>{t('breaker.minimax')}</button>
+            <button className={chip(solverStrategy === 'entropy')} onClick={() => setSolverStrategy('entropy')}>{t('breaker.entropy')}</button>
+          </div>
         </div>
       </div>
     );
   };
 
   return (
+    <I18nContext.Provider value={i18n}>
     <div className="fixed inset-0 w-full h-[100dvh] flex flex-col bg-zinc-50 dark:bg-zinc-950 font-sans overflow-hidden text-zinc-900 dark:text-zinc-50 select-none">
       <style>{`
         @keyframes shake {
@@ -269,6 +1206,26 @@ export default function App() {
           75% { transform: translateX(6px); }
         }
         .shake-anim { animation: shake 0.3s cubic-bezier(.36,.07,.19,.97) both; }
+        /* Keyboard focus ring (mouse and touch presses don't show it) */
+        button:focus-visible, input:focus-visible {
+          outline: 2px solid rgb(var(--color-accent));
+          outline-offset: 2px;
+        }
+        /* Reduced motion: no shake or slides; a rejected code is outlined instead */
+        @media (prefers-reduced-motion: reduce) {
+          *, *::before, *::after {
+            animation-duration: 0.01ms !important;
+            animation-iteration-count: 1 !important;
+            transition-duration: 0.01ms !important;
+            scroll-behavior: auto !important;
+          }
+          .shake-anim {
+            animation: none;
+            outline: 2px solid rgb(var(--color-danger));
+            outline-offset: 6px;
+            border-radius: 0.75rem;
+          }
+        }
         
         /* Utility for bottom mask */
         .mask-image-b {
@@ -279,95 +1236,647 @@ export default function App() {
 
       {/* --- Header --- */}
       {/* ADDED: pt-[env(safe-area-inset-top)] and h-auto to handle the iOS Notch Area */}
-      <header className="flex-none h-auto pt-[max(env(safe-area-inset-top),1.5rem)] pb-3 px-5 flex justify-between items-center z-20 border-b border-transparent">
-        <div className="flex items-center gap-2.5 cursor-pointer" onClick={resetGame}>
+      <header className="relative flex-none h-auto pt-[max(env(safe-area-inset-top),1.5rem)] pb-3 px-5 flex justify-between items-center z-20 border-b border-transparent">
+        <button className="flex items-center gap-2.5 rounded-lg" onClick={resetGame} aria-label={t('header.home')}>
           <div className="w-8 h-8 bg-zinc-900 dark:bg-white rounded-lg flex items-center justify-center text-white dark:text-zinc-900 shadow-sm">
             <Brain size={18} strokeWidth={3} />
           </div>
           <span className="font-bold tracking-tighter text-lg leading-none">SMASH<span className="font-light text-zinc-400">CODE</span></span>
-        </div>
+        </button>
+        {game.online && relayStatus === 'reconnecting' && (
+          <span className="flex items-center gap-1.5 px-3 py-1 rounded-full bg-cow/15 text-cow text-[10px] font-bold uppercase tracking-wider">
+            <Loader2 size={12} strokeWidth={3} className="animate-spin" /> {t('header.reconnecting')}
+          </span>
+        )}
         <button 
-          onClick={() => setDarkMode(!darkMode)}
+          onClick={() => setShowSettings(!showSettings)}
+          aria-expanded={showSettings}
+          aria-label={t('settings.open')}
           className="w-9 h-9 rounded-full flex items-center justify-center bg-zinc-200 dark:bg-zinc-800 active:scale-90 transition-transform"
         >
-          {darkMode ? <Sun size={16} /> : <Moon size={16} />}
+          <Palette size={16} />
         </button>
+
+        {/* Theme and language picker */}
+        {showSettings && (
+          <div className="absolute top-full end-5 w-64 p-3 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-2xl shadow-xl space-y-3 animate-in fade-in slide-in-from-top-2 duration-200">
+            {[
+              {
+                label: t('settings.theme'),
+                options: THEMES.map((theme) => ({
+                  id: theme.id,
+                  active: themeId === theme.id,
+                  select: () => setThemeId(theme.id),
+                  // Each palette previews its bull and cow colors
+                  content: (
+                    <>
+                      <span className="w-2.5 h-2.5 rounded-full" style={{ background: `rgb(${theme.colors.bull})` }} />
+                      <span className="w-2.5 h-2.5 rounded-full -ms-1.5" style={{ background: `rgb(${theme.colors.cow})` }} />
+                      {t(`theme.${theme.id}`)}
+                    </>
+                  ),
+                })),
+              },
+              {
+                label: t('settings.language'),
+                options: LOCALES.map((l) => ({
+                  id: l.locale,
+                  active: locale === l.locale,
+                  select: () => setLocale(l.locale),
+                  content: <span lang={l.locale} dir={l.dir}>{l.name}</span>,
+                })),
+              },
+            ].map(({ label, options }) => (
+              <div key={label}>
+                <div className="text-[10px] font-mono uppercase tracking-widest text-zinc-400 mb-1.5">{label}</div>
+                <div className="flex flex-wrap gap-1.5">
+                  {options.map(({ id, active, select, content }) => (
+                    <button
+                      key={id}
+                      onClick={select}
+                      aria-pressed={active}
+                      className={`flex items-center gap-1.5 px-3 h-8 rounded-full text-xs font-bold transition-colors ${active
+                        ? 'bg-zinc-900 dark:bg-white text-white dark:text-zinc-900'
+                        : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500'}`}
+                    >
+                      {content}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </header>
 
+      {/* Screen reader announcements */}
+      <div aria-live="polite" aria-atomic="true" className="sr-only">{announcement}</div>
+
       {/* --- Main Content --- */}
       <main className="flex-1 flex flex-col relative w-full max-w-md mx-auto min-h-0">
         
+        {/* 0. STATISTICS SCREEN */}
+        {screen === 'stats' && (
+          <StatsScreen records={history} onBack={() => setScreen('game')} onRecordsChange={setHistory} />
+        )}
+        {screen === 'leaderboard' && (
+          <LeaderboardScreen records={history} profiles={profileStore.profiles} onBack={() => setScreen('game')} />
+        )}
+        {screen === 'replay' && replay && (
+          // Keyed by the link, so opening another replay starts again from the first guess
+          <React.Fragment key={shareHash(replay)}>
+            <ReplayViewer replay={replay} onBack={() => setScreen('game')} />
+          </React.Fragment>
+        )}
+
         {/* 1. MENU STATE */}
-        {gameStatus === 'menu' && (
-          <div className="flex-1 flex flex-col justify-center px-8 animate-in fade-in zoom-in-95 duration-500 pb-10">
-            <div className="mb-10 space-y-3">
+        {screen === 'game' && gameStatus === 'menu' && (
+          <div className="flex-1 flex flex-col px-8 animate-in fade-in zoom-in-95 duration-500 pb-10 overflow-y-auto no-scrollbar min-h-0">
+            {/* Auto margins center the menu without clipping it once it outgrows the screen */}
+            <div className="mt-auto mb-10 space-y-3">
               <h1 className="text-5xl sm:text-6xl font-black tracking-tighter leading-[0.9]">
-                CRACK<br/>THE<br/><span className="text-transparent bg-clip-text bg-gradient-to-r from-violet-600 to-emerald-500">CIPHER.</span>
+                {t('menu.title.1')}<br/>{t('menu.title.2')}<br/><span className="text-transparent bg-clip-text bg-gradient-to-r rtl:bg-gradient-to-l from-accent to-bull">{t('menu.title.3')}</span>
               </h1>
               <p className="text-zinc-500 font-medium leading-relaxed max-w-[260px] text-sm sm:text-base">
-                Logic & deduction. Find the unique 4-digit sequence.
+                {t('menu.tagline', { rules: describeRulesIn(i18n, menuRules) })}
               </p>
+              <button
+                onClick={() => setShowProfiles(!showProfiles)}
+                aria-expanded={showProfiles}
+                className="flex items-center gap-2 px-3 h-8 rounded-full bg-zinc-100 dark:bg-zinc-900 text-xs font-bold text-zinc-500"
+              >
+                <User size={14} /> {activeProfile?.name ?? t('profile.default')}
+              </button>
+              {/* Profile picker (inline so the name field keeps focus) */}
+              {showProfiles && (
+                <div className="p-3 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-2xl space-y-1.5 animate-in fade-in slide-in-from-top-2 duration-300">
+                  {profileStore.profiles.map((p) => (
+                    <div key={p.id} className="flex items-center gap-2">
+                      <button
+                        onClick={() => setProfileStore(selectProfile(profileStore, p.id))}
+                        aria-pressed={p.id === profileStore.activeId}
+                        className={`flex-1 h-9 px-3 rounded-xl text-start text-sm font-bold truncate ${p.id === profileStore.activeId
+                          ? 'bg-zinc-900 dark:bg-white text-white dark:text-zinc-900'
+                          : 'bg-zinc-100 dark:bg-zinc-800'}`}
+                      >
+                        {p.name}
+                      </button>
+                      {profileStore.profiles.length > 1 && (
+                        <button
+                          onClick={() => window.confirm(t('profile.confirmRemove', { name: p.name })) && setProfileStore(removeProfile(profileStore, p.id))}
+                          aria-label={t('profile.remove', { name: p.name })}
+                          className="w-9 h-9 rounded-xl flex items-center justify-center text-zinc-400 bg-zinc-100 dark:bg-zinc-800"
+                        >
+                          <X size={14} />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  <form
+                    className="flex gap-2 pt-1"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      if (!newProfileName.trim()) return;
+                      setProfileStore(addProfile(profileStore, newProfileName));
+                      setNewProfileName('');
+                    }}
+                  >
+                    <input
+                      value={newProfileName}
+                      maxLength={MAX_NAME_LENGTH}
+                      placeholder={t('profile.new')}
+                      onChange={(e) => setNewProfileName(e.target.value)}
+                      className="flex-1 min-w-0 h-9 px-3 rounded-xl bg-zinc-100 dark:bg-zinc-800 text-sm font-medium outline-none focus:ring-2 focus:ring-accent select-text"
+                    />
+                    <button type="submit" aria-label={t('profile.add')} disabled={!newProfileName.trim()} className="w-9 h-9 rounded-xl flex items-center justify-center bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 disabled:opacity-40">
+                      <Plus size={14} />
+                    </button>
+                  </form>
+                </div>
+              )}
             </div>
 
-            <div className="space-y-3">
+            <div className="mb-auto space-y-3">
+              {savedSession && (
+                <button onClick={continueGame} className="w-full h-16 sm:h-20 bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 rounded-3xl flex items-center px-6 gap-5 shadow-lg transition-all active:scale-98">
+                  <div className="w-10 h-10 rounded-full bg-white/10 dark:bg-zinc-900/10 flex items-center justify-center">
+                    <Play className="w-5 h-5" />
+                  </div>
+                  <div className="text-start">
+                    <div className="font-bold text-lg tracking-tight">{t('menu.continue')}</div>
+                    <div className="text-xs font-mono opacity-60 uppercase tracking-widest">
+                      {t(MODE_LABELS[savedSession.mode])} · {savedSession.status === 'playing'
+                        ? t('play.attempt', { number: savedSession.guesses.length + 1, max: savedSession.rules.maxAttempts })
+                        : t(savedSession.status === 'setup' ? 'menu.creatingKey' : 'menu.handover')}
+                    </div>
+                  </div>
+                </button>
+              )}
+
               <button onClick={() => startGame('solo')} className="w-full h-16 sm:h-20 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-3xl flex items-center px-6 gap-5 shadow-sm hover:border-zinc-300 dark:hover:border-zinc-700 transition-all group active:scale-98">
-                <div className="w-10 h-10 rounded-full bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center group-hover:bg-violet-100 dark:group-hover:bg-violet-900/30 transition-colors">
-                  <User className="w-5 h-5 text-zinc-600 dark:text-zinc-400 group-hover:text-violet-600" />
+                <div className="w-10 h-10 rounded-full bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center group-hover:bg-accent/15 transition-colors">
+                  <User className="w-5 h-5 text-zinc-600 dark:text-zinc-400 group-hover:text-accent" />
+                </div>
+                <div className="text-start">
+                  <div className="font-bold text-lg tracking-tight">{t('menu.solo')}</div>
+                  <div className="text-xs font-mono text-zinc-400 uppercase tracking-widest">{t('menu.solo.sub')}</div>
+                </div>
+              </button>
+
+              <button onClick={() => startGame('evil')} className="w-full h-16 sm:h-20 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-3xl flex items-center px-6 gap-5 shadow-sm hover:border-zinc-300 dark:hover:border-zinc-700 transition-all group active:scale-98">
+                <div className="w-10 h-10 rounded-full bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center group-hover:bg-accent/15 transition-colors">
+                  <Skull className="w-5 h-5 text-zinc-600 dark:text-zinc-400 group-hover:text-accent" />
+                </div>
+                <div className="text-start">
+                  <div className="font-bold text-lg tracking-tight">{t('menu.evil')}</div>
+                  <div className="text-xs font-mono text-zinc-400 uppercase tracking-widest">{t('menu.evil.sub')}</div>
+                </div>
+              </button>
+
+              <button onClick={() => setShowReverseSetup(!showReverseSetup)} className="w-full h-16 sm:h-20 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-3xl flex items-center px-6 gap-5 shadow-sm hover:border-zinc-300 dark:hover:border-zinc-700 transition-all group active:scale-98">
+                <div className="w-10 h-10 rounded-full bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center group-hover:bg-accent/15 transition-colors">
+                  <Cpu className="w-5 h-5 text-zinc-600 dark:text-zinc-400 group-hover:text-accent" />
+                </div>
+                <div className="text-start">
+                  <div className="font-bold text-lg tracking-tight">{t('menu.reverse')}</div>
+                  <div className="text-xs font-mono text-zinc-400 uppercase tracking-widest">{t('menu.reverse.sub')}</div>
+                </div>
+              </button>
+
+              {showReverseSetup && (
+                <div className="p-4 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-3xl space-y-3 animate-in fade-in slide-in-from-top-2 duration-300">
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-mono text-zinc-400 uppercase tracking-widest">{t('reverse.cpu')}</span>
+                    <div className="flex gap-1.5">
+                      {BREAKER_STRENGTHS.map((b) => (
+                        <button
+                          key={b}
+                          onClick={() => setBreaker(b)}
+                          className={`px-3 h-8 rounded-full text-xs font-bold transition-colors ${breaker === b
+                            ? 'bg-zinc-900 dark:bg-white text-white dark:text-zinc-900'
+                            : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500'}`}
+                        >
+                          {t(BREAKER_LABELS[b])}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-mono text-zinc-400 uppercase tracking-widest">{t('reverse.scoring')}</span>
+                    <div className="flex gap-1.5">
+                      {([false, true] as const).map((manual) => (
+                        <button
+                          key={String(manual)}
+                          onClick={() => setManualScoring(manual)}
+                          className={`px-3 h-8 rounded-full text-xs font-bold transition-colors ${manualScoring === manual
+                            ? 'bg-zinc-900 dark:bg-white text-white dark:text-zinc-900'
+                            : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500'}`}
+                        >
+                          {t(manual ? 'reverse.manual' : 'reverse.auto')}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {!canSolve(menuRules) && (
+                    <p className="text-xs text-danger">{t('reverse.tooMany')}</p>
+                  )}
+                  <button
+                    onClick={startReverse}
+                    disabled={!canSolve(menuRules)}
+                    className="w-full h-12 bg-accent text-on-accent rounded-xl font-bold flex items-center justify-center gap-2 active:scale-95 transition-transform disabled:opacity-40"
+                  >
+                    {t(manualScoring ? 'reverse.start' : 'reverse.setCode')} <ArrowRight size={18} className="rtl:-scale-x-100" />
+                  </button>
                 </div>
-                <div className="text-left">
-                  <div className="font-bold text-lg tracking-tight">Solo Run</div>
-                  <div className="text-xs font-mono text-zinc-400 uppercase tracking-widest">Beat the CPU</div>
+              )}
+
+              <button onClick={() => setShowVersusSetup(!showVersusSetup)} className="w-full h-16 sm:h-20 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-3xl flex items-center px-6 gap-5 shadow-sm hover:border-zinc-300 dark:hover:border-zinc-700 transition-all group active:scale-98">
+                <div className="w-10 h-10 rounded-full bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center group-hover:bg-accent/15 transition-colors">
+                  <Users className="w-5 h-5 text-zinc-600 dark:text-zinc-400 group-hover:text-accent" />
+                </div>
+                <div className="text-start">
+                  <div className="font-bold text-lg tracking-tight">{t('menu.versus')}</div>
+                  <div className="text-xs font-mono text-zinc-400 uppercase tracking-widest">{t('menu.versus.sub')}</div>
                 </div>
               </button>
 
-              <button onClick={() => startGame('multiplayer')} className="w-full h-16 sm:h-20 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-3xl flex items-center px-6 gap-5 shadow-sm hover:border-zinc-300 dark:hover:border-zinc-700 transition-all group active:scale-98">
-                <div className="w-10 h-10 rounded-full bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center group-hover:bg-emerald-100 dark:group-hover:bg-emerald-900/30 transition-colors">
-                  <Users className="w-5 h-5 text-zinc-600 dark:text-zinc-400 group-hover:text-emerald-600" />
+              {/* Match options (inline rather than a sub-component, so the inputs keep focus while typing) */}
+              {showVersusSetup && (
+                <div className="p-4 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-3xl space-y-3 animate-in fade-in slide-in-from-top-2 duration-300">
+                  {([0, 1] as const).map((i) => (
+                    <input
+                      key={i}
+                      value={playerNames[i]}
+                      maxLength={MAX_NAME_LENGTH}
+                      placeholder={t('player.default', { number: i + 1 })}
+                      onChange={(e) => setPlayerNames(i === 0 ? [e.target.value, playerNames[1]] : [playerNames[0], e.target.value])}
+                      className="w-full h-11 px-4 rounded-xl bg-zinc-100 dark:bg-zinc-800 font-medium outline-none focus:ring-2 focus:ring-accent select-text"
+                    />
+                  ))}
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-mono text-zinc-400 uppercase tracking-widest">{t('versus.bestOf')}</span>
+                    <div className="flex gap-1.5">
+                      {BEST_OF_OPTIONS.map((n) => (
+                        <button
+                          key={n}
+                          onClick={() => setBestOf(n)}
+                          className={`w-10 h-8 rounded-full text-xs font-bold transition-colors ${bestOf === n
+                            ? 'bg-zinc-900 dark:bg-white text-white dark:text-zinc-900'
+                            : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500'}`}
+                        >
+                          {n}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <button
+                    onClick={startMatch}
+                    className="w-full h-12 bg-accent text-on-accent rounded-xl font-bold flex items-center justify-center gap-2 active:scale-95 transition-transform"
+                  >
+                    {t('versus.start')} <ArrowRight size={18} className="rtl:-scale-x-100" />
+                  </button>
+                </div>
+              )}
+
+              <button onClick={() => setShowOnlineSetup(!showOnlineSetup)} className="w-full h-16 sm:h-20 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-3xl flex items-center px-6 gap-5 shadow-sm hover:border-zinc-300 dark:hover:border-zinc-700 transition-all group active:scale-98">
+                <div className="w-10 h-10 rounded-full bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center group-hover:bg-accent/15 transition-colors">
+                  <Globe className="w-5 h-5 text-zinc-600 dark:text-zinc-400 group-hover:text-accent" />
+                </div>
+                <div className="text-start">
+                  <div className="font-bold text-lg tracking-tight">{t('menu.online')}</div>
+                  <div className="text-xs font-mono text-zinc-400 uppercase tracking-widest">{t(offline ? 'menu.online.offline' : 'menu.online.sub')}</div>
+                </div>
+              </button>
+
+              {/* Online lobby (inline for the same reason as the match options) */}
+              {showOnlineSetup && (
+                <div className="p-4 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-3xl space-y-3 animate-in fade-in slide-in-from-top-2 duration-300">
+                  {relayRoom ? (
+                    <div className="flex flex-col items-center gap-2 py-2 text-center">
+                      <span className="text-[10px] font-mono text-zinc-400 uppercase tracking-widest">{t('online.roomCode')}</span>
+                      <span className="text-3xl font-mono font-black tracking-[0.3em]">{relayRoom}</span>
+                      <span className="flex items-center gap-2 text-xs text-zinc-500">
+                        <Loader2 size={14} className="animate-spin" />
+                        {t(relayStatus === 'reconnecting' ? 'online.reconnecting' : 'online.waiting')}
+                      </span>
+                      <button onClick={leaveRelay} className="text-xs font-mono uppercase tracking-widest text-zinc-400">{t('common.cancel')}</button>
+                    </div>
+                  ) : (
+                    <>
+                      <input
+                        value={playerNames[0]}
+                        maxLength={MAX_NAME_LENGTH}
+                        placeholder={t('online.yourName')}
+                        onChange={(e) => setPlayerNames([e.target.value, playerNames[1]])}
+                        className="w-full h-11 px-4 rounded-xl bg-zinc-100 dark:bg-zinc-800 font-medium outline-none focus:ring-2 focus:ring-accent select-text"
+                      />
+                      <button
+                        onClick={() => connectOnline({ type: 'create', name: playerName(0), rules: menuRules })}
+                        disabled={offline || relayStatus === 'connecting'}
+                        className="w-full h-12 bg-accent text-on-accent rounded-xl font-bold flex items-center justify-center gap-2 active:scale-95 transition-transform disabled:opacity-50"
+                      >
+                        {t('online.create')}
+                      </button>
+                      <div className="flex gap-2">
+                        <input
+                          value={joinCode}
+                          maxLength={ROOM_CODE_LENGTH}
+                          placeholder={t('online.codePlaceholder')}
+                          onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                          className="flex-1 min-w-0 h-11 px-4 rounded-xl bg-zinc-100 dark:bg-zinc-800 font-mono font-bold tracking-[0.3em] uppercase outline-none focus:ring-2 focus:ring-accent select-text"
+                        />
+                        <button
+                          onClick={() => connectOnline({ type: 'join', room: joinCode, name: playerNames[0].trim() || t('player.default', { number: 2 }) })}
+                          disabled={offline || joinCode.length !== ROOM_CODE_LENGTH || relayStatus === 'connecting'}
+                          className="px-5 h-11 rounded-xl bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 font-bold active:scale-95 transition-transform disabled:opacity-40"
+                        >
+                          {t('online.join')}
+                        </button>
+                      </div>
+                    </>
+                  )}
+                  {relayError && <p className="text-xs text-danger text-center">{relayError}</p>}
+                </div>
+              )}
+
+              <button onClick={() => setShowChallengeSetup(!showChallengeSetup)} className="w-full h-16 sm:h-20 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-3xl flex items-center px-6 gap-5 shadow-sm hover:border-zinc-300 dark:hover:border-zinc-700 transition-all group active:scale-98">
+                <div className="w-10 h-10 rounded-full bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center group-hover:bg-accent/15 transition-colors">
+                  <Send className="w-5 h-5 text-zinc-600 dark:text-zinc-400 group-hover:text-accent" />
                 </div>
-                <div className="text-left">
-                  <div className="font-bold text-lg tracking-tight">Versus</div>
-                  <div className="text-xs font-mono text-zinc-400 uppercase tracking-widest">Challenge a Friend</div>
+                <div className="text-start">
+                  <div className="font-bold text-lg tracking-tight">{t('menu.challenge')}</div>
+                  <div className="text-xs font-mono text-zinc-400 uppercase tracking-widest">{t('menu.challenge.sub')}</div>
                 </div>
               </button>
+
+              {/* Remote challenge: set a code to send, or check a result that came back */}
+              {showChallengeSetup && (
+                <div className="p-4 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-3xl space-y-3 animate-in fade-in slide-in-from-top-2 duration-300">
+                  <button
+                    onClick={() => dispatch({ type: 'start', mode: 'challenge', rules: menuRules, at: Date.now() })}
+                    className="w-full h-12 bg-accent text-on-accent rounded-xl font-bold flex items-center justify-center gap-2 active:scale-95 transition-transform"
+                  >
+                    {t('challenge.set')} <ArrowRight size={18} className="rtl:-scale-x-100" />
+                  </button>
+                  <form
+                    className="flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      checkChallengeResult();
+                    }}
+                  >
+                    <input
+                      value={resultInput}
+                      placeholder={t('challenge.paste')}
+                      onChange={(e) => setResultInput(e.target.value)}
+                      className="flex-1 min-w-0 h-11 px-4 rounded-xl bg-zinc-100 dark:bg-zinc-800 font-mono text-sm outline-none focus:ring-2 focus:ring-accent select-text"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!resultInput.trim()}
+                      className="px-5 h-11 rounded-xl bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 font-bold active:scale-95 transition-transform disabled:opacity-40"
+                    >
+                      {t('challenge.check')}
+                    </button>
+                  </form>
+                  {challengeError && <p className="text-xs text-danger text-center">{challengeError}</p>}
+                  {challengeReport && (
+                    <div className="space-y-2">
+                      <p className="text-sm font-bold text-center">
+                        {challengeReport.report.cracked
+                          ? t('challenge.cracked', { count: challengeReport.report.guesses.length, max: challengeReport.challenge.rules.maxAttempts })
+                          : t('challenge.held', { count: challengeReport.report.guesses.length })}
+                        <span className="font-normal text-zinc-400"> · {Math.round(challengeReport.report.durationMs / 1000)}s</span>
+                      </p>
+                      {challengeReport.report.guesses.map((g, idx) => (
+                        <div key={idx} className="flex items-center justify-between px-3 py-1.5 rounded-xl bg-zinc-50 dark:bg-zinc-800/50">
+                          <span dir="ltr" className="flex gap-2 font-mono font-bold tracking-widest">
+                            {g.code.split('').map((char, i) => (
+                              <span key={i} className="flex"><CodeSymbol symbol={char} alphabet={challengeReport.challenge.rules.alphabet} size="sm" /></span>
+                            ))}
+                          </span>
+                          <FeedbackDisplay bulls={g.bulls} cows={g.cows} length={challengeReport.challenge.rules.codeLength} />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <button onClick={() => setShowBlitzSetup(!showBlitzSetup)} className="w-full h-16 sm:h-20 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-3xl flex items-center px-6 gap-5 shadow-sm hover:border-zinc-300 dark:hover:border-zinc-700 transition-all group active:scale-98">
+                <div className="w-10 h-10 rounded-full bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center group-hover:bg-accent/15 transition-colors">
+                  <Zap className="w-5 h-5 text-zinc-600 dark:text-zinc-400 group-hover:text-accent" />
+                </div>
+                <div className="text-start">
+                  <div className="font-bold text-lg tracking-tight">{t('menu.blitz')}</div>
+                  <div className="text-xs font-mono text-zinc-400 uppercase tracking-widest">{t('menu.blitz.sub')}</div>
+                </div>
+              </button>
+
+              {showBlitzSetup && (
+                <div className="p-4 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-3xl space-y-3 animate-in fade-in slide-in-from-top-2 duration-300">
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-mono text-zinc-400 uppercase tracking-widest">{t('blitz.clock')}</span>
+                    <div className="flex gap-1.5">
+                      {(['game', 'guess'] as const).map((timer) => (
+                        <button
+                          key={timer}
+                          onClick={() => setBlitzTimer(timer)}
+                          className={`px-3 h-8 rounded-full text-xs font-bold transition-colors ${blitzTimer === timer
+                            ? 'bg-zinc-900 dark:bg-white text-white dark:text-zinc-900'
+                            : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500'}`}
+                        >
+                          {t(`blitz.${timer}`, { time: formatClock(BLITZ_LIMITS[timer]) })}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => startTimed('blitz')}
+                    className="w-full h-12 bg-accent text-on-accent rounded-xl font-bold flex items-center justify-center gap-2 active:scale-95 transition-transform"
+                  >
+                    {t('blitz.start')} <ArrowRight size={18} className="rtl:-scale-x-100" />
+                  </button>
+                </div>
+              )}
+
+              <button onClick={() => startTimed('marathon')} className="w-full h-16 sm:h-20 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-3xl flex items-center px-6 gap-5 shadow-sm hover:border-zinc-300 dark:hover:border-zinc-700 transition-all group active:scale-98">
+                <div className="w-10 h-10 rounded-full bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center group-hover:bg-accent/15 transition-colors">
+                  <Timer className="w-5 h-5 text-zinc-600 dark:text-zinc-400 group-hover:text-accent" />
+                </div>
+                <div className="text-start">
+                  <div className="font-bold text-lg tracking-tight">{t('menu.marathon')}</div>
+                  <div className="text-xs font-mono text-zinc-400 uppercase tracking-widest">{t('menu.marathon.sub', { time: formatClock(MARATHON_MS) })}</div>
+                </div>
+              </button>
+
+              <button onClick={startDaily} className="w-full h-16 sm:h-20 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-3xl flex items-center px-6 gap-5 shadow-sm hover:border-zinc-300 dark:hover:border-zinc-700 transition-all group active:scale-98">
+                <div className="w-10 h-10 rounded-full bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center group-hover:bg-accent/15 transition-colors">
+                  <CalendarDays className="w-5 h-5 text-zinc-600 dark:text-zinc-400 group-hover:text-accent" />
+                </div>
+                <div className="text-start">
+                  <div className="font-bold text-lg tracking-tight">{t('menu.daily')}</div>
+                  <div className="text-xs font-mono text-zinc-400 uppercase tracking-widest">
+                    #{dailyNumber(todayKey)} · {todaysDaily?.status === 'won'
+                      ? t('menu.daily.solved', { count: todaysDaily.guesses.length })
+                      : t(todaysDaily?.status === 'lost'
+                        ? 'menu.daily.failed'
+                        : todaysDaily
+                          ? 'menu.daily.inProgress'
+                          : 'menu.daily.today')}
+                  </div>
+                </div>
+              </button>
+
+              <div className="grid grid-cols-2 gap-3">
+                <button onClick={() => setScreen('stats')} className="h-16 sm:h-20 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-3xl flex items-center px-4 gap-3 shadow-sm hover:border-zinc-300 dark:hover:border-zinc-700 transition-all group active:scale-98">
+                  <div className="flex-none w-10 h-10 rounded-full bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center group-hover:bg-accent/15 transition-colors">
+                    <BarChart3 className="w-5 h-5 text-zinc-600 dark:text-zinc-400 group-hover:text-accent" />
+                  </div>
+                  <div className="text-start min-w-0">
+                    <div className="font-bold tracking-tight truncate">{t('menu.stats')}</div>
+                    <div className="text-[10px] font-mono text-zinc-400 uppercase tracking-widest truncate">{t('menu.stats.sub', { count: history.length })}</div>
+                  </div>
+                </button>
+                <button onClick={() => setScreen('leaderboard')} className="h-16 sm:h-20 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-3xl flex items-center px-4 gap-3 shadow-sm hover:border-zinc-300 dark:hover:border-zinc-700 transition-all group active:scale-98">
+                  <div className="flex-none w-10 h-10 rounded-full bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center group-hover:bg-accent/15 transition-colors">
+                    <Medal className="w-5 h-5 text-zinc-600 dark:text-zinc-400 group-hover:text-accent" />
+                  </div>
+                  <div className="text-start min-w-0">
+                    <div className="font-bold tracking-tight truncate">{t('menu.leaderboard')}</div>
+                    <div className="text-[10px] font-mono text-zinc-400 uppercase tracking-widest truncate">{t('menu.leaderboard.sub')}</div>
+                  </div>
+                </button>
+              </div>
+
+              <button
+                onClick={() => setShowRules(!showRules)}
+                className="w-full flex items-center justify-center gap-2 pt-2 text-xs font-mono text-zinc-400 uppercase tracking-widest hover:text-zinc-600 dark:hover:text-zinc-300 transition-colors"
+              >
+                <SlidersHorizontal size={14} />
+                {t('rules.summary', {
+                  length: menuRules.codeLength,
+                  alphabet: t(`alphabet.${menuRules.alphabet}`),
+                  repeats: t(menuRules.allowDuplicates ? 'rules.repeats' : 'rules.unique'),
+                  tries: t('rules.tries', { count: menuRules.maxAttempts }),
+                })}
+              </button>
+              {showRules && RulesPanel()}
             </div>
           </div>
         )}
 
-        {/* 2. SETUP STATE (Multiplayer P1) */}
+        {/* 2. SETUP STATE (Versus: each player sets a code) */}
         {gameStatus === 'setup' && (
           <div className="flex-1 flex flex-col animate-in slide-in-from-bottom-8 duration-500">
             {/* Upper Setup Area */}
             <div className="flex-1 flex flex-col justify-center items-center p-6 text-center">
-              <div className="bg-violet-100 dark:bg-violet-900/20 text-violet-600 dark:text-violet-400 px-3 py-1 rounded-full text-[10px] font-bold tracking-widest uppercase mb-4">
-                Player 1
+              <div className="bg-accent/15 text-accent px-3 py-1 rounded-full text-[10px] font-bold tracking-widest uppercase mb-4">
+                {game.mode === 'challenge' ? t('menu.challenge') : game.reverse ? t('setup.yourCode') : currentPlayer?.name ?? t('player.default', { number: 1 })}
               </div>
-              <h2 className="text-2xl font-bold tracking-tight mb-1">Create Key</h2>
-              <p className="text-zinc-500 mb-8 text-xs">Enter 4 unique digits.</p>
-              <InputDisplay value={currentInput} status={gameStatus} shake={shakeInput} />
+              <h2 className="text-2xl font-bold tracking-tight mb-1">{t('setup.title')}</h2>
+              <p className="text-zinc-500 mb-8 text-xs">
+                {t(rules.allowDuplicates ? 'setup.enter.repeats' : 'setup.enter.unique', {
+                  count: rules.codeLength,
+                  units: t(`unit.${rules.alphabet}`, { count: rules.codeLength }),
+                })}
+              </p>
+              <InputDisplay value={currentInput} status={gameStatus} shake={shakeInput} rules={rules} />
             </div>
             
             {/* Keypad Container */}
             <div className="flex-none bg-zinc-100/50 dark:bg-zinc-900/50 backdrop-blur-xl rounded-t-3xl pt-3">
-              <Keypad />
+              {Keypad()}
+            </div>
+          </div>
+        )}
+
+        {/* 3a. WAITING STATE (Online: the opponent is setting a code or guessing) */}
+        {gameStatus === 'handover' && game.online && match && (
+          <div className="flex-1 flex flex-col animate-in fade-in duration-300">
+            <MatchScoreboard match={match} />
+            <div className="flex-1 flex flex-col justify-center items-center p-8 text-center">
+              <div className="w-16 h-16 bg-zinc-100 dark:bg-zinc-800 rounded-full flex items-center justify-center mb-6 shadow-inner">
+                <Loader2 className="w-7 h-7 text-zinc-400 animate-spin" />
+              </div>
+              <h2 className="text-2xl font-bold tracking-tight mb-2">{match.players[opponentOf(game.online.me)].name}</h2>
+              <p className="text-zinc-500 mb-8 max-w-[240px] text-sm">
+                {t(game.online.opponentReady ? 'waiting.guessing' : 'waiting.setting')}
+              </p>
+              <KeySeals match={match} />
+            </div>
+          </div>
+        )}
+
+        {/* 3b. DISCONNECTED STATE (Online opponent dropped out) */}
+        {gameStatus === 'disconnected' && game.online && match && (
+          <div className="flex-1 flex flex-col justify-center items-center p-8 text-center animate-in zoom-in-95 duration-300">
+            <div className="w-16 h-16 bg-danger/15 rounded-full flex items-center justify-center mb-6">
+              <WifiOff className="w-7 h-7 text-danger" />
             </div>
+            <h2 className="text-2xl font-bold tracking-tight mb-2">
+              {t(game.online.opponentLeft ? 'disconnected.left' : 'disconnected.lost')}
+            </h2>
+            <p className="text-zinc-500 mb-8 max-w-[240px] text-sm">
+              {t(game.online.opponentLeft ? 'disconnected.leftText' : 'disconnected.waiting', { name: match.players[opponentOf(game.online.me)].name })}
+            </p>
+            <button 
+              onClick={resetGame}
+              className="w-full max-w-[200px] h-12 bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 rounded-xl font-bold text-base shadow-lg hover:scale-105 active:scale-95 transition-all"
+            >
+              {t('disconnected.leave')}
+            </button>
+          </div>
+        )}
+
+        {/* 3c. SHARE STATE (Remote challenge: the code leaves as a link instead of a handover) */}
+        {gameStatus === 'handover' && game.mode === 'challenge' && (
+          <div className="flex-1 flex flex-col justify-center items-center p-8 text-center animate-in zoom-in-95 duration-300">
+            {challengeLink ? (
+              <QrCode text={challengeLink} label={t('share.qr')} />
+            ) : (
+              <div className="w-48 h-48 flex items-center justify-center">
+                <Loader2 className="w-7 h-7 text-zinc-400 animate-spin" />
+              </div>
+            )}
+            <h2 className="mt-6 text-2xl font-bold tracking-tight mb-2">{t('share.title')}</h2>
+            <p className="text-zinc-500 mb-8 max-w-[260px] text-sm">
+              {t('share.text')}
+            </p>
+            {challengeError && <p className="-mt-4 mb-6 max-w-[260px] text-xs text-danger">{challengeError}</p>}
+            <button
+              onClick={() => challengeLink && copyText(challengeLink, 'duel')}
+              disabled={!challengeLink}
+              className="w-full max-w-[200px] h-12 mb-3 bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 rounded-xl font-bold text-base shadow-lg flex items-center justify-center gap-2 hover:scale-105 active:scale-95 transition-all disabled:opacity-40"
+            >
+              {linkCopied === 'duel' ? <Check size={18} /> : <Share2 size={18} />} {t(linkCopied === 'duel' ? 'common.copied' : 'share.copyLink')}
+            </button>
+            <button onClick={finishChallenge} className="text-xs font-mono uppercase tracking-widest text-zinc-400">{t('common.done')}</button>
           </div>
         )}
 
         {/* 3. HANDOVER STATE */}
-        {gameStatus === 'handover' && (
+        {gameStatus === 'handover' && !game.online && game.mode !== 'challenge' && (
           <div className="flex-1 flex flex-col justify-center items-center p-8 text-center animate-in zoom-in-95 duration-300">
             <div className="w-16 h-16 bg-zinc-100 dark:bg-zinc-800 rounded-full flex items-center justify-center mb-6 shadow-inner">
               <Lock className="w-7 h-7 text-zinc-400" />
             </div>
-            <h2 className="text-2xl font-bold tracking-tight mb-2">Device Handover</h2>
+            <h2 className="text-2xl font-bold tracking-tight mb-2">{t('handover.title')}</h2>
             <p className="text-zinc-500 mb-8 max-w-[240px] text-sm">
-              Pass device to <strong>Player 2</strong>.<br/>Keep the code secret.
+              {i18n.parts('handover.pass', { name: <strong key="name">{currentPlayer?.name ?? t('player.default', { number: 2 })}</strong> })}
+              <br/>{t('handover.secret')}
             </p>
+            {lastChance && match && (
+              <p className="-mt-4 mb-8 max-w-[260px] text-sm font-bold text-cow">
+                {t('handover.lastChance', { name: match.players[opponentOf(match.turn)].name })}
+              </p>
+            )}
+            {match && <KeySeals match={match} />}
             <button 
-              onClick={() => setGameStatus('playing')}
+              onClick={() => dispatch({ type: 'takeOver', at: Date.now() })}
               className="w-full max-w-[200px] h-12 bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 rounded-xl font-bold text-base shadow-lg hover:scale-105 active:scale-95 transition-all"
             >
-              Start Guessing
+              {t(currentPlayer && !currentPlayer.secret ? 'setup.title' : 'handover.start')}
             </button>
           </div>
         )}
@@ -375,6 +1884,10 @@ export default function App() {
         {/* 4. PLAYING STATE */}
         {(gameStatus === 'playing' || gameStatus === 'won' || gameStatus === 'lost') && (
           <>
+            {match && <MatchScoreboard match={match} />}
+
+            {showNotes && gameStatus === 'playing' && !game.reverse && NotesPanel()}
+
             {/* History List (Scrollable, takes remaining space) */}
             <div 
               ref={historyRef}
@@ -383,46 +1896,82 @@ export default function App() {
                {guesses.length === 0 && (
                  <div className="m-auto text-center opacity-40">
                     <ShieldCheck className="w-10 h-10 mx-auto mb-2 text-zinc-300 dark:text-zinc-700" />
-                    <p className="font-mono text-[10px] tracking-widest uppercase">System Secure</p>
+                    <p className="font-mono text-[10px] tracking-widest uppercase">{t('play.empty')}</p>
                  </div>
                )}
                
                {/* Spacer to allow scrolling to bottom */}
                <div className="flex-1 min-h-[10px]" />
 
+               {pickingGuess && (
+                 <div className="flex items-center justify-between text-[10px] font-mono uppercase tracking-widest text-cow">
+                   <span>{t('play.pickGuess')}</span>
+                   <button onClick={() => setPickingGuess(false)} className="font-bold">{t('common.cancel')}</button>
+                 </div>
+               )}
+
                {guesses.map((g, idx) => (
-                 <div key={idx} className="flex items-center justify-between py-2 border-b border-zinc-100 dark:border-zinc-800 animate-in slide-in-from-bottom-2 fade-in duration-300">
+                 <div
+                   key={idx}
+                   // While picking a guess for a 'color' hint, the uncolored rows act as buttons
+                   {...(pickingGuess && !g.isRevealed ? {
+                     role: 'button',
+                     tabIndex: 0,
+                     'aria-label': t('play.colorGuess', { number: idx + 1 }),
+                     onClick: () => colorGuess(idx),
+                     onKeyDown: (e: React.KeyboardEvent) => { if (e.key === 'Enter' || e.key === ' ') colorGuess(idx); },
+                   } : {})}
+                   className={`flex items-center justify-between py-2 border-b border-zinc-100 dark:border-zinc-800 animate-in slide-in-from-bottom-2 fade-in duration-300
+                     ${pickingGuess && !g.isRevealed ? 'cursor-pointer rounded-lg bg-cow/10 px-2 -mx-2' : ''}`}
+                 >
                     <div className="flex items-center gap-3">
                       <span className="text-[10px] font-mono text-zinc-300 dark:text-zinc-600 font-bold w-4">
                         {(idx + 1).toString().padStart(2, '0')}
                       </span>
+                      {hints.clues.some((c) => c.kind === 'narrow' && c.code === g.code) && (
+                        <Lightbulb size={12} strokeWidth={3} aria-label={t('play.byHint')} className="text-cow -ms-2" />
+                      )}
                       {/* --- DIGIT RENDERING LOGIC --- */}
-                      <div className="flex gap-2">
-                        {g.code.split('').map((digit, dIdx) => {
+                      <div dir="ltr" className={`flex items-center ${rules.codeLength > 5 ? 'gap-1' : 'gap-2'}`}>
+                        {g.code.split('').map((digit, dIdx, code) => {
                           let colorClass = "text-zinc-700 dark:text-zinc-300"; // Default
-                          
-                          if (g.isRevealed) {
-                            if (digit === secretCode[dIdx]) {
-                              // Bull (Exact)
-                              colorClass = "text-emerald-500 font-black drop-shadow-[0_0_8px_rgba(16,185,129,0.5)]";
-                            } else if (secretCode.includes(digit)) {
-                              // Cow (Wrong pos)
-                              colorClass = "text-amber-400 font-black drop-shadow-[0_0_8px_rgba(251,191,36,0.5)]";
+                          const mark = g.isRevealed ? classifySymbols(secretCode, code.join(''))[dIdx] : null;
+
+                          if (mark) {
+                            if (rules.alphabet === 'colors') {
+                              // Swatches can't change text color, so mark them with a ring instead (dashed for cows)
+                              colorClass = mark === 'bull'
+                                ? "ring-2 ring-offset-2 ring-bull ring-offset-white dark:ring-offset-zinc-950 rounded-full"
+                                : mark === 'cow'
+                                  ? "outline-dashed outline-2 outline-offset-2 outline-cow rounded-full"
+                                  : "opacity-30";
+                            } else if (mark === 'bull') {
+                              // Bull (Exact): solid underline as well as the color
+                              colorClass = "text-bull font-black underline decoration-2 underline-offset-4 drop-shadow-[0_0_8px_rgb(var(--color-bull)/0.5)]";
+                            } else if (mark === 'cow') {
+                              // Cow (Wrong pos): dotted underline
+                              colorClass = "text-cow font-black underline decoration-dotted decoration-2 underline-offset-4 drop-shadow-[0_0_8px_rgb(var(--color-cow)/0.5)]";
                             } else {
-                              // Miss
-                              colorClass = "text-zinc-300 dark:text-zinc-700 opacity-30";
+                              // Miss: struck through
+                              colorClass = "text-zinc-300 dark:text-zinc-700 opacity-30 line-through";
                             }
                           }
 
                           return (
-                            <span key={dIdx} className={`font-mono text-lg font-bold tracking-widest transition-colors duration-500 ${colorClass}`}>
-                              {digit}
+                            <span key={dIdx} className={`flex font-mono text-lg font-bold tracking-widest transition-colors duration-500 ${colorClass}`}>
+                              <CodeSymbol symbol={digit} alphabet={rules.alphabet} size="sm" />
+                              {mark && <span className="sr-only">{` (${t(`feedback.${mark}`)})`}</span>}
                             </span>
                           );
                         })}
                       </div>
                     </div>
-                    <FeedbackDisplay bulls={g.bulls} cows={g.cows} />
+                    <div className="flex items-center gap-3">
+                      {candidatesLeft && (
+                        <span className="text-[10px] font-mono text-zinc-400 tabular-nums">{t('common.left', { count: candidatesLeft[idx] })}</span>
+                      )}
+                      <FeedbackDisplay bulls={g.bulls} cows={g.cows} length={rules.codeLength} />
+                    </div>
                  </div>
                ))}
             </div>
@@ -432,30 +1981,111 @@ export default function App() {
               {!(gameStatus === 'won' || gameStatus === 'lost') ? (
                 <>
                   <div className="flex justify-between px-8 mb-1 items-end h-8">
-                    <span className="text-[10px] font-bold text-zinc-300 uppercase tracking-widest">Attempt {guesses.length + 1}/{MAX_ATTEMPTS}</span>
+                    <span className="text-[10px] font-bold text-zinc-300 uppercase tracking-widest">
+                      {[
+                        gameDailyKey && t('play.daily', { number: dailyNumber(gameDailyKey) }),
+                        t(game.reverse ? 'play.cpuAttempt' : 'play.attempt', { number: guesses.length + 1, max: rules.maxAttempts }),
+                        marathon && t('play.cracked', { count: marathon.solved }),
+                        game.reverse && t('play.candidates', { count: game.reverse.remaining[guesses.length - 1] ?? codeSpaceSize(rules) }),
+                      ].filter(Boolean).join(' · ')}
+                    </span>
+                    {clock && (
+                      <span
+                        role="timer"
+                        aria-label={t('play.timeLeft', { time: formatClock(timeLeft(clock, now)) })}
+                        className={`flex items-center gap-1 text-xs font-mono font-bold tabular-nums ${timeLeft(clock, now) <= 10_000 ? 'text-danger' : 'text-zinc-400'}`}
+                      >
+                        <Timer size={12} strokeWidth={3} /> {formatClock(timeLeft(clock, now))}
+                      </span>
+                    )}
                     
-                    {/* HINT BUTTON */}
-                    {guesses.length > 0 && (
-                      <button 
-                        onClick={useHint} 
-                        disabled={!hintAvailable}
-                        className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider transition-all
-                          ${hintAvailable 
-                            ? 'bg-amber-100 text-amber-600 dark:bg-amber-900/30 dark:text-amber-400 hover:scale-105 active:scale-95' 
-                            : 'bg-zinc-100 text-zinc-300 dark:bg-zinc-800 dark:text-zinc-600 cursor-not-allowed'}`}
+                    <div className="flex items-center gap-1.5">
+                      {/* ADVISOR BUTTONS */}
+                      {solverView && (
+                        <>
+                          <button
+                            onClick={suggestNextGuess}
+                            disabled={autoSolving}
+                            className="flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider transition-all bg-accent/15 text-accent hover:scale-105 active:scale-95 disabled:opacity-40"
+                          >
+                            <Sparkles size={12} strokeWidth={3} /> {t('play.suggest')}
+                          </button>
+                          <button
+                            onClick={() => setAutoSolving(!autoSolving)}
+                            className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider transition-all hover:scale-105 active:scale-95
+                              ${autoSolving
+                                ? 'bg-accent text-on-accent'
+                                : 'bg-zinc-100 text-zinc-500 dark:bg-zinc-800 dark:text-zinc-400'}`}
+                          >
+                            <Bot size={12} strokeWidth={3} /> {t(autoSolving ? 'play.stop' : 'play.auto')}
+                          </button>
+                        </>
+                      )}
+
+                      {/* Online: my guess is out with the opponent for scoring */}
+                      {game.online?.pendingGuess && (
+                        <span className="flex items-center gap-1.5 px-3 py-1 text-[10px] font-bold uppercase tracking-wider text-zinc-400">
+                          <Loader2 size={12} strokeWidth={3} className="animate-spin" /> {t('play.scoring')}
+                        </span>
+                      )}
+
+                      {/* NOTEPAD TOGGLE */}
+                      {!game.reverse && (
+                      <button
+                        onClick={() => setShowNotes(!showNotes)}
+                        aria-pressed={showNotes}
+                        aria-label={t('play.notes')}
+                        title={t('play.notes')}
+                        className={`flex items-center gap-1.5 px-2 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider transition-all hover:scale-105 active:scale-95
+                          ${showNotes
+                            ? 'bg-zinc-900 text-white dark:bg-white dark:text-zinc-900'
+                            : 'bg-zinc-100 text-zinc-500 dark:bg-zinc-800 dark:text-zinc-400'}`}
                       >
-                        <Lightbulb size={12} strokeWidth={3} className={hintAvailable ? "fill-amber-500 text-amber-500" : ""} />
-                        {hintAvailable ? "Hint (1)" : "Used"}
+                        <NotebookPen size={12} strokeWidth={3} />
                       </button>
-                    )}
+                      )}
+
+                      {/* HINT BUTTON (the online opponent holds the code, so no hints there; in reverse the CPU guesses) */}
+                      {!game.online && !game.reverse && (
+                        <button 
+                          onClick={() => setShowHints(!showHints)}
+                          aria-expanded={showHints}
+                          className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider transition-all hover:scale-105 active:scale-95
+                            ${pointsLeft(hints) > 0 || canSolve(rules)
+                              ? 'bg-cow/15 text-cow' 
+                              : 'bg-zinc-100 text-zinc-300 dark:bg-zinc-800 dark:text-zinc-600'}`}
+                        >
+                          <Lightbulb size={12} strokeWidth={3} className={pointsLeft(hints) > 0 ? "fill-cow text-cow" : ""} />
+                          {t('play.hint', { count: pointsLeft(hints) })}
+                        </button>
+                      )}
+                    </div>
                   </div>
-                  <InputDisplay value={currentInput} status={gameStatus} shake={shakeInput} />
-                  <Keypad />
+
+                  {/* Clues from hints that aren't shown on a guess row */}
+                  {hints.clues.some((c) => c.kind === 'position' || c.kind === 'absent') && (
+                    <div className="flex flex-wrap justify-center gap-1.5 px-6 mb-2">
+                      {hints.clues.map((c, i) => (c.kind === 'position' || c.kind === 'absent') && (
+                        <span key={i} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-cow/15 text-cow text-[10px] font-mono font-bold uppercase tracking-wider">
+                          {i18n.parts(c.kind === 'position' ? 'play.clue.position' : 'play.clue.absent', {
+                            number: c.kind === 'position' ? c.position + 1 : 0,
+                            symbol: <span key="symbol" className="flex"><CodeSymbol symbol={c.symbol} alphabet={rules.alphabet} size="sm" /></span>,
+                          })}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {game.reverse ? CpuPanel() : (
+                    <>
+                      <InputDisplay value={currentInput} status={gameStatus} shake={shakeInput} rules={rules} />
+                      {showHints ? HintMenu() : Keypad()}
+                    </>
+                  )}
                 </>
               ) : (
                 <div className="h-[280px] flex items-center justify-center pb-10">
                    <button onClick={resetGame} className="px-8 py-4 bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 rounded-2xl font-bold shadow-lg active:scale-95 transition-transform flex items-center gap-2">
-                     <RotateCcw size={20} /> Play Again
+                     <RotateCcw size={20} /> {t('play.again')}
                    </button>
                 </div>
               )}
@@ -469,40 +2099,152 @@ export default function App() {
         <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-zinc-50/90 dark:bg-zinc-950/95 backdrop-blur-xl animate-in fade-in duration-300">
           <div className="transform scale-100 animate-in zoom-in-95 duration-300 flex flex-col items-center text-center p-6">
             
-            <div className={`mb-5 p-4 rounded-full ${gameStatus === 'won' ? 'bg-emerald-100 text-emerald-600 dark:bg-emerald-900/30 dark:text-emerald-400' : 'bg-rose-100 text-rose-600 dark:bg-rose-900/30 dark:text-rose-400'}`}>
+            <div className={`mb-5 p-4 rounded-full ${gameStatus === 'won' ? 'bg-bull/15 text-bull' : 'bg-danger/15 text-danger'}`}>
               {gameStatus === 'won' ? <Trophy size={40} strokeWidth={1.5} /> : <Delete size={40} strokeWidth={1.5} />}
             </div>
 
-            <h2 className="text-3xl font-black tracking-tighter mb-2">
-              {gameStatus === 'won' ? 'UNLOCKED' : 'FAILED'}
+            <h2 className="text-3xl font-black tracking-tighter mb-2 max-w-[320px] truncate">
+              {resultTitle}
             </h2>
+
+            {gameScore && (
+              <div className="mb-2 flex flex-col items-center">
+                <span className="text-4xl font-black tracking-tighter tabular-nums text-bull">{gameScore.total.toLocaleString(locale)}</span>
+                <span className="text-[10px] font-mono uppercase tracking-widest text-zinc-400">
+                  {marathon
+                    ? t('score.marathon', { base: gameScore.base, count: marathon.solved })
+                    : t('score.single', { base: gameScore.base, tries: Math.round(gameScore.attemptsFactor * 100), speed: Math.round(gameScore.timeFactor * 100) })}
+                  {gameScore.hintFactor < 1 && t('score.hints', { percent: Math.round(gameScore.hintFactor * 100) })}
+                </span>
+              </div>
+            )}
             
-            <p className="text-zinc-500 font-medium mb-8">
-              {gameStatus === 'won' 
-                ? `Sequence found in ${guesses.length} attempts.` 
-                : 'Security lockout initiated.'}
+            <p className={`text-zinc-500 font-medium max-w-[300px] ${analysis || match || hints.clues.length > 0 ? 'mb-3' : 'mb-8'}`}>
+              {resultMessage}
             </p>
 
-            <div className="relative mb-10 p-4 bg-white dark:bg-zinc-900 rounded-2xl shadow-sm border border-zinc-100 dark:border-zinc-800">
-              <div className="text-[10px] uppercase tracking-[0.3em] text-zinc-400 mb-2 font-bold text-center">Secret Key</div>
-              <div className="flex gap-3 justify-center">
-                {secretCode.split('').map((char, i) => (
-                  <div key={i} className="w-10 h-12 bg-zinc-50 dark:bg-zinc-800 rounded-lg flex items-center justify-center text-xl font-mono font-bold text-zinc-900 dark:text-white">
-                    {char}
-                  </div>
-                ))}
+            {match && (
+              <p className="text-[10px] font-mono uppercase tracking-widest text-zinc-400 mb-8">
+                {match.players[0].name} {match.scores[0]} – {match.scores[1]} {match.players[1].name} · {t('match.firstTo', { count: winsNeeded(match.bestOf) })}
+              </p>
+            )}
+
+            {gameDailyKey && (
+              <div className="mb-8 flex flex-col items-center gap-3">
+                <pre className="text-xs leading-tight font-sans text-center">{buildShareGrid(gameDailyKey, guesses, rules, gameStatus === 'won')}</pre>
+                <button
+                  onClick={shareDailyResult}
+                  className="flex items-center gap-2 px-4 h-10 rounded-xl bg-accent/15 text-accent text-sm font-bold active:scale-95 transition-transform"
+                >
+                  {shareCopied ? <Check size={16} /> : <Share2 size={16} />} {t(shareCopied ? 'common.copied' : 'daily.share')}
+                </button>
               </div>
-            </div>
+            )}
 
-            <button 
-              onClick={resetGame}
-              className="w-56 h-14 rounded-2xl bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 font-bold text-lg hover:scale-[1.02] active:scale-[0.98] transition-transform shadow-xl"
-            >
-              Restart System
-            </button>
+            {hintsTaken > 0 && !match && (
+              <p className={`text-[10px] font-mono uppercase tracking-widest text-zinc-400 ${analysis ? 'mb-3' : 'mb-8'}`}>
+                {t('result.hintsUsed', { count: hintsTaken })} · {t('result.pointsSpent', { count: hints.spent })}
+              </p>
+            )}
+
+            {analysis && (
+              <p className="text-[10px] font-mono uppercase tracking-widest text-zinc-400 mb-8">
+                {t('result.analysis', { quality: Math.round(analysis.moveQuality * 100), count: analysis.solverAttempts })}
+              </p>
+            )}
+
+            {/* Versus keys are checked against the commitment published at setup, and every guess re-scored */}
+            {(match
+              ? match.players.map((p, i) => ({
+                  label: t('key.player', { name: p.name }),
+                  code: p.secret,
+                  check: verifyReveal(rules, p, match.players[opponentOf(i as 0 | 1)].guesses),
+                }))
+              : game.reverse?.manual
+                ? [] // The player's code never entered the app
+                : [{ label: t(game.reverse ? 'key.yours' : 'key.secret'), code: secretCode, check: null }]
+            ).map(({ label, code, check }) => (
+              <div key={label} className={`relative ${match ? 'mb-4' : 'mb-10'} p-4 bg-white dark:bg-zinc-900 rounded-2xl shadow-sm border border-zinc-100 dark:border-zinc-800`}>
+                <div className="text-[10px] uppercase tracking-[0.3em] text-zinc-400 mb-2 font-bold text-center truncate max-w-[280px]">{label}</div>
+                <div dir="ltr" className={`flex ${rules.codeLength > 5 ? 'gap-1.5' : 'gap-3'} justify-center`}>
+                  {/* An online opponent's key shows once their reveal arrives */}
+                  {(code || '?'.repeat(rules.codeLength)).split('').map((char, i) => (
+                    <div key={i} className="w-8 sm:w-10 h-12 bg-zinc-50 dark:bg-zinc-800 rounded-lg flex items-center justify-center text-xl font-mono font-bold text-zinc-900 dark:text-white">
+                      <CodeSymbol symbol={char} alphabet={rules.alphabet} />
+                    </div>
+                  ))}
+                </div>
+                {check && <KeyCheckBadge check={check} />}
+              </div>
+            ))}
+
+            {challengeResult && (
+              <div className="-mt-6 mb-8 flex flex-col items-center gap-2">
+                <span className="text-[10px] font-mono uppercase tracking-widest text-zinc-400">{t('challenge.sendBack')}</span>
+                <code className="max-w-[280px] break-all px-3 py-2 rounded-xl bg-zinc-100 dark:bg-zinc-800 text-xs font-mono select-text">{challengeResult}</code>
+                <button
+                  onClick={() => copyText(challengeResult, 'result')}
+                  className="flex items-center gap-1.5 px-3 h-9 rounded-xl bg-accent/15 text-accent text-xs font-bold active:scale-95 transition-transform"
+                >
+                  {linkCopied === 'result' ? <Check size={14} /> : <Send size={14} />} {t(linkCopied === 'result' ? 'common.copied' : 'challenge.copyResult')}
+                </button>
+              </div>
+            )}
+
+            {shareable && (
+              <div className="-mt-6 mb-8 flex gap-2">
+                <button
+                  onClick={() => copyGameLink('replay')}
+                  className="flex items-center gap-1.5 px-3 h-9 rounded-xl bg-zinc-100 dark:bg-zinc-800 text-xs font-bold active:scale-95 transition-transform"
+                >
+                  {linkCopied === 'replay' ? <Check size={14} /> : <Film size={14} />} {t(linkCopied === 'replay' ? 'common.copied' : 'share.replay')}
+                </button>
+                <button
+                  onClick={() => copyGameLink('challenge')}
+                  className="flex items-center gap-1.5 px-3 h-9 rounded-xl bg-zinc-100 dark:bg-zinc-800 text-xs font-bold active:scale-95 transition-transform"
+                >
+                  {linkCopied === 'challenge' ? <Check size={14} /> : <Target size={14} />} {t(linkCopied === 'challenge' ? 'common.copied' : 'share.challenge')}
+                </button>
+              </div>
+            )}
+
+            {match && !game.online && matchOverWinner === null ? (
+              <div className="mt-6 flex flex-col items-center gap-3">
+                <button 
+                  onClick={() => dispatch({ type: 'nextRound' })}
+                  className="w-56 h-14 rounded-2xl bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 font-bold text-lg hover:scale-[1.02] active:scale-[0.98] transition-transform shadow-xl flex items-center justify-center gap-2"
+                >
+                  {t('match.next')} <ArrowRight size={20} className="rtl:-scale-x-100" />
+                </button>
+                <button onClick={resetGame} className="text-xs font-mono uppercase tracking-widest text-zinc-400">
+                  {t('match.end')}
+                </button>
+              </div>
+            ) : (
+              <button 
+                onClick={resetGame}
+                className={`${match ? 'mt-6 ' : ''}w-56 h-14 rounded-2xl bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 font-bold text-lg hover:scale-[1.02] active:scale-[0.98] transition-transform shadow-xl`}
+              >
+                {t('result.restart')}
+              </button>
+            )}
           </div>
         </div>
       )}
+
+      {/* --- Update prompt (a new build is waiting in the service worker) --- */}
+      {applyUpdate && (
+        <div role="status" className="absolute bottom-[max(env(safe-area-inset-bottom),1rem)] inset-x-4 z-[60] mx-auto max-w-sm flex items-center gap-3 p-3 ps-4 rounded-2xl bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 shadow-xl animate-in fade-in slide-in-from-bottom-4 duration-300">
+          <span className="flex-1 text-sm font-medium">{t('update.ready')}</span>
+          <button onClick={applyUpdate} className="px-3 h-9 rounded-xl bg-bull text-on-bull text-xs font-bold flex items-center gap-1.5 active:scale-95 transition-transform">
+            <RotateCcw size={14} /> {t('update.apply')}
+          </button>
+          <button onClick={() => setApplyUpdate(null)} aria-label={t('update.later')} className="w-9 h-9 flex items-center justify-center rounded-xl text-zinc-400 active:scale-95">
+            <X size={16} />
+          </button>
+        </div>
+      )}
     </div>
+    </I18nContext.Provider>
   );
 }
\ No newline at end of file
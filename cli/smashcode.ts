@@ -0,0 +1,207 @@
+import { existsSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { createInterface } from 'readline';
+import { pathToFileURL } from 'url';
+import { parseArgs } from 'util';
+import {
+  ALPHABETS, Alphabet, BUILTIN_STRATEGIES, GameRules, Strategy, createGameReducer, createInitialState, describeRules, isStrategy,
+  normalizeRules, runTournament, tournamentToCsv, tournamentToJson,
+} from '../engine';
+
+// --- Command line ---
+// Plays the web app's game in a terminal, and runs codebreaking strategies against each
+// other on seeded secrets. Everything goes through the engine, so rules, feedback and the
+// attempt limit are the app's own. Run with `npm run cli -- <command> [options]`.
+
+const HELP = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  play          Crack a random code in the terminal
+  tournament    Run strategies against the same seeded secrets and report the results
+  strategies    List the built-in strategies
+
+Rules (both commands):
+  --length <n>        Code length (default 4)
+  --alphabet <name>   ${Object.keys(ALPHABETS).join(', ')} (default digits)
+  --duplicates        Allow repeated symbols
+  --attempts <n>      Attempt limit (default 10)
+
+Tournament:
+  --strategy <name|file>  A built-in strategy or a module exporting one (repeatable, default: all built-ins)
+  --games <n>             Secrets to play (default 1000)
+  --seed <n>              Seed for the secrets (default 1)
+  --worst <n>             Hardest secrets to list per strategy (default 10)
+  --format <json|csv>     Report format (default json)
+  --out <file>            Write the report to a file instead of stdout
+
+A strategy module exports a Strategy (see engine/arena.ts) as its default export or as
+\`strategy\`, or an array of them as \`strategies\`.
+`;
+
+const OPTIONS = {
+  length: { type: 'string' },
+  alphabet: { type: 'string' },
+  duplicates: { type: 'boolean' },
+  attempts: { type: 'string' },
+  strategy: { type: 'string', multiple: true },
+  games: { type: 'string' },
+  seed: { type: 'string' },
+  worst: { type: 'string' },
+  format: { type: 'string' },
+  out: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type Options = ReturnType<typeof parseArgs<{ allowPositionals: true; options: typeof OPTIONS }>>['values'];
+
+// A usage mistake: reported with the usage text and exit code 2
+class UsageError extends Error {}
+
+const integer = (value: string | undefined, option: string, fallback: number, min: number, max = Infinity): number => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (Number.isInteger(n) && n >= min && n <= max) return n;
+  throw new UsageError(`--${option} must be a whole number ${max === Infinity ? `of at least ${min}` : `from ${min} to ${max}`}`);
+};
+
+const readRules = (values: Options): GameRules => {
+  if (values.alphabet !== undefined && !(values.alphabet in ALPHABETS)) throw new UsageError(`Unknown alphabet "${values.alphabet}"`);
+  const rules = normalizeRules({
+    codeLength: values.length === undefined ? undefined : integer(values.length, 'length', 0, 1),
+    alphabet: values.alphabet as Alphabet | undefined,
+    allowDuplicates: values.duplicates,
+    maxAttempts: values.attempts === undefined ? undefined : integer(values.attempts, 'attempts', 0, 1),
+  });
+  // normalizeRules clamps quietly; on the command line a changed setting should be said out loud
+  if (values.length !== undefined && rules.codeLength !== Number(values.length)) console.error(`Code length set to ${rules.codeLength}`);
+  if (values.attempts !== undefined && rules.maxAttempts !== Number(values.attempts)) console.error(`Attempt limit set to ${rules.maxAttempts}`);
+  return rules;
+};
+
+// Why a typed guess can't be played, or null if it can
+const guessProblem = (rules: GameRules, code: string): string | null => {
+  const symbols = ALPHABETS[rules.alphabet].symbols;
+  if (code.length !== rules.codeLength) return `Enter ${rules.codeLength} symbols.`;
+  const stray = [...code].find((c) => !symbols.includes(c));
+  if (stray) return `"${stray}" is not one of ${symbols.join('')}.`;
+  if (!rules.allowDuplicates && new Set(code).size !== code.length) return 'Symbols may not repeat.';
+  return null;
+};
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+const play = async (rules: GameRules) => {
+  const reduce = createGameReducer();
+  let state = reduce(createInitialState(rules), { type: 'start', mode: 'solo', rules, at: Date.now() });
+  const symbols = ALPHABETS[rules.alphabet].symbols.join('');
+  console.log(`Crack the ${describeRules(rules)} code (${symbols}) in ${plural(rules.maxAttempts, 'attempt')}. Type "quit" to give up.`);
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const prompt = () => {
+    rl.setPrompt(`${state.guesses.length + 1}/${rules.maxAttempts} > `);
+    rl.prompt();
+  };
+  prompt();
+  for await (const line of rl) {
+    const code = line.trim().toUpperCase();
+    if (code === 'QUIT') break;
+    const problem = guessProblem(rules, code);
+    if (problem) {
+      console.log(`  ${problem}`);
+    } else {
+      state = reduce(state, { type: 'submit', code, at: Date.now() });
+      const { bulls, cows } = state.guesses[state.guesses.length - 1];
+      console.log(`  ${plural(bulls, 'bull')}, ${plural(cows, 'cow')}`);
+      if (state.status !== 'playing') break;
+    }
+    prompt();
+  }
+  rl.close();
+
+  if (state.status === 'won') console.log(`Cracked in ${plural(state.guesses.length, 'attempt')}.`);
+  else console.log(`The code was ${state.secret}.`);
+};
+
+const loadStrategies = async (specs: string[]): Promise<Strategy[]> => {
+  const loaded: Strategy[] = [];
+  for (const spec of specs) {
+    const builtin = BUILTIN_STRATEGIES.find((s) => s.name === spec);
+    if (builtin) {
+      loaded.push(builtin);
+      continue;
+    }
+    const file = resolve(spec);
+    if (!existsSync(file)) {
+      throw new UsageError(`Unknown strategy "${spec}" (built-in: ${BUILTIN_STRATEGIES.map((s) => s.name).join(', ')}; or the path to a module)`);
+    }
+    const module = await import(pathToFileURL(file).href);
+    const found = [module.default, module.strategy, ...(Array.isArray(module.strategies) ? module.strategies : [])].filter(isStrategy);
+    if (found.length === 0) throw new UsageError(`${spec} is not a built-in strategy or a module that exports one`);
+    loaded.push(...found);
+  }
+  const names = loaded.map((s) => s.name);
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) throw new Error(`Two strategies are named "${duplicate}"`);
+  return loaded;
+};
+
+const tournament = async (rules: GameRules, values: Options) => {
+  const format = values.format ?? 'json';
+  if (format !== 'json' && format !== 'csv') throw new UsageError(`Unknown format "${format}"`);
+  const games = integer(values.games, 'games', 1000, 1);
+  // Seeds are 32-bit, like createRng's state
+  const seed = integer(values.seed, 'seed', 1, 1, 0xffffffff);
+  const worst = integer(values.worst, 'worst', 10, 0);
+  const strategies = await loadStrategies(values.strategy ?? BUILTIN_STRATEGIES.map((s) => s.name));
+
+  // Progress goes to stderr, so stdout stays a clean report
+  const progress = process.stderr.isTTY
+    ? (strategy: string, played: number) => {
+        if (played % 50 === 0 || played === games) process.stderr.write(`\r${strategy}: ${played}/${games}${played === games ? '\n' : ''}`);
+      }
+    : undefined;
+  const report = runTournament(strategies, {
+    rules,
+    games,
+    seed,
+    worst,
+    onGame: progress,
+  });
+
+  const text = format === 'csv' ? tournamentToCsv(report) : `${tournamentToJson(report)}\n`;
+  if (values.out) writeFileSync(values.out, text);
+  else process.stdout.write(text);
+};
+
+const main = async () => {
+  let parsed;
+  try {
+    parsed = parseArgs({ allowPositionals: true, options: OPTIONS });
+  } catch (err) {
+    // Unknown flags and missing option values
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+  const { positionals, values } = parsed;
+  const [command] = positionals;
+  if (values.help || !command) {
+    console.log(HELP);
+    return;
+  }
+  if (command === 'play') return play(readRules(values));
+  if (command === 'tournament') return tournament(readRules(values), values);
+  if (command === 'strategies') {
+    for (const s of BUILTIN_STRATEGIES) console.log(`${s.name.padEnd(10)}${s.description ?? ''}`);
+    return;
+  }
+  throw new UsageError(`Unknown command "${command}"`);
+};
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  if (err instanceof UsageError) {
+    console.error(`\n${HELP}`);
+    process.exitCode = 2;
+  } else {
+    process.exitCode = 1;
+  }
+});
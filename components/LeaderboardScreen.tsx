@@ -0,0 +1,115 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, Download } from 'lucide-react';
+import { GameMode, GameRecord, LeaderboardRange, buildLeaderboard } from '../engine';
+import { Profile } from '../services/profiles';
+import { formatDuration } from './format';
+import { MessageKey, useI18n } from '../i18n';
+
+const MODES: GameMode[] = ['solo', 'daily', 'multiplayer', 'online', 'blitz', 'marathon', 'challenge', 'evil'];
+
+const RANGES: { range: LeaderboardRange; label: MessageKey }[] = [
+  { range: 'today', label: 'leaderboard.today' },
+  { range: 'week', label: 'leaderboard.week' },
+  { range: 'month', label: 'leaderboard.month' },
+  { range: 'all', label: 'leaderboard.all' },
+];
+
+export const LeaderboardScreen = ({ records, profiles, onBack }: {
+  records: GameRecord[];
+  profiles: Profile[];
+  onBack: () => void;
+}) => {
+  const { t, locale } = useI18n();
+  const [mode, setMode] = useState<GameMode>('solo');
+  const [profile, setProfile] = useState<string | null>(null);
+  const [range, setRange] = useState<LeaderboardRange>('all');
+
+  const entries = useMemo(() => buildLeaderboard(records, { mode, profile, range }), [records, mode, profile, range]);
+
+  // Versus boards are named after the player; everything else after the profile that played it
+  const nameOf = (record: GameRecord) =>
+    record.player ?? profiles.find((p) => p.id === record.profile)?.name ?? t('leaderboard.unknown');
+
+  const handleExport = () => {
+    const rows = entries.map(({ record, score }, i) => ({
+      rank: i + 1,
+      name: nameOf(record),
+      mode: record.mode,
+      score,
+      attempts: record.guesses.length,
+      ...(record.solved !== undefined ? { solved: record.solved } : {}),
+      durationMs: record.durationMs,
+      hintsUsed: record.hintsUsed,
+      playedAt: new Date(record.startedAt).toISOString(),
+    }));
+    const json = JSON.stringify({ version: 1, exportedAt: new Date().toISOString(), filter: { mode, profile, range }, entries: rows }, null, 2);
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `smashcode-leaderboard-${mode}-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const chip = (active: boolean) => `px-3 h-8 rounded-full text-xs font-bold transition-colors flex-none ${active
+    ? 'bg-zinc-900 dark:bg-white text-white dark:text-zinc-900'
+    : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500'}`;
+
+  return (
+    <div className="flex-1 flex flex-col px-6 pt-4 pb-[max(env(safe-area-inset-bottom),1.5rem)] overflow-y-auto no-scrollbar animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <button onClick={onBack} aria-label={t('common.back')} className="w-9 h-9 rounded-full flex items-center justify-center bg-zinc-200 dark:bg-zinc-800 active:scale-90 transition-transform">
+          <ArrowLeft size={16} className="rtl:-scale-x-100" />
+        </button>
+        <h2 className="text-2xl font-bold tracking-tight">{t('leaderboard.title')}</h2>
+        <div className="w-9" />
+      </div>
+
+      <div className="flex gap-1.5 mb-3 overflow-x-auto no-scrollbar">
+        {MODES.map((m) => (
+          <button key={m} className={chip(mode === m)} onClick={() => setMode(m)}>{t(`mode.${m}`)}</button>
+        ))}
+      </div>
+      <div className="flex justify-center gap-1.5 mb-3">
+        {RANGES.map(({ range: r, label }) => (
+          <button key={r} className={chip(range === r)} onClick={() => setRange(r)}>{t(label)}</button>
+        ))}
+      </div>
+      {profiles.length > 1 && (
+        <div className="flex gap-1.5 mb-3 overflow-x-auto no-scrollbar">
+          <button className={chip(profile === null)} onClick={() => setProfile(null)}>{t('leaderboard.everyone')}</button>
+          {profiles.map((p) => (
+            <button key={p.id} className={chip(profile === p.id)} onClick={() => setProfile(p.id)}>{p.name}</button>
+          ))}
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-zinc-500 text-sm text-center py-10">{t('leaderboard.empty')}</p>
+      ) : (
+        <ol className="mt-3 mb-8 space-y-1.5">
+          {entries.map(({ record, score }, i) => (
+            <li key={record.id} className="flex items-center gap-3 px-4 py-2.5 bg-white dark:bg-zinc-900 border border-zinc-100 dark:border-zinc-800 rounded-2xl">
+              <span className={`w-6 text-sm font-black tabular-nums ${i === 0 ? 'text-cow' : 'text-zinc-400'}`}>{i + 1}</span>
+              <div className="flex-1 min-w-0">
+                <div className="font-bold truncate">{nameOf(record)}</div>
+                <div className="text-[10px] font-mono uppercase tracking-widest text-zinc-400">
+                  {record.solved !== undefined
+                    ? t('play.cracked', { count: record.solved })
+                    : `${record.guesses.length}/${record.rules.maxAttempts}`} · {formatDuration(record.durationMs, locale)}
+                  {record.hintsUsed > 0 && ` · ${t('leaderboard.hints', { count: record.hintsUsed })}`}
+                  {' · '}{new Date(record.startedAt).toLocaleDateString(locale)}
+                </div>
+              </div>
+              <span className="text-lg font-black tracking-tighter tabular-nums">{score.toLocaleString(locale)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <button onClick={handleExport} disabled={entries.length === 0} className="mt-auto h-11 rounded-xl bg-zinc-100 dark:bg-zinc-800 text-xs font-bold flex items-center justify-center gap-1.5 active:scale-95 transition-transform disabled:opacity-40">
+        <Download size={14} /> {t('common.export')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,18 @@
+import React, { useMemo } from 'react';
+import { qrMatrix } from './qr';
+
+// One SVG path of dark modules inside the standard four-module quiet zone.
+// Always black on white, whatever the theme, so any camera can read it.
+export const QrCode = ({ text, label }: { text: string; label: string }) => {
+  const matrix = useMemo(() => qrMatrix(text), [text]);
+  if (!matrix) return null;
+  const size = matrix.length + 8;
+  const path = matrix
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + 4} ${y + 4}h1v1h-1z` : '')))
+    .join('');
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} role="img" aria-label={label} shapeRendering="crispEdges" className="w-48 h-48 rounded-2xl bg-white shadow-sm">
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ArrowLeft, Download, Upload, Trash2 } from 'lucide-react';
+import { GameMode, GameRecord, computeStats } from '../engine';
+import { HistoryImportError, ImportProblem, clearHistory, exportHistory, importHistory } from '../services/history';
+import { formatDuration } from './format';
+import { MessageKey, useI18n } from '../i18n';
+
+type ModeFilter = 'all' | GameMode;
+
+const MODES: GameMode[] = ['solo', 'daily', 'multiplayer', 'online', 'blitz', 'marathon', 'challenge', 'evil', 'reverse'];
+
+const IMPORT_ERROR_MESSAGES: Record<ImportProblem, MessageKey> = {
+  'not-json': 'stats.importNotJson',
+  'no-history': 'stats.importNoHistory',
+  unreadable: 'stats.importUnreadable',
+};
+
+const StatTile = ({ label, value }: { label: string; value: string | number }) => (
+  <div className="flex flex-col items-center p-3 bg-white dark:bg-zinc-900 border border-zinc-100 dark:border-zinc-800 rounded-2xl">
+    <span className="text-2xl font-black tracking-tighter tabular-nums">{value}</span>
+    <span className="text-[9px] font-mono uppercase tracking-widest text-zinc-400 text-center">{label}</span>
+  </div>
+);
+
+export const StatsScreen = ({ records, onBack, onRecordsChange }: {
+  records: GameRecord[];
+  onBack: () => void;
+  onRecordsChange: (records: GameRecord[]) => void;
+}) => {
+  const { t, locale } = useI18n();
+  const [filter, setFilter] = useState<ModeFilter>('all');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const visible = useMemo(() => (filter === 'all' ? records : records.filter((r) => r.mode === filter)), [records, filter]);
+  const stats = useMemo(() => computeStats(visible), [visible]);
+  const losses = stats.played - stats.wins;
+  const tallest = Math.max(1, losses, ...stats.distribution);
+
+  const handleExport = () => {
+    const blob = new Blob([exportHistory(records)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `smashcode-history-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onRecordsChange(importHistory(await file.text()));
+      setImportError(null);
+    } catch (err) {
+      setImportError(t(err instanceof HistoryImportError ? IMPORT_ERROR_MESSAGES[err.problem] : 'stats.importFailed'));
+    }
+    if (fileRef.current) fileRef.current.value = '';
+  };
+
+  const handleClear = () => {
+    if (!window.confirm(t('stats.confirmClear'))) return;
+    clearHistory();
+    onRecordsChange([]);
+  };
+
+  const chip = (active: boolean) => `px-3 h-8 rounded-full text-xs font-bold transition-colors flex-none ${active
+    ? 'bg-zinc-900 dark:bg-white text-white dark:text-zinc-900'
+    : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500'}`;
+
+  return (
+    <div className="flex-1 flex flex-col px-6 pt-4 pb-[max(env(safe-area-inset-bottom),1.5rem)] overflow-y-auto no-scrollbar animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <button onClick={onBack} aria-label={t('common.back')} className="w-9 h-9 rounded-full flex items-center justify-center bg-zinc-200 dark:bg-zinc-800 active:scale-90 transition-transform">
+          <ArrowLeft size={16} className="rtl:-scale-x-100" />
+        </button>
+        <h2 className="text-2xl font-bold tracking-tight">{t('stats.title')}</h2>
+        <div className="w-9" />
+      </div>
+
+      <div className="flex gap-1.5 mb-6 overflow-x-auto no-scrollbar">
+        <button className={chip(filter === 'all')} onClick={() => setFilter('all')}>{t('stats.all')}</button>
+        {MODES.map((mode) => (
+          <button key={mode} className={chip(filter === mode)} onClick={() => setFilter(mode)}>{t(`mode.${mode}`)}</button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-2">
+        <StatTile label={t('stats.played')} value={stats.played} />
+        <StatTile label={t('stats.winRate')} value={Math.round(stats.winRate * 100)} />
+        <StatTile label={t('stats.averageSolve')} value={formatDuration(stats.averageSolveMs, locale)} />
+      </div>
+      <div className="grid grid-cols-2 gap-2 mb-8">
+        <StatTile label={t('stats.currentStreak')} value={stats.currentStreak} />
+        <StatTile label={t('stats.bestStreak')} value={stats.bestStreak} />
+      </div>
+
+      <div className="text-[10px] uppercase tracking-[0.3em] text-zinc-400 mb-3 font-bold">{t('stats.distribution')}</div>
+      {stats.played === 0 ? (
+        <p className="text-zinc-500 text-sm text-center py-6">{t('stats.empty')}</p>
+      ) : (
+        <div className="space-y-1.5 mb-8">
+          {stats.distribution.map((count, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <span className="w-5 text-end text-xs font-mono text-zinc-400">{i + 1}</span>
+              <div className="flex-1">
+                <div
+                  className={`h-5 rounded-md flex items-center justify-end px-1.5 text-[10px] font-bold text-on-bull ${count > 0 ? 'bg-bull' : 'bg-zinc-200 dark:bg-zinc-800'}`}
+                  style={{ width: `${Math.max(8, (count / tallest) * 100)}%` }}
+                >
+                  {count > 0 ? count : ''}
+                </div>
+              </div>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <span className="w-5 text-end text-xs font-mono text-danger">✕</span>
+            <div className="flex-1">
+              <div
+                className={`h-5 rounded-md flex items-center justify-end px-1.5 text-[10px] font-bold text-on-danger ${losses > 0 ? 'bg-danger' : 'bg-zinc-200 dark:bg-zinc-800'}`}
+                style={{ width: `${Math.max(8, (losses / tallest) * 100)}%` }}
+              >
+                {losses > 0 ? losses : ''}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-auto grid grid-cols-3 gap-2">
+        <button onClick={handleExport} disabled={records.length === 0} className="h-11 rounded-xl bg-zinc-100 dark:bg-zinc-800 text-xs font-bold flex items-center justify-center gap-1.5 active:scale-95 transition-transform disabled:opacity-40">
+          <Download size={14} /> {t('common.export')}
+        </button>
+        <button onClick={() => fileRef.current?.click()} className="h-11 rounded-xl bg-zinc-100 dark:bg-zinc-800 text-xs font-bold flex items-center justify-center gap-1.5 active:scale-95 transition-transform">
+          <Upload size={14} /> {t('stats.import')}
+        </button>
+        <button onClick={handleClear} disabled={records.length === 0} className="h-11 rounded-xl bg-zinc-100 dark:bg-zinc-800 text-danger text-xs font-bold flex items-center justify-center gap-1.5 active:scale-95 transition-transform disabled:opacity-40">
+          <Trash2 size={14} /> {t('stats.clear')}
+        </button>
+      </div>
+      <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={(e) => handleImport(e.target.files?.[0])} />
+      {importError && <p className="mt-3 text-xs text-danger text-center">{importError}</p>}
+    </div>
+  );
+};
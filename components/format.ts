@@ -0,0 +1,12 @@
+// Display helpers shared by the screens in this folder
+
+// "42s", "3m 05s", in the locale's own units and digits
+export const formatDuration = (ms: number | null, locale: string) => {
+  if (ms === null) return '—';
+  const seconds = Math.round(ms / 1000);
+  const unit = (unit: 'minute' | 'second', value: number, digits = 1) =>
+    new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay: 'narrow', minimumIntegerDigits: digits }).format(value);
+  if (seconds < 60) return unit('second', seconds);
+  const parts = [unit('minute', Math.floor(seconds / 60)), unit('second', seconds % 60, 2)];
+  return new Intl.ListFormat(locale, { type: 'unit', style: 'narrow' }).format(parts);
+};
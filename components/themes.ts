@@ -0,0 +1,103 @@
+// --- Themes ---
+// Every color the UI means something by comes from the active palette: bulls, cows, the
+// accent, danger, and the neutral zinc scale everything else is drawn in. Tailwind reads
+// them as CSS variables (see the config in index.html), so `bg-bull` or `text-zinc-400`
+// follow the theme. Each palette sits on the light or dark base, which sets the `dark` class.
+// The one exception is the 'colors' alphabet, whose swatches are the code symbols themselves.
+// Values are space-separated RGB channels, so Tailwind can add opacity (`bg-bull/20`).
+
+export type ThemeId = 'light' | 'dark' | 'midnight' | 'contrast';
+
+type Shade = 50 | 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900 | 950;
+// on-bull / on-accent / on-danger: text and icons drawn on a filled bull, accent or danger surface
+type Token = 'bull' | 'on-bull' | 'cow' | 'accent' | 'on-accent' | 'danger' | 'on-danger';
+
+export interface Theme {
+  id: ThemeId;
+  base: 'light' | 'dark';
+  zinc: Record<Shade, string>;
+  colors: Record<Token, string>;
+}
+
+// Tailwind's own zinc
+const ZINC: Record<Shade, string> = {
+  50: '250 250 250',
+  100: '244 244 245',
+  200: '228 228 231',
+  300: '212 212 216',
+  400: '161 161 170',
+  500: '113 113 122',
+  600: '82 82 91',
+  700: '63 63 70',
+  800: '39 39 42',
+  900: '24 24 27',
+  950: '9 9 11',
+};
+
+export const THEMES: Theme[] = [
+  {
+    id: 'light',
+    base: 'light',
+    zinc: ZINC,
+    colors: { bull: '16 185 129', 'on-bull': '255 255 255', cow: '245 158 11', accent: '124 58 237', 'on-accent': '255 255 255', danger: '244 63 94', 'on-danger': '255 255 255' },
+  },
+  {
+    id: 'dark',
+    base: 'dark',
+    zinc: ZINC,
+    colors: { bull: '16 185 129', 'on-bull': '255 255 255', cow: '251 191 36', accent: '167 139 250', 'on-accent': '24 24 27', danger: '244 63 94', 'on-danger': '255 255 255' },
+  },
+  {
+    // Tailwind's slate, with cool feedback colors
+    id: 'midnight',
+    base: 'dark',
+    zinc: {
+      50: '248 250 252',
+      100: '241 245 249',
+      200: '226 232 240',
+      300: '203 213 225',
+      400: '148 163 184',
+      500: '100 116 139',
+      600: '71 85 105',
+      700: '51 65 85',
+      800: '30 41 59',
+      900: '15 23 42',
+      950: '2 6 23',
+    },
+    colors: { bull: '34 211 238', 'on-bull': '8 47 73', cow: '251 146 60', accent: '129 140 248', 'on-accent': '15 23 42', danger: '251 113 133', 'on-danger': '76 5 25' },
+  },
+  {
+    // Pure black, secondary text lifted close to white, borders that stand out,
+    // and feedback colors far apart in both hue and lightness
+    id: 'contrast',
+    base: 'dark',
+    zinc: {
+      50: '255 255 255',
+      100: '250 250 250',
+      200: '245 245 245',
+      300: '240 240 240',
+      400: '230 230 230',
+      500: '212 212 212',
+      600: '170 170 170',
+      700: '130 130 130',
+      800: '72 72 72',
+      900: '16 16 16',
+      950: '0 0 0',
+    },
+    colors: { bull: '0 230 118', 'on-bull': '0 0 0', cow: '255 214 0', accent: '64 196 255', 'on-accent': '0 0 0', danger: '255 82 82', 'on-danger': '0 0 0' },
+  },
+];
+
+export const isThemeId = (value: unknown): value is ThemeId => THEMES.some((t) => t.id === value);
+
+export const themeById = (id: ThemeId): Theme => THEMES.find((t) => t.id === id)!;
+
+// Set the palette's variables and base on the page, and tint the mobile status bar to match
+export const applyTheme = (theme: Theme) => {
+  const root = document.documentElement;
+  root.classList.toggle('dark', theme.base === 'dark');
+  for (const [shade, value] of Object.entries(theme.zinc)) root.style.setProperty(`--zinc-${shade}`, value);
+  for (const [token, value] of Object.entries(theme.colors)) root.style.setProperty(`--color-${token}`, value);
+  const background = theme.zinc[theme.base === 'dark' ? 950 : 50];
+  document.querySelector('meta[name="theme-color"]')?.setAttribute('content', `rgb(${background.split(' ').join(', ')})`);
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BUILTIN_STRATEGIES, Strategy, arenaSecrets, isStrategy, playArenaGame, runTournament, tournamentToCsv, tournamentToJson,
+} from './arena';
+import { DEFAULT_RULES, GameRules } from './rules';
+import { createRng } from './rng';
+
+const rules: GameRules = { ...DEFAULT_RULES, codeLength: 3 };
+const builtin = (name: string) => BUILTIN_STRATEGIES.find((s) => s.name === name)!;
+
+// Always plays the same code: cracks only that secret
+const stubborn = (code: string, name = 'stubborn'): Strategy => ({ name, create: () => ({ guess: () => code }) });
+
+describe('runTournament', () => {
+  it('is deterministic, and a result does not depend on the other strategies', () => {
+    const options = { rules, games: 20, seed: 7 };
+    const both = runTournament([builtin('random'), builtin('minimax')], options);
+    expect(runTournament([builtin('random'), builtin('minimax')], options)).toEqual(both);
+    expect(runTournament([builtin('minimax')], options).results[0]).toEqual(both.results[1]);
+    expect(runTournament([builtin('minimax')], { ...options, seed: 8 }).results[0]).not.toEqual(both.results[1]);
+  });
+
+  it('summarizes failures and guesses, hardest secrets first', () => {
+    const secrets = arenaSecrets(rules, 12, 3);
+    const report = runTournament([stubborn(secrets[4])], { rules, games: 12, seed: 3, worst: 2 });
+    const [result] = report.results;
+    const cracked = secrets.filter((s) => s === secrets[4]).length;
+    expect(result).toMatchObject({ strategy: 'stubborn', games: 12, solved: cracked, failures: 12 - cracked, meanGuesses: 1, maxGuesses: 1 });
+    expect(result.failureRate).toBeCloseTo((12 - cracked) / 12);
+    expect(result.worst).toHaveLength(2);
+    expect(result.worst.every((g) => !g.solved && g.guesses.length === rules.maxAttempts)).toBe(true);
+  });
+
+  it('reports every game through onGame', () => {
+    const seen: string[] = [];
+    runTournament([builtin('first')], { rules, games: 3, seed: 1, onGame: (strategy, played) => seen.push(`${strategy}:${played}`) });
+    expect(seen).toEqual(['first:1', 'first:2', 'first:3']);
+  });
+
+  it('refuses code spaces too large to enumerate', () => {
+    const large: GameRules = { ...rules, alphabet: 'hex', codeLength: 8, allowDuplicates: true };
+    expect(() => runTournament([builtin('first')], { rules: large, games: 1, seed: 1 })).toThrow();
+  });
+});
+
+describe('playArenaGame', () => {
+  it('cracks every secret with the built-ins, and blames a strategy for an invalid guess', () => {
+    for (const strategy of BUILTIN_STRATEGIES) {
+      const rng = createRng(2);
+      expect(playArenaGame(strategy.create(rules, rng), '012', rules, rng).solved).toBe(true);
+    }
+    expect(() => playArenaGame(stubborn('001').create(rules, createRng(1)), '012', rules, createRng(1), 'stubborn')).toThrow(/stubborn/);
+  });
+});
+
+describe('reports', () => {
+  const report = runTournament([stubborn('012', 'says "hi", twice')], { rules, games: 2, seed: 1, worst: 1 });
+
+  it('quotes CSV fields with commas and quotes', () => {
+    const [header, row] = tournamentToCsv(report).trimEnd().split('\n');
+    expect(header).toBe('strategy,games,solved,failures,failure_rate,mean_guesses,max_guesses,worst_secrets');
+    expect(row.startsWith('"says ""hi"", twice",2,')).toBe(true);
+  });
+
+  it('round-trips as JSON', () => {
+    expect(JSON.parse(tournamentToJson(report))).toEqual(report);
+  });
+});
+
+describe('isStrategy', () => {
+  it('checks the shape of loaded strategies', () => {
+    expect(isStrategy(builtin('first'))).toBe(true);
+    expect(isStrategy({ name: 'x' })).toBe(false);
+    expect(isStrategy(null)).toBe(false);
+  });
+});
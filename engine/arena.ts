@@ -0,0 +1,175 @@
+import { GameRules, describeRules } from './rules';
+import { Rng, createRng, hashSeed } from './rng';
+import { generateSecretCode } from './code';
+import { Guess, createGameReducer, createInitialState } from './game';
+import { canSolve, enumerateCodes, narrowCandidates, suggestGuess } from './solver';
+
+// --- Bot Arena ---
+// Codebreaking strategies play the real game (the same reducer, feedback and attempt
+// limit as the app) against a shared, seeded list of secrets, so their results can be
+// compared run for run. A strategy is anything that can hand out a Codebreaker for a game.
+
+export interface Codebreaker {
+  // Next code to play, given every guess so far with its feedback
+  guess: (guesses: Guess[]) => string;
+}
+
+export interface Strategy {
+  name: string;
+  description?: string;
+  create: (rules: GameRules, rng: Rng) => Codebreaker;
+}
+
+export interface ArenaGame {
+  secret: string;
+  guesses: Guess[];
+  solved: boolean;
+}
+
+export interface StrategyResult {
+  strategy: string;
+  games: number;
+  solved: number;
+  failures: number; // Not cracked within the attempt limit
+  failureRate: number; // 0..1
+  // Over solved games only; a failure always ends at the attempt limit
+  meanGuesses: number;
+  maxGuesses: number;
+  // Hardest secrets first: failures, then the most guesses
+  worst: ArenaGame[];
+}
+
+export interface TournamentReport {
+  rules: GameRules;
+  games: number;
+  seed: number;
+  results: StrategyResult[];
+}
+
+export interface TournamentOptions {
+  rules: GameRules;
+  games: number;
+  seed: number;
+  worst?: number; // How many of the hardest secrets to keep per strategy (default 10)
+  onGame?: (strategy: string, played: number) => void;
+}
+
+// Guesses only codes that are still consistent with every answer, picking among them with `pick`
+const consistentBreaker = (rules: GameRules, pick: (candidates: string[]) => string | null): Codebreaker => {
+  const codes = enumerateCodes(rules);
+  if (!codes) throw new Error(`Too many ${describeRules(rules)} codes to enumerate`);
+  let candidates = codes;
+  let seen = 0;
+  return {
+    guess: (guesses) => {
+      candidates = narrowCandidates(candidates, guesses.slice(seen));
+      seen = guesses.length;
+      return pick(candidates) ?? codes[0];
+    },
+  };
+};
+
+export const BUILTIN_STRATEGIES: Strategy[] = [
+  {
+    name: 'first',
+    description: 'the first consistent code in order',
+    create: (rules) => consistentBreaker(rules, (candidates) => candidates[0] ?? null),
+  },
+  {
+    name: 'random',
+    description: 'a random consistent code',
+    create: (rules, rng) => consistentBreaker(rules, (candidates) => candidates[Math.floor(rng() * candidates.length)] ?? null),
+  },
+  {
+    name: 'minimax',
+    description: 'the consistent code with the smallest worst-case answer',
+    create: (rules, rng) => consistentBreaker(rules, (candidates) => suggestGuess(candidates, 'minimax', rng)),
+  },
+  {
+    name: 'entropy',
+    description: 'the consistent code with the most informative answers',
+    create: (rules, rng) => consistentBreaker(rules, (candidates) => suggestGuess(candidates, 'entropy', rng)),
+  },
+];
+
+// A structural check for strategies loaded from outside the engine
+export const isStrategy = (value: unknown): value is Strategy => {
+  const s = value as Strategy;
+  return typeof s === 'object' && s !== null && typeof s.name === 'string' && typeof s.create === 'function';
+};
+
+// The secrets every strategy in a tournament plays, in order
+export const arenaSecrets = (rules: GameRules, games: number, seed: number): string[] => {
+  const rng = createRng(seed);
+  return Array.from({ length: games }, () => generateSecretCode(rules, rng));
+};
+
+// Play one game through the game reducer. A guess the rules don't allow is the strategy's bug, not a miss.
+export const playArenaGame = (breaker: Codebreaker, secret: string, rules: GameRules, rng: Rng, name = 'strategy'): ArenaGame => {
+  const reduce = createGameReducer(rng);
+  let state = reduce(createInitialState(rules), { type: 'start', mode: 'solo', rules, secret, at: 0 });
+  while (state.status === 'playing') {
+    const code = breaker.guess(state.guesses);
+    state = reduce(state, { type: 'submit', code, at: state.guesses.length + 1 });
+    if (state.error) throw new Error(`${name} guessed "${code}", which is not a valid ${describeRules(rules)} code`);
+  }
+  // Reports carry only what the strategy saw
+  const guesses = state.guesses.map(({ code, bulls, cows }) => ({ code, bulls, cows }));
+  return { secret, guesses, solved: state.status === 'won' };
+};
+
+const summarize = (strategy: string, games: ArenaGame[], worst: number): StrategyResult => {
+  const solved = games.filter((g) => g.solved);
+  const failures = games.length - solved.length;
+  const total = solved.reduce((sum, g) => sum + g.guesses.length, 0);
+  const hardest = [...games].sort((a, b) => Number(a.solved) - Number(b.solved) || b.guesses.length - a.guesses.length);
+  return {
+    strategy,
+    games: games.length,
+    solved: solved.length,
+    failures,
+    failureRate: games.length === 0 ? 0 : failures / games.length,
+    meanGuesses: solved.length === 0 ? 0 : total / solved.length,
+    maxGuesses: solved.reduce((max, g) => Math.max(max, g.guesses.length), 0),
+    worst: hardest.slice(0, worst),
+  };
+};
+
+// Every strategy plays every secret. Each game gets its own rng, seeded from the tournament seed,
+// the strategy and the game, so a result doesn't depend on which other strategies took part.
+export const runTournament = (strategies: Strategy[], options: TournamentOptions): TournamentReport => {
+  const { rules, games, seed, worst = 10, onGame } = options;
+  if (!canSolve(rules)) throw new Error(`Too many ${describeRules(rules)} codes for a tournament`);
+  const secrets = arenaSecrets(rules, games, seed);
+  const results = strategies.map((strategy) => {
+    const played = secrets.map((secret, i) => {
+      const rng = createRng(hashSeed(`${seed}/${strategy.name}/${i}`));
+      const game = playArenaGame(strategy.create(rules, rng), secret, rules, rng, strategy.name);
+      onGame?.(strategy.name, i + 1);
+      return game;
+    });
+    return summarize(strategy.name, played, worst);
+  });
+  return { rules, games, seed, results };
+};
+
+export const tournamentToJson = (report: TournamentReport): string => JSON.stringify(report, null, 2);
+
+const csvField = (value: string | number) => (/[",\n]/.test(String(value)) ? `"${String(value).replace(/"/g, '""')}"` : String(value));
+
+// One row per strategy; the hardest secrets are listed in one column as "secret:guesses",
+// with an "x" for guesses when the code wasn't cracked
+export const tournamentToCsv = (report: TournamentReport): string => {
+  const header = ['strategy', 'games', 'solved', 'failures', 'failure_rate', 'mean_guesses', 'max_guesses', 'worst_secrets'];
+  const rows = report.results.map((r) => [
+    r.strategy,
+    r.games,
+    r.solved,
+    r.failures,
+    r.failureRate.toFixed(4),
+    r.meanGuesses.toFixed(3),
+    r.maxGuesses,
+    r.worst.map((g) => `${g.secret}:${g.solved ? g.guesses.length : 'x'}`).join(' '),
+  ]);
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+};
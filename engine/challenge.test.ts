@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Challenge, createChallengeId, decodeChallengeResult, encodeChallengeResult, packChallenge, scoreChallengeResult, unpackChallenge,
+} from './challenge';
+import { GameAction, createGameReducer, createInitialState } from './game';
+import { DEFAULT_RULES } from './rules';
+import { createRng } from './rng';
+import { toBase64Url } from './replay';
+
+const challenge: Challenge = { id: createChallengeId(createRng(4)), rules: DEFAULT_RULES, secret: '3941' };
+
+// The friend's side: plays the challenge code through the reducer
+const play = (codes: string[]) =>
+  [
+    { type: 'start', mode: 'challenge', rules: challenge.rules, secret: challenge.secret, challengeId: challenge.id, at: 1_000 },
+    ...codes.map((code, i): GameAction => ({ type: 'submit', code, at: 2_000 + i * 1_000 })),
+  ].reduce(createGameReducer(createRng(1)), createInitialState(DEFAULT_RULES));
+
+describe('challenges', () => {
+  it('packs and unpacks a challenge, and rejects anything else', () => {
+    expect(challenge.id).toMatch(/^[0-9a-f]{8}$/);
+    expect(unpackChallenge(packChallenge(challenge))).toEqual(challenge);
+    expect(unpackChallenge(`XYZ.${packChallenge(challenge).split('.')[1]}`)).toBeNull();
+    expect(unpackChallenge(`${packChallenge(challenge)}.extra`)).toBeNull();
+  });
+
+  it('sends back the guesses of a decided game, and scores them against the real code', () => {
+    const state = play(['0123', '3941']);
+    expect(state.status).toBe('won');
+    const result = decodeChallengeResult(encodeChallengeResult(state)!)!;
+    expect(result).toEqual({ id: challenge.id, codes: ['0123', '3941'], durationMs: 2_000 });
+    expect(scoreChallengeResult(challenge, result)).toEqual({
+      guesses: [{ code: '0123', bulls: 0, cows: 2 }, { code: '3941', bulls: 4, cows: 0 }],
+      cracked: true,
+      durationMs: 2_000,
+    });
+  });
+
+  it('has no result until the game is decided', () => {
+    expect(encodeChallengeResult(play(['0123']))).toBeNull();
+  });
+
+  it('refuses results for another code or that break its rules', () => {
+    const result = { id: challenge.id, codes: ['0123'], durationMs: 10 };
+    expect(scoreChallengeResult(challenge, { ...result, id: '00000000' })).toBeNull();
+    expect(scoreChallengeResult(challenge, { ...result, codes: [] })).toBeNull();
+    expect(scoreChallengeResult(challenge, { ...result, codes: ['0012'] })).toBeNull();
+    expect(scoreChallengeResult(challenge, { ...result, codes: ['3941', '0123'] })).toBeNull();
+    expect(scoreChallengeResult(challenge, { ...result, codes: Array(11).fill('0123') })).toBeNull();
+    expect(scoreChallengeResult(challenge, result)?.cracked).toBe(false);
+  });
+
+  it('rejects damaged result strings', () => {
+    expect(decodeChallengeResult('!!!')).toBeNull();
+    expect(decodeChallengeResult(toBase64Url(`v2.${challenge.id}.10.0123`))).toBeNull();
+    expect(decodeChallengeResult(toBase64Url(`v1.${challenge.id}.-5.0123`))).toBeNull();
+    expect(decodeChallengeResult(toBase64Url('v1.nothex!!.10.0123'))).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import type { GameState, Guess } from './game';
+import { GameRules } from './rules';
+import { Rng, defaultRng } from './rng';
+import { calculateFeedback, isValidCode } from './code';
+import { decodeSharedGame, encodeSharedGame, fromBase64Url, toBase64Url } from './replay';
+
+// --- Remote Challenges ---
+// Instead of handing the device over, a player sets a code for a friend somewhere else.
+// The code leaves as a link (the app seals it before sharing), the friend plays it and
+// sends back a result string, and the setter's app scores that result against its own
+// copy of the code, so the friend can't misreport the feedback.
+
+export interface Challenge {
+  id: string; // Ties a returned result to the code it was played against
+  rules: GameRules;
+  secret: string;
+}
+
+// What the friend sends back: their guesses, not the feedback (that is scored again on arrival)
+export interface ChallengeResult {
+  id: string;
+  codes: string[];
+  durationMs: number;
+}
+
+export interface ChallengeReport {
+  guesses: Guess[];
+  cracked: boolean;
+  durationMs: number;
+}
+
+const ID_LENGTH = 8;
+const RESULT_VERSION = 1;
+
+const isChallengeId = (id: unknown): id is string => typeof id === 'string' && new RegExp(`^[0-9a-f]{${ID_LENGTH}}$`).test(id);
+
+export const createChallengeId = (rng: Rng = defaultRng) =>
+  Array.from({ length: ID_LENGTH }, () => Math.floor(rng() * 16).toString(16)).join('');
+
+// "<id>.<shared challenge>": the text that gets sealed into a link
+export const packChallenge = ({ id, rules, secret }: Challenge) => `${id}.${encodeSharedGame({ kind: 'challenge', rules, secret })}`;
+
+export const unpackChallenge = (text: string): Challenge | null => {
+  const [id, payload, ...rest] = text.split('.');
+  const shared = payload && rest.length === 0 ? decodeSharedGame(payload) : null;
+  if (!isChallengeId(id) || shared?.kind !== 'challenge') return null;
+  return { id, rules: shared.rules, secret: shared.secret };
+};
+
+// The result string for a decided challenge game, or null for any other game
+export const encodeChallengeResult = (state: GameState): string | null => {
+  if (state.mode !== 'challenge' || !state.challengeId || state.startedAt === null || state.finishedAt === null) return null;
+  const fields = [`v${RESULT_VERSION}`, state.challengeId, state.finishedAt - state.startedAt, ...state.guesses.map((g) => g.code)];
+  return toBase64Url(fields.join('.'));
+};
+
+export const decodeChallengeResult = (text: string): ChallengeResult | null => {
+  let fields: string[];
+  try {
+    fields = fromBase64Url(text.trim()).split('.');
+  } catch {
+    return null;
+  }
+  const [tag, id, duration, ...codes] = fields;
+  const durationMs = Number(duration);
+  if (tag !== `v${RESULT_VERSION}` || !isChallengeId(id) || !Number.isInteger(durationMs) || durationMs < 0) return null;
+  return { id, codes, durationMs };
+};
+
+// The friend's guesses scored against the setter's copy of the code,
+// or null if the result belongs to another code or breaks its rules
+export const scoreChallengeResult = (challenge: Challenge, result: ChallengeResult): ChallengeReport | null => {
+  const { rules, secret } = challenge;
+  if (result.id !== challenge.id || result.codes.length === 0 || result.codes.length > rules.maxAttempts) return null;
+  if (!result.codes.every((code) => isValidCode(rules, code)) || result.codes.slice(0, -1).includes(secret)) return null;
+  const guesses = result.codes.map((code) => ({ code, ...calculateFeedback(secret, code) }));
+  return { guesses, cracked: guesses[guesses.length - 1].code === secret, durationMs: result.durationMs };
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { BLITZ_LIMITS, MARATHON_MS, MarathonState, createClock, pauseClock, resumeClock, runHints, timeLeft } from './clock';
+import { GameAction, GameState, createGameReducer, createInitialState } from './game';
+import { DEFAULT_RULES } from './rules';
+import { createRng } from './rng';
+
+const run = (actions: GameAction[], state: GameState = createInitialState(DEFAULT_RULES)) =>
+  actions.reduce(createGameReducer(createRng(1)), state);
+
+const blitz = (timer: 'game' | 'guess'): GameAction => ({ type: 'start', mode: 'blitz', rules: DEFAULT_RULES, timer, at: 0 });
+const guess = (code: string, at: number): GameAction => ({ type: 'submit', code, at });
+
+describe('clock', () => {
+  it('counts down while running and holds while paused', () => {
+    let clock = createClock(10_000, false, 0);
+    expect(timeLeft(clock, 4_000)).toBe(6_000);
+    clock = pauseClock(clock, 4_000);
+    expect(timeLeft(clock, 60_000)).toBe(6_000);
+    expect(pauseClock(clock, 5_000)).toBe(clock);
+    clock = resumeClock(clock, 60_000);
+    expect(timeLeft(clock, 61_000)).toBe(5_000);
+    expect(resumeClock(clock, 62_000)).toBe(clock);
+    expect(timeLeft(clock, 99_000)).toBe(0);
+  });
+
+  it('treats marathon saves from before run hints as having none', () => {
+    expect(runHints({ solved: 2 } as MarathonState)).toEqual([]);
+  });
+});
+
+describe('blitz', () => {
+  it('loses the game once its clock runs out, and ignores a guess that arrives too late', () => {
+    const state = run([blitz('game'), guess('5678', 1_000)]);
+    expect(run([{ type: 'tick', at: BLITZ_LIMITS.game - 1 }], state)).toBe(state);
+    const late = run([guess('1234', BLITZ_LIMITS.game + 1)], state);
+    expect(late.status).toBe('lost');
+    expect(late.guesses).toHaveLength(1);
+    expect(late.clock!.runningSince).toBeNull();
+  });
+
+  it('gives every guess the full limit again with a per-guess timer', () => {
+    const state = run([blitz('guess'), guess('5678', 20_000)]);
+    expect(timeLeft(state.clock!, 20_000)).toBe(BLITZ_LIMITS.guess);
+    expect(run([{ type: 'tick', at: 45_000 }], state).status).toBe('playing');
+    expect(run([{ type: 'tick', at: 50_000 }], state).status).toBe('lost');
+  });
+
+  it('does not run the clock in the background', () => {
+    const state = run([blitz('game'), { type: 'pause', at: 1_000 }, { type: 'tick', at: BLITZ_LIMITS.game * 2 }]);
+    expect(state.status).toBe('playing');
+    const resumed = run([{ type: 'resume', at: BLITZ_LIMITS.game * 2 }], state);
+    expect(timeLeft(resumed.clock!, BLITZ_LIMITS.game * 2)).toBe(BLITZ_LIMITS.game - 1_000);
+  });
+
+  it('stops the clock when the code is cracked', () => {
+    const started = run([blitz('game')]);
+    const state = run([guess(started.secret, 5_000)], started);
+    expect(state.status).toBe('won');
+    expect(timeLeft(state.clock!, 60_000)).toBe(BLITZ_LIMITS.game - 5_000);
+  });
+});
+
+describe('marathon', () => {
+  it('deals a new code after each crack and ends when time is up', () => {
+    let state = run([{ type: 'start', mode: 'marathon', rules: DEFAULT_RULES, at: 0 }]);
+    const first = state.secret;
+    state = run([guess(first, 1_000)], state);
+    expect(state.status).toBe('playing');
+    expect(state.marathon!.solved).toBe(1);
+    expect(state.guesses).toEqual([]);
+
+    const over = run([{ type: 'tick', at: MARATHON_MS }], state);
+    expect(over.status).toBe('won');
+    expect(over.finishedAt).toBe(MARATHON_MS);
+  });
+
+  it('counts a run without a single crack as a loss', () => {
+    const state = run([{ type: 'start', mode: 'marathon', rules: DEFAULT_RULES, at: 0 }, { type: 'tick', at: MARATHON_MS }]);
+    expect(state.status).toBe('lost');
+  });
+});
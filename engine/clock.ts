@@ -0,0 +1,83 @@
+import type { GameState } from './game';
+import type { HintKind } from './hints';
+import { Rng } from './rng';
+import { generateSecretCode } from './code';
+
+// --- Timed Modes ---
+// Blitz: a countdown for the whole game, or one that restarts with every guess.
+// Marathon: crack as many codes in a row as the clock allows; a new code is dealt after each crack.
+// The clock only stores time left and when it last started running, so pausing while the
+// app is in the background is just a matter of folding the elapsed time into `leftMs`.
+
+export type BlitzTimer = 'game' | 'guess';
+
+export interface Clock {
+  limitMs: number;
+  perGuess: boolean; // Blitz per guess: the full limit again after every guess
+  leftMs: number; // Time left as of `runningSince`
+  runningSince: number | null; // Epoch ms; null while paused or stopped
+}
+
+export interface MarathonState {
+  solved: number;
+  // Hints taken on codes already cracked; their clues are cleared with each new code
+  hints: HintKind[];
+}
+
+export const BLITZ_LIMITS: Record<BlitzTimer, number> = {
+  game: 3 * 60_000,
+  guess: 30_000,
+};
+export const MARATHON_MS = 5 * 60_000;
+
+export const createClock = (limitMs: number, perGuess: boolean, at: number): Clock => ({
+  limitMs,
+  perGuess,
+  leftMs: limitMs,
+  runningSince: at,
+});
+
+export const timeLeft = (clock: Clock, at: number) =>
+  clock.runningSince === null ? clock.leftMs : Math.max(0, clock.leftMs - Math.max(0, at - clock.runningSince));
+
+export const pauseClock = (clock: Clock, at: number): Clock =>
+  clock.runningSince === null ? clock : { ...clock, leftMs: timeLeft(clock, at), runningSince: null };
+
+export const resumeClock = (clock: Clock, at: number): Clock =>
+  clock.runningSince !== null ? clock : { ...clock, runningSince: at };
+
+// Saves from before hints were carried across codes have none
+export const runHints = (marathon: MarathonState): HintKind[] => marathon.hints ?? [];
+
+// Stops the clock on a decided game. A marathon run is a win if at least one code was cracked.
+const endRun = (state: GameState, at: number): GameState => {
+  const status = state.marathon ? (state.marathon.solved > 0 ? 'won' : 'lost') : state.status;
+  return { ...state, status, finishedAt: at, clock: state.clock && pauseClock(state.clock, at) };
+};
+
+// 'tick': ends the game once its clock has run out
+export const expireClock = (state: GameState, at: number): GameState => {
+  if (state.status !== 'playing' || !state.clock || timeLeft(state.clock, at) > 0) return state;
+  return endRun({ ...state, status: 'lost' }, at);
+};
+
+// After a timed guess has been scored: restart a per-guess clock, deal the next
+// marathon code, or stop the clock once the game is over
+export const settleTimedGuess = (state: GameState, at: number, rng: Rng): GameState => {
+  const { clock, marathon } = state;
+  if (!clock) return state;
+  if (marathon && state.status === 'won') {
+    return {
+      ...state,
+      status: 'playing',
+      secret: generateSecretCode(state.rules, rng),
+      guesses: [],
+      // The hint budget lasts the whole run, but clues describe the old code
+      hints: { ...state.hints, clues: [] },
+      finishedAt: null,
+      marathon: { solved: marathon.solved + 1, hints: [...runHints(marathon), ...state.hints.clues.map((c) => c.kind)] },
+    };
+  }
+  if (state.status !== 'playing') return endRun(state, at);
+  return clock.perGuess ? { ...state, clock: createClock(clock.limitMs, true, at) } : state;
+};
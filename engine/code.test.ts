@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFeedback, classifySymbols, generateSecretCode, isValidCode } from './code';
+import { DEFAULT_RULES } from './rules';
+import { createRng } from './rng';
+
+describe('calculateFeedback', () => {
+  it('counts bulls and cows for unique codes', () => {
+    expect(calculateFeedback('1234', '1234')).toEqual({ bulls: 4, cows: 0 });
+    expect(calculateFeedback('1234', '4321')).toEqual({ bulls: 0, cows: 4 });
+    expect(calculateFeedback('1234', '1243')).toEqual({ bulls: 2, cows: 2 });
+    expect(calculateFeedback('1234', '5678')).toEqual({ bulls: 0, cows: 0 });
+  });
+
+  it('matches each secret symbol at most once when the guess repeats it', () => {
+    expect(calculateFeedback('1234', '1111')).toEqual({ bulls: 1, cows: 0 });
+    expect(calculateFeedback('1234', '2222')).toEqual({ bulls: 1, cows: 0 });
+    expect(calculateFeedback('1234', '5511')).toEqual({ bulls: 0, cows: 1 });
+  });
+
+  it('matches repeated secret symbols against repeated guess symbols', () => {
+    expect(calculateFeedback('1122', '2211')).toEqual({ bulls: 0, cows: 4 });
+    expect(calculateFeedback('1122', '1212')).toEqual({ bulls: 2, cows: 2 });
+    expect(calculateFeedback('1123', '3111')).toEqual({ bulls: 1, cows: 2 });
+    expect(calculateFeedback('AABB', 'ABBB')).toEqual({ bulls: 3, cows: 0 });
+  });
+
+  it('agrees with classifySymbols', () => {
+    const rules = { ...DEFAULT_RULES, allowDuplicates: true };
+    const rng = createRng(3);
+    for (let i = 0; i < 200; i++) {
+      const secret = generateSecretCode(rules, rng);
+      const guess = generateSecretCode(rules, rng);
+      const marks = classifySymbols(secret, guess);
+      expect(calculateFeedback(secret, guess)).toEqual({
+        bulls: marks.filter((m) => m === 'bull').length,
+        cows: marks.filter((m) => m === 'cow').length,
+      });
+    }
+  });
+});
+
+describe('isValidCode', () => {
+  it('checks length, alphabet and repeats', () => {
+    expect(isValidCode(DEFAULT_RULES, '0123')).toBe(true);
+    expect(isValidCode(DEFAULT_RULES, '012')).toBe(false);
+    expect(isValidCode(DEFAULT_RULES, '012A')).toBe(false);
+    expect(isValidCode(DEFAULT_RULES, '0113')).toBe(false);
+    expect(isValidCode({ ...DEFAULT_RULES, allowDuplicates: true }, '0113')).toBe(true);
+  });
+});
@@ -0,0 +1,66 @@
+import { ALPHABETS, GameRules } from './rules';
+import { Rng, defaultRng } from './rng';
+
+export type SymbolMark = 'bull' | 'cow' | 'miss';
+
+export interface Feedback {
+  bulls: number;
+  cows: number;
+}
+
+export const generateSecretCode = (rules: GameRules, rng: Rng = defaultRng): string => {
+  const symbols = [...ALPHABETS[rules.alphabet].symbols];
+  let code = '';
+  for (let i = 0; i < rules.codeLength; i++) {
+    const randomIndex = Math.floor(rng() * symbols.length);
+    code += symbols[randomIndex];
+    if (!rules.allowDuplicates) symbols.splice(randomIndex, 1);
+  }
+  return code;
+};
+
+// Multiset scoring: every secret symbol can be matched at most once, so
+// repeated symbols in the guess don't each count as a cow.
+export const calculateFeedback = (secret: string, guess: string): Feedback => {
+  let bulls = 0;
+  const unmatched: Record<string, number> = {};
+  for (let i = 0; i < secret.length; i++) {
+    if (guess[i] === secret[i]) {
+      bulls++;
+    } else {
+      unmatched[secret[i]] = (unmatched[secret[i]] ?? 0) + 1;
+    }
+  }
+  let cows = 0;
+  for (let i = 0; i < secret.length; i++) {
+    if (guess[i] !== secret[i] && unmatched[guess[i]] > 0) {
+      cows++;
+      unmatched[guess[i]]--;
+    }
+  }
+  return { bulls, cows };
+};
+
+// Per-position classification of a guess, using the same multiset rules as calculateFeedback
+export const classifySymbols = (secret: string, guess: string): SymbolMark[] => {
+  const unmatched: Record<string, number> = {};
+  for (let i = 0; i < secret.length; i++) {
+    if (guess[i] !== secret[i]) unmatched[secret[i]] = (unmatched[secret[i]] ?? 0) + 1;
+  }
+  return guess.split('').map((symbol, i) => {
+    if (symbol === secret[i]) return 'bull';
+    if (unmatched[symbol] > 0) {
+      unmatched[symbol]--;
+      return 'cow';
+    }
+    return 'miss';
+  });
+};
+
+// A complete, well-formed code under the given rules
+export const isValidCode = (rules: GameRules, code: string): boolean => {
+  if (code.length !== rules.codeLength) return false;
+  const symbols = ALPHABETS[rules.alphabet].symbols;
+  if (!code.split('').every((c) => symbols.includes(c))) return false;
+  return rules.allowDuplicates || new Set(code).size === code.length;
+};
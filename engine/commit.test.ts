@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { commitToCode, createSalt, sha256, verifyReveal } from './commit';
+import { DEFAULT_RULES } from './rules';
+
+describe('sha256', () => {
+  it('matches known digests', () => {
+    expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('createSalt', () => {
+  it('is 16 random bytes', () => {
+    expect(createSalt()).toMatch(/^[0-9a-f]{32}$/);
+    expect(createSalt()).not.toBe(createSalt());
+  });
+});
+
+describe('verifyReveal', () => {
+  const salt = createSalt();
+  const commitment = commitToCode('1234', salt);
+  const guesses = [{ code: '1243', bulls: 2, cows: 2 }];
+
+  it('verifies an honest reveal', () => {
+    expect(verifyReveal(DEFAULT_RULES, { commitment, secret: '1234', salt }, guesses)).toBe('verified');
+  });
+
+  it('catches a swapped code, a wrong salt and false feedback', () => {
+    expect(verifyReveal(DEFAULT_RULES, { commitment, secret: '1243', salt }, [])).toBe('tampered');
+    expect(verifyReveal(DEFAULT_RULES, { commitment, secret: '1234', salt: createSalt() }, [])).toBe('tampered');
+    expect(verifyReveal(DEFAULT_RULES, { commitment, secret: '1234', salt }, [{ code: '1243', bulls: 1, cows: 3 }])).toBe('tampered');
+  });
+
+  it('waits until both halves are known', () => {
+    expect(verifyReveal(DEFAULT_RULES, { commitment: '', secret: '1234', salt }, [])).toBe('pending');
+  });
+});
@@ -0,0 +1,99 @@
+import type { Guess } from './game';
+import { GameRules } from './rules';
+import { calculateFeedback, isValidCode } from './code';
+
+// --- Commit-Reveal ---
+// When a player sets a code they publish sha256(salt:code). The salt stays private
+// until the round is over, so the short code can't be brute-forced from the hash.
+// Once the code is revealed, anyone can check it against the commitment and
+// re-score every guess made against it.
+// Salts come from the platform's CSPRNG, never from the game's Rng: a seeded or
+// Math.random() salt could be predicted, and the code brute-forced after all.
+
+export type KeyCheck = 'verified' | 'tampered' | 'pending';
+
+const SALT_BYTES = 16;
+
+// SHA-256 round constants: fractional parts of the cube roots of the first 64 primes
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+// Synchronous SHA-256 (WebCrypto's digest is async, and the reducer has to stay synchronous)
+export const sha256 = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  // Pad to a multiple of 64 bytes: 0x80, zeros, then the bit length as a 64-bit big-endian integer
+  const padded = new Uint8Array(Math.ceil((bytes.length + 9) / 64) * 64);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(padded.length - 4, bytes.length * 8);
+
+  const h = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i]) >>> 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+    h[0] += a;
+    h[1] += b;
+    h[2] += c;
+    h[3] += d;
+    h[4] += e;
+    h[5] += f;
+    h[6] += g;
+    h[7] += hh;
+  }
+  return Array.from(h, (word) => word.toString(16).padStart(8, '0')).join('');
+};
+
+export const createSalt = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(SALT_BYTES)), (b) => b.toString(16).padStart(2, '0')).join('');
+
+export const commitToCode = (secret: string, salt: string): string => sha256(`${salt}:${secret}`);
+
+// Short form of a commitment for display
+export const commitmentFingerprint = (commitment: string) => commitment.slice(0, 8).toUpperCase();
+
+// Checks a revealed code against its commitment, and every guess made against it.
+// 'pending' until both the commitment and the reveal are known.
+export const verifyReveal = (
+  rules: GameRules,
+  reveal: { commitment: string; secret: string; salt: string },
+  guesses: Guess[],
+): KeyCheck => {
+  const { commitment, secret, salt } = reveal;
+  if (!commitment || !secret || !salt) return 'pending';
+  if (!isValidCode(rules, secret) || commitToCode(secret, salt) !== commitment) return 'tampered';
+  const honest = guesses.every((g) => {
+    const { bulls, cows } = calculateFeedback(secret, g.code);
+    return g.bulls === bulls && g.cows === cows;
+  });
+  return honest ? 'verified' : 'tampered';
+};
@@ -0,0 +1,34 @@
+import { DEFAULT_RULES, GameRules } from './rules';
+import { createRng, hashSeed } from './rng';
+import { generateSecretCode } from './code';
+import type { Guess } from './game';
+
+// --- Daily Cipher ---
+// One puzzle per calendar day, derived from the date so every player gets the same secret.
+
+export const DAILY_RULES: GameRules = DEFAULT_RULES;
+
+// Puzzle #1 was played on this day
+const DAILY_EPOCH = Date.UTC(2026, 0, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local calendar date as YYYY-MM-DD
+export const dailyKey = (date: Date): string =>
+  `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+
+export const dailyNumber = (key: string): number => {
+  const [year, month, day] = key.split('-').map(Number);
+  return Math.floor((Date.UTC(year, month - 1, day) - DAILY_EPOCH) / DAY_MS) + 1;
+};
+
+export const dailySecret = (key: string): string =>
+  generateSecretCode(DAILY_RULES, createRng(hashSeed(`daily:${key}`)));
+
+// Spoiler-free result, one emoji row per guess: 🟩 bull, 🟨 cow, ⬛ miss
+export const buildShareGrid = (key: string, guesses: Guess[], rules: GameRules, won: boolean): string => {
+  const score = won ? `${guesses.length}/${rules.maxAttempts}` : `X/${rules.maxAttempts}`;
+  const rows = guesses.map((g) =>
+    '🟩'.repeat(g.bulls) + '🟨'.repeat(g.cows) + '⬛'.repeat(rules.codeLength - g.bulls - g.cows)
+  );
+  return [`Daily Cipher #${dailyNumber(key)} ${score}`, ...rows].join('\n');
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { evadeGuess, randomConsistentCode } from './evil';
+import { calculateFeedback, generateSecretCode, isValidCode } from './code';
+import { GameAction, createGameReducer, createInitialState } from './game';
+import { DEFAULT_RULES, GameRules } from './rules';
+import { filterCandidates } from './solver';
+import { createRng } from './rng';
+
+const rules: GameRules = DEFAULT_RULES;
+// Too many codes to enumerate: the CPU works from samples
+const large: GameRules = { ...rules, alphabet: 'hex', codeLength: 8, allowDuplicates: true };
+
+describe('evadeGuess', () => {
+  it('always answers with a code consistent with every earlier answer', () => {
+    const rng = createRng(9);
+    let secret = generateSecretCode(rules, rng);
+    const guesses = [];
+    for (const code of ['0123', '4567', '8901', '2345']) {
+      secret = evadeGuess(rules, guesses, secret, code, rng);
+      guesses.push({ code, ...calculateFeedback(secret, code) });
+      expect(filterCandidates([secret], guesses)).toEqual([secret]);
+    }
+  });
+
+  it('only concedes a guess once nothing else is left', () => {
+    const guesses = [{ code: '0123', bulls: 4, cows: 0 }];
+    expect(evadeGuess(rules, [], '4567', '0123', createRng(1))).not.toBe('0123');
+    expect(evadeGuess(rules, guesses, '0123', '0123', createRng(1))).toBe('0123');
+  });
+
+  it('stays consistent from samples where the space is too large to enumerate', () => {
+    const rng = createRng(2);
+    let secret = generateSecretCode(large, rng);
+    const guesses = [];
+    for (const code of ['01234567', '89ABCDEF', '00112233']) {
+      secret = evadeGuess(large, guesses, secret, code, rng);
+      guesses.push({ code, ...calculateFeedback(secret, code) });
+      expect(filterCandidates([secret], guesses)).toEqual([secret]);
+    }
+  });
+});
+
+describe('randomConsistentCode', () => {
+  it('finds a valid code that agrees with every guess', () => {
+    const guesses = [{ code: '01234567', bulls: 2, cows: 1 }, { code: '89ABCDEF', bulls: 0, cows: 3 }];
+    const code = randomConsistentCode(large, guesses, createRng(6), 100_000)!;
+    expect(isValidCode(large, code)).toBe(true);
+    expect(filterCandidates([code], guesses)).toEqual([code]);
+  });
+
+  it('gives up on contradictory answers', () => {
+    const guesses = [{ code: '0123', bulls: 4, cows: 0 }, { code: '4567', bulls: 1, cows: 0 }];
+    expect(randomConsistentCode(rules, guesses, createRng(6))).toBeNull();
+  });
+});
+
+describe('evil games', () => {
+  it('runs the whole game without a fixed secret, and reveals one that fits every answer', () => {
+    const reduce = createGameReducer(createRng(8));
+    let state = reduce(createInitialState(rules), { type: 'start', mode: 'evil', rules, at: 0 });
+    expect(state.hints.budget).toBe(0);
+    const codes = ['0123', '4567', '8901', '2345', '6789', '1357', '2468', '0369', '1470', '2581'];
+    state = codes.reduce((s, code, i) => reduce(s, { type: 'submit', code, at: i + 1 } as GameAction), state);
+    expect(state.status).not.toBe('playing');
+    expect(filterCandidates([state.secret], state.guesses)).toEqual([state.secret]);
+  });
+});
@@ -0,0 +1,114 @@
+import { ALPHABETS, GameRules } from './rules';
+import { Rng, defaultRng } from './rng';
+import type { Guess } from './game';
+import { feedbackIndex, remainingCandidates } from './solver';
+
+// --- Evil CPU ---
+// Never commits to a secret. Before answering a guess it splits every code still
+// consistent with its earlier answers by the feedback that guess would get, and
+// answers with the biggest group. The "secret" is just one member of that group,
+// so it only becomes fixed once a single candidate is left, and whatever is revealed
+// at the end agrees with every answer given.
+// Code spaces too large to enumerate are estimated from random consistent codes,
+// found by a depth-first search that prunes on the bulls and matches still reachable.
+
+// Random consistent codes drawn per answer, and the search effort each may take
+const EVIL_SAMPLES = 200;
+const SAMPLE_NODE_BUDGET = 2_000;
+
+const shuffled = <T>(items: T[], rng: Rng): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// A code agreeing with every guess, built one symbol at a time in random order,
+// or null if the search gives up after `budget` nodes
+export const randomConsistentCode = (rules: GameRules, guesses: Guess[], rng: Rng = defaultRng, budget = SAMPLE_NODE_BUDGET): string | null => {
+  const { codeLength: length } = rules;
+  const symbols = ALPHABETS[rules.alphabet].symbols;
+  const targets = guesses.map((g) => {
+    const counts: Record<string, number> = {};
+    for (const s of g.code) counts[s] = (counts[s] ?? 0) + 1;
+    return { code: g.code, counts, bulls: g.bulls, matches: g.bulls + g.cows };
+  });
+  // Per guess: bulls and symbol matches (bulls + cows) of the prefix built so far
+  const bulls = new Array<number>(targets.length).fill(0);
+  const matches = new Array<number>(targets.length).fill(0);
+  const used: Record<string, number> = {};
+  const code: string[] = [];
+  let nodes = 0;
+
+  const search = (position: number): boolean => {
+    if (position === length) return true;
+    const left = length - position - 1;
+    for (const symbol of shuffled(symbols, rng)) {
+      if (++nodes > budget) return false;
+      if (!rules.allowDuplicates && used[symbol]) continue;
+      // Place the symbol, noting which guesses gained a bull or a match from it
+      const bulled = targets.map((t) => t.code[position] === symbol);
+      const matched = targets.map((t) => (used[symbol] ?? 0) < (t.counts[symbol] ?? 0));
+      targets.forEach((_, i) => {
+        if (bulled[i]) bulls[i]++;
+        if (matched[i]) matches[i]++;
+      });
+      used[symbol] = (used[symbol] ?? 0) + 1;
+      code.push(symbol);
+
+      const feasible = targets.every((t, i) =>
+        bulls[i] <= t.bulls && bulls[i] + left >= t.bulls && matches[i] <= t.matches && matches[i] + left >= t.matches);
+      if (feasible && search(position + 1)) return true;
+
+      code.pop();
+      used[symbol]--;
+      targets.forEach((_, i) => {
+        if (bulled[i]) bulls[i]--;
+        if (matched[i]) matches[i]--;
+      });
+      if (nodes > budget) return false;
+    }
+    return false;
+  };
+
+  return search(0) ? code.join('') : null;
+};
+
+// The codes the CPU could still be holding: all of them where the space can be
+// enumerated (narrowed from the last answer's set by the newest answer only),
+// otherwise a sample (always including the current secret, which is consistent)
+const candidatePool = (rules: GameRules, guesses: Guess[], secret: string, rng: Rng): string[] => {
+  const codes = remainingCandidates(rules, guesses);
+  if (codes) return codes;
+  const sample = new Set([secret]);
+  for (let i = 0; i < EVIL_SAMPLES; i++) {
+    const code = randomConsistentCode(rules, guesses, rng);
+    if (code) sample.add(code);
+  }
+  return [...sample];
+};
+
+// The secret to answer `guess` with: a member of the largest feedback group among the
+// remaining candidates. Ties go to the group with fewer bulls, then fewer cows, so the
+// guess itself only wins once nothing else is left.
+export const evadeGuess = (rules: GameRules, guesses: Guess[], secret: string, guess: string, rng: Rng = defaultRng): string => {
+  const groups = new Map<number, string[]>();
+  for (const code of candidatePool(rules, guesses, secret, rng)) {
+    const index = feedbackIndex(code, guess);
+    const group = groups.get(index);
+    if (group) group.push(code);
+    else groups.set(index, [code]);
+  }
+  let best: string[] = [];
+  let bestIndex = Infinity;
+  for (const [index, group] of groups) {
+    if (group.length > best.length || (group.length === best.length && index < bestIndex)) {
+      best = group;
+      bestIndex = index;
+    }
+  }
+  // Nothing consistent left (a hand-edited save): keep the current secret
+  return best.length > 0 ? best[Math.floor(rng() * best.length)] : secret;
+};
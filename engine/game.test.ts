@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import { GameAction, GameState, createGameReducer, createInitialState } from './game';
+import { DEFAULT_RULES, GameRules } from './rules';
+import { createRng } from './rng';
+import { createGameRecords } from './stats';
+
+const rules: GameRules = { ...DEFAULT_RULES, maxAttempts: 5 };
+
+const run = (actions: GameAction[], state: GameState = createInitialState(rules)) => {
+  const reduce = createGameReducer(createRng(1));
+  return actions.reduce(reduce, state);
+};
+
+const start = (secret = '1234'): GameAction => ({ type: 'start', mode: 'solo', rules, secret, at: 0 });
+const guess = (code: string, at = 1): GameAction => ({ type: 'submit', code, at });
+
+describe('solo games', () => {
+  it('starts at menu and goes straight to playing', () => {
+    expect(createInitialState(rules).status).toBe('menu');
+    const state = run([start()]);
+    expect(state.status).toBe('playing');
+    expect(state.secret).toBe('1234');
+    expect(state.startedAt).toBe(0);
+  });
+
+  it('is won by guessing the code', () => {
+    const state = run([start(), guess('5678'), guess('1234', 9)]);
+    expect(state.status).toBe('won');
+    expect(state.guesses.map((g) => [g.bulls, g.cows])).toEqual([[0, 0], [4, 0]]);
+    expect(state.finishedAt).toBe(9);
+  });
+
+  it('is lost once the attempts run out', () => {
+    const state = run([start(), ...['5678', '5679', '5689', '5789', '6789'].map((c) => guess(c))]);
+    expect(state.status).toBe('lost');
+    expect(state.guesses).toHaveLength(rules.maxAttempts);
+    // A decided game takes no more guesses
+    expect(run([guess('1234')], state)).toBe(state);
+  });
+
+  it('builds guesses from typed input and rejects bad symbols', () => {
+    let state = run([start(), ...'12'.split('').map((symbol) => ({ type: 'input', symbol }) as GameAction)]);
+    expect(state.input).toBe('12');
+    state = run([{ type: 'input', symbol: '1' }], state);
+    expect(state.error).toBe('duplicate');
+    state = run([{ type: 'input', symbol: 'X' }], state);
+    expect(state.error).toBe('invalid-symbol');
+    expect(state.errorCount).toBe(2);
+    state = run([{ type: 'submit', at: 1 }], state);
+    expect(state.error).toBe('incomplete');
+    expect(state.guesses).toHaveLength(0);
+    state = run([{ type: 'delete' }, { type: 'input', symbol: '9' }], state);
+    expect(state.input).toBe('19');
+  });
+
+  it('goes back to the menu on reset', () => {
+    expect(run([start(), guess('5678'), { type: 'reset' }]).status).toBe('menu');
+  });
+});
+
+describe('versus matches', () => {
+  const players: [string, string] = ['Ada', 'Bo'];
+  const setCode = (code: string): GameAction => ({ type: 'submit', code, salt: `salt-${code}`, at: 1 });
+
+  it('goes setup → handover → setup → handover → playing, and alternates turns until decided', () => {
+    let state = run([{ type: 'start', mode: 'multiplayer', rules, players, at: 0 }]);
+    expect(state.status).toBe('setup');
+    expect(state.match?.turn).toBe(0);
+
+    state = run([setCode('1234')], state);
+    expect(state.status).toBe('handover');
+    expect(state.match?.players[0].secret).toBe('1234');
+
+    state = run([{ type: 'takeOver', at: 1 }], state);
+    expect(state.status).toBe('setup');
+    state = run([setCode('5678')], state);
+    expect(state.status).toBe('handover');
+
+    // Ada guesses first, at Bo's code
+    state = run([{ type: 'takeOver', at: 2 }], state);
+    expect(state.status).toBe('playing');
+    expect(state.match?.turn).toBe(0);
+    expect(state.secret).toBe('5678');
+
+    state = run([guess('5678', 3)], state);
+    // Bo still gets an equal number of attempts
+    expect(state.status).toBe('handover');
+    expect(state.match?.turn).toBe(1);
+
+    state = run([{ type: 'takeOver', at: 4 }, guess('9012', 5)], state);
+    expect(state.status).toBe('won');
+    expect(state.match?.roundWinner).toBe(0);
+    expect(state.match?.scores).toEqual([1, 0]);
+  });
+
+  it('seals each code with the salt it was set with, and needs one to set it', () => {
+    const setup = run([{ type: 'start', mode: 'multiplayer', rules, players, at: 0 }]);
+    expect(run([guess('1234')], setup)).toBe(setup);
+    const sealed = run([setCode('1234')], setup).match!.players[0];
+    expect(sealed.salt).toBe('salt-1234');
+    expect(sealed.commitment).toBe(run([setCode('1234')], setup).match!.players[0].commitment);
+  });
+});
+
+describe('hints', () => {
+  it('plays a narrowing hint on the final attempt and ends the game', () => {
+    let state = run([start(), ...['5678', '5679', '5689', '5789'].map((c) => guess(c))]);
+    expect(state.status).toBe('playing');
+    state = run([{ type: 'hint', kind: 'narrow', at: 10 }], state);
+    expect(state.guesses).toHaveLength(rules.maxAttempts);
+    expect(['won', 'lost']).toContain(state.status);
+    expect(state.finishedAt).toBe(10);
+    expect(state.hints.clues.at(-1)?.kind).toBe('narrow');
+  });
+
+  it('takes a point hint before the final guess without spending the attempt', () => {
+    let state = run([start(), ...['5678', '5679', '5689', '5789'].map((c) => guess(c))]);
+    state = run([{ type: 'hint', kind: 'position', at: 10 }], state);
+    expect(state.status).toBe('playing');
+    expect(state.guesses).toHaveLength(rules.maxAttempts - 1);
+    const clue = state.hints.clues[0];
+    expect(clue.kind).toBe('position');
+
+    // The final guess still decides the game
+    const won = run([guess('1234', 11)], state);
+    expect(won.status).toBe('won');
+    const lost = run([guess('4321', 11)], state);
+    expect(lost.status).toBe('lost');
+    expect(lost.hints.clues).toEqual(state.hints.clues);
+  });
+
+  it('colors the final guess only while the game is still on', () => {
+    let state = run([start(), ...['5678', '5679', '5689', '5789'].map((c) => guess(c))]);
+    state = run([{ type: 'hint', kind: 'color', at: 10 }], state);
+    expect(state.guesses.at(-1)?.isRevealed).toBe(true);
+    // The same guess can't be colored twice
+    expect(run([{ type: 'hint', kind: 'color', at: 11 }], state).error).toBe('no-hint');
+  });
+
+  it('gives nothing once the game is over', () => {
+    const state = run([start(), ...['5678', '5679', '5689', '5789', '6789'].map((c) => guess(c))]);
+    expect(run([{ type: 'hint', kind: 'position', at: 11 }], state)).toBe(state);
+  });
+
+  it('spends points and refuses hints it cannot afford', () => {
+    let state = run([start(), guess('5678')]);
+    const budget = state.hints.budget;
+    state = run([{ type: 'hint', kind: 'position', at: 2 }], state);
+    expect(state.hints.spent).toBe(3);
+    const clue = state.hints.clues[0];
+    expect(clue.kind === 'position' && state.secret[clue.position]).toBe(clue.kind === 'position' && clue.symbol);
+    while (state.hints.spent + 3 <= budget) state = run([{ type: 'hint', kind: 'position', at: 3 }], state);
+    state = run([{ type: 'hint', kind: 'position', at: 4 }], state);
+    expect(state.error).toBe('no-hint');
+  });
+});
+
+describe('marathon runs', () => {
+  it('counts hints from every code in the run', () => {
+    let state = run([{ type: 'start', mode: 'marathon', rules, at: 0 }]);
+    state = run([{ type: 'hint', kind: 'absent', at: 1 }, guess(state.secret, 2)], state);
+    expect(state.status).toBe('playing');
+    expect(state.marathon).toEqual({ solved: 1, hints: ['absent'] });
+    expect(state.hints.clues).toHaveLength(0);
+
+    state = run([{ type: 'hint', kind: 'absent', at: 3 }, { type: 'tick', at: 10 * 60_000 }], state);
+    expect(state.status).toBe('won');
+    const [record] = createGameRecords(state);
+    expect(record.hintsUsed).toBe(2);
+    expect(record.hints).toEqual(['absent', 'absent']);
+  });
+});
@@ -0,0 +1,373 @@
+import { ALPHABETS, DEFAULT_RULES, GameRules } from './rules';
+import { Rng, defaultRng } from './rng';
+import { calculateFeedback, generateSecretCode, isValidCode } from './code';
+import { commitToCode } from './commit';
+import { createChallengeId } from './challenge';
+import { evadeGuess } from './evil';
+import { BreakerStrength, ReverseState, cpuTurn, createReverseState, scoreCpuGuess } from './reverse';
+import { canSolve } from './solver';
+import { HintKind, HintState, canAfford, createHintState, findClue, spendHint } from './hints';
+import {
+  BLITZ_LIMITS, BlitzTimer, Clock, MARATHON_MS, MarathonState, createClock, expireClock, pauseClock, resumeClock, settleTimedGuess,
+} from './clock';
+import { ConnectionEvent, OnlineState, createOnlineState, opponentConnection, receiveOnline, submitOnline } from './online';
+import { GameMessage } from './protocol';
+import { DEFAULT_PLAYER_NAMES, Match, PlayerIndex, advanceRound, createMatch, decideRound, matchWinner, opponentOf, roundStarter, updatePlayer } from './match';
+
+// --- Types ---
+export type GameMode = 'solo' | 'multiplayer' | 'daily' | 'online' | 'blitz' | 'marathon' | 'challenge' | 'evil' | 'reverse';
+// 'handover' doubles as "waiting for the opponent" online; 'disconnected' means the online opponent dropped out
+export type GameStatus = 'menu' | 'setup' | 'handover' | 'playing' | 'won' | 'lost' | 'disconnected';
+
+export interface Guess {
+  code: string;
+  bulls: number;
+  cows: number;
+  isRevealed?: boolean; // Colored symbol by symbol by a 'color' hint
+}
+
+// Why the last action was rejected
+export type InputError = 'incomplete' | 'duplicate' | 'invalid-symbol' | 'no-hint';
+
+// `secret`, `guesses` and `hints` always describe the board being played.
+// In versus they mirror the current player's board in `match` (and the opponent's secret).
+export interface GameState {
+  status: GameStatus;
+  mode: GameMode;
+  rules: GameRules;
+  secret: string;
+  input: string;
+  guesses: Guess[];
+  hints: HintState;
+  match: Match | null;
+  online: OnlineState | null;
+  // Blitz and Marathon only
+  clock: Clock | null;
+  marathon: MarathonState | null;
+  // Remote challenge only: the id the code was sent under and the result is reported under
+  challengeId: string | null;
+  // Reverse only: the CPU is guessing the player's code
+  reverse: ReverseState | null;
+  // Epoch ms when guessing began and when the game was decided
+  startedAt: number | null;
+  finishedAt: number | null;
+  error: InputError | null;
+  // Bumped on every rejection, so the UI can react to the same error twice in a row
+  errorCount: number;
+}
+
+// Actions that move the clock carry their own timestamp (`at`, epoch ms) so the reducer stays pure
+export type GameAction =
+  | {
+      type: 'start';
+      mode: GameMode;
+      rules: GameRules;
+      at: number;
+      secret?: string;
+      players?: [string, string];
+      bestOf?: number;
+      online?: { room: string; me: PlayerIndex }; // Required for mode 'online'
+      timer?: BlitzTimer; // Blitz: a clock for the whole game (default) or for each guess
+      challengeId?: string; // Challenge: the id of the code being played (with `secret`)
+      breaker?: BreakerStrength; // Reverse: how the CPU picks its guesses (default minimax)
+      manualScoring?: boolean; // Reverse: the player scores the CPU's guesses instead of setting a code
+    }
+  | { type: 'input'; symbol: string }
+  | { type: 'delete' }
+  | { type: 'fill'; code: string }
+  // `code` bypasses the typed input (solver, bots). `salt` seals a code set in a match (see commit.ts);
+  // it comes from the caller, since fresh randomness would make the reducer impure.
+  | { type: 'submit'; at: number; code?: string; salt?: string }
+  | { type: 'takeOver'; at: number } // The next player has the device after a handover
+  | { type: 'nextRound' }
+  | { type: 'remote'; message: GameMessage; at: number } // Online: from the opponent
+  | { type: 'opponentConnection'; event: ConnectionEvent }
+  | { type: 'flushOutbox'; count: number } // Online: the first `count` queued messages were sent
+  | { type: 'tick'; at: number } // Timed modes: ends the game if the clock has run out
+  | { type: 'pause'; at: number } // Timed modes: the app went to the background
+  | { type: 'resume'; at: number }
+  | { type: 'cpuGuess'; at: number } // Reverse: the CPU takes its turn
+  | { type: 'score'; bulls: number; cows: number; at: number } // Reverse, scored by hand: the answer to the CPU's guess
+  | { type: 'hint'; kind: HintKind; at: number; guess?: number } // `guess`: which guess a 'color' hint reveals
+  | { type: 'restore'; state: GameState } // Resume a previously saved game
+  | { type: 'reset' };
+
+export const createInitialState = (rules: GameRules = DEFAULT_RULES): GameState => ({
+  status: 'menu',
+  mode: 'solo',
+  rules,
+  secret: '',
+  input: '',
+  guesses: [],
+  hints: createHintState(rules),
+  match: null,
+  online: null,
+  clock: null,
+  marathon: null,
+  challengeId: null,
+  reverse: null,
+  startedAt: null,
+  finishedAt: null,
+  error: null,
+  errorCount: 0,
+});
+
+const reject = (state: GameState, error: InputError): GameState => ({
+  ...state,
+  error,
+  errorCount: state.errorCount + 1,
+});
+
+// In reverse mode the CPU does the guessing, so only the setup takes input
+const acceptsInput = (state: GameState) => state.status === 'setup' || (state.status === 'playing' && !state.reverse);
+
+// Versus: store a finished guessing turn on the player's board, then either
+// hand the device over or settle the round.
+const finishTurn = (state: GameState, match: Match, at: number): GameState => {
+  const spent = match.turnStartedAt === null ? 0 : Math.max(0, at - match.turnStartedAt);
+  const board = match.players[match.turn];
+  const played: Match = {
+    ...match,
+    players: updatePlayer(match, match.turn, {
+      guesses: state.guesses,
+      hints: state.hints,
+      timeMs: board.timeMs + spent,
+    }),
+    turnStartedAt: null,
+  };
+
+  const outcome = decideRound(played, state.rules);
+  if (!outcome) {
+    return { ...state, status: 'handover', match: { ...played, turn: opponentOf(match.turn) } };
+  }
+
+  const scores: Match['scores'] = [...played.scores];
+  if (outcome.winner !== null) scores[outcome.winner]++;
+  return {
+    ...state,
+    status: outcome.winner === null ? 'lost' : 'won',
+    finishedAt: at,
+    match: { ...played, scores, roundWinner: outcome.winner, decidedByTiebreak: outcome.tiebreak },
+  };
+};
+
+// Score a guess at the current board's secret (local games only)
+const scoreGuess = (state: GameState, code: string, at: number): GameState => {
+  const { bulls, cows } = calculateFeedback(state.secret, code);
+  const guesses = [...state.guesses, { code, bulls, cows, isRevealed: false }];
+  let status: GameStatus = 'playing';
+  if (bulls === state.rules.codeLength) {
+    status = 'won';
+  } else if (guesses.length >= state.rules.maxAttempts) {
+    status = 'lost';
+  }
+  if (state.match) return finishTurn({ ...state, guesses, input: '', error: null }, state.match, at);
+  const finishedAt = status === 'playing' ? null : at;
+  return { ...state, guesses, input: '', status, finishedAt, error: null };
+};
+
+const playGuess = (state: GameState, code: string, at: number, rng: Rng): GameState => {
+  // The evil CPU moves its secret before every answer
+  const board = state.mode === 'evil' ? { ...state, secret: evadeGuess(state.rules, state.guesses, state.secret, code, rng) } : state;
+  return board.clock ? settleTimedGuess(scoreGuess(board, code, at), at, rng) : scoreGuess(board, code, at);
+};
+
+// --- State Machine ---
+// menu → setup → handover → playing → won/lost (solo and daily skip straight to playing).
+// Versus loops setup → handover twice, then playing → handover for every turn until the
+// round is decided; nextRound starts the next round of the match.
+// Reverse goes from setup straight to playing (or skips setup when scored by hand).
+// A challenge setter stops at handover: the code leaves the device as a link instead,
+// and whoever opens it starts straight at playing.
+// Actions that don't apply to the current status leave the state untouched.
+export const createGameReducer = (rng: Rng = defaultRng) => (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'start': {
+      const fresh = { ...createInitialState(action.rules), mode: action.mode };
+      if (action.mode === 'online') {
+        if (!action.online) return state;
+        const match = createMatch(action.players ?? DEFAULT_PLAYER_NAMES, 1, action.rules);
+        return {
+          ...fresh,
+          status: 'setup',
+          match: { ...match, turn: action.online.me },
+          online: createOnlineState(action.online.room, action.online.me),
+        };
+      }
+      if (action.mode === 'blitz' || action.mode === 'marathon') {
+        const timer = action.timer ?? 'game';
+        return {
+          ...fresh,
+          status: 'playing',
+          startedAt: action.at,
+          secret: generateSecretCode(action.rules, rng),
+          clock: action.mode === 'blitz'
+            ? createClock(BLITZ_LIMITS[timer], timer === 'guess', action.at)
+            : createClock(MARATHON_MS, false, action.at),
+          marathon: action.mode === 'marathon' ? { solved: 0, hints: [] } : null,
+        };
+      }
+      if (action.mode === 'evil') {
+        // A hint would pin the code down, so the evil CPU gives none (trading an attempt for the solver's guess still works)
+        return {
+          ...fresh,
+          status: 'playing',
+          startedAt: action.at,
+          secret: generateSecretCode(action.rules, rng),
+          hints: { ...fresh.hints, budget: 0 },
+        };
+      }
+      if (action.mode === 'reverse') {
+        if (!canSolve(action.rules)) return state;
+        const reverse = createReverseState(action.breaker ?? 'minimax', action.manualScoring ?? false);
+        return reverse.manual ? { ...fresh, status: 'playing', startedAt: action.at, reverse } : { ...fresh, status: 'setup', reverse };
+      }
+      if (action.mode === 'challenge' && !action.secret) {
+        return { ...fresh, status: 'setup', challengeId: createChallengeId(rng) };
+      }
+      if (action.mode === 'multiplayer') {
+        return { ...fresh, status: 'setup', match: createMatch(action.players ?? DEFAULT_PLAYER_NAMES, action.bestOf ?? 1, action.rules) };
+      }
+      return {
+        ...fresh,
+        status: 'playing',
+        startedAt: action.at,
+        secret: action.secret ?? generateSecretCode(action.rules, rng),
+        challengeId: action.challengeId ?? null,
+      };
+    }
+
+    case 'input': {
+      if (!acceptsInput(state)) return state;
+      const { rules, input } = state;
+      if (!ALPHABETS[rules.alphabet].symbols.includes(action.symbol)) return reject(state, 'invalid-symbol');
+      if (input.length >= rules.codeLength) return state;
+      if (!rules.allowDuplicates && input.includes(action.symbol)) return reject(state, 'duplicate');
+      return { ...state, input: input + action.symbol, error: null };
+    }
+
+    case 'delete': {
+      if (!acceptsInput(state)) return state;
+      return { ...state, input: state.input.slice(0, -1), error: null };
+    }
+
+    case 'fill': {
+      if (!acceptsInput(state)) return state;
+      if (!isValidCode(state.rules, action.code)) return reject(state, 'invalid-symbol');
+      return { ...state, input: action.code, error: null };
+    }
+
+    case 'submit': {
+      if (!acceptsInput(state)) return state;
+      const code = action.code ?? state.input;
+      if (!isValidCode(state.rules, code)) return reject(state, 'incomplete');
+      if (state.online) return submitOnline(state, code, action.salt, action.at, rng);
+      // A guess that arrives after the clock ran out doesn't count
+      if (state.clock && expireClock(state, action.at) !== state) return expireClock(state, action.at);
+
+      // 1. SETUP MODE (a player sets their code)
+      if (state.status === 'setup') {
+        if (state.reverse) return { ...state, secret: code, input: '', status: 'playing', startedAt: action.at, error: null };
+        if (!state.match) return { ...state, secret: code, input: '', status: 'handover', error: null };
+        const { match } = state;
+        const { salt } = action;
+        if (!salt) return state;
+        // Seal the code: the commitment is public from now on, the salt stays with the code
+        const players = updatePlayer(match, match.turn, { secret: code, salt, commitment: commitToCode(code, salt) });
+        // Once both codes are set, the round's first guesser takes the device
+        const next = players[opponentOf(match.turn)].secret ? roundStarter(match.round) : opponentOf(match.turn);
+        return { ...state, input: '', status: 'handover', error: null, match: { ...match, players, turn: next } };
+      }
+
+      // 2. PLAYING MODE (guessing the opponent's code)
+      return playGuess(state, code, action.at, rng);
+    }
+
+    case 'takeOver': {
+      if (state.status !== 'handover') return state;
+      if (!state.match) return { ...state, status: 'playing', startedAt: action.at };
+      const { match } = state;
+      const board = match.players[match.turn];
+      if (!board.secret) return { ...state, status: 'setup' };
+      // Load the incoming player's board into the fields the turn is played on
+      return {
+        ...state,
+        status: 'playing',
+        secret: match.players[opponentOf(match.turn)].secret,
+        guesses: board.guesses,
+        hints: board.hints,
+        startedAt: state.startedAt ?? action.at,
+        match: { ...match, turnStartedAt: action.at },
+      };
+    }
+
+    case 'nextRound': {
+      const { match } = state;
+      if (!match || state.online || (state.status !== 'won' && state.status !== 'lost') || matchWinner(match) !== null) return state;
+      return {
+        ...state,
+        status: 'setup',
+        secret: '',
+        input: '',
+        guesses: [],
+        hints: createHintState(state.rules),
+        startedAt: null,
+        finishedAt: null,
+        match: advanceRound(match, state.rules),
+      };
+    }
+
+    case 'hint': {
+      if (state.status !== 'playing' || state.reverse) return state;
+      // Online, the opponent's code isn't known locally, so there is nothing to reveal
+      if (state.online || !canAfford(state.hints, action.kind)) return reject(state, 'no-hint');
+      const clue = findClue(state, action.kind, action.guess, rng);
+      if (!clue) return reject(state, 'no-hint');
+
+      const hints = spendHint(state.hints, clue);
+      // Color the chosen guess without touching the other guess objects
+      const guesses = clue.kind === 'color'
+        ? state.guesses.map((g, i) => (i === clue.guess ? { ...g, isRevealed: true } : g))
+        : state.guesses;
+      const match = state.match && { ...state.match, players: updatePlayer(state.match, state.match.turn, { guesses, hints }) };
+      const hinted = { ...state, guesses, hints, match, error: null };
+      // A narrowing hint pays with an attempt: its code is played as the next guess
+      return clue.kind === 'narrow' ? playGuess({ ...hinted, input: '' }, clue.code, action.at, rng) : hinted;
+    }
+
+    case 'remote':
+      return receiveOnline(state, action.message, action.at);
+
+    case 'opponentConnection':
+      return opponentConnection(state, action.event);
+
+    case 'flushOutbox': {
+      if (!state.online) return state;
+      return { ...state, online: { ...state.online, outbox: state.online.outbox.slice(action.count) } };
+    }
+
+    case 'cpuGuess':
+      return cpuTurn(state, action.at, rng);
+
+    case 'score':
+      return scoreCpuGuess(state, action.bulls, action.cows, action.at);
+
+    case 'tick':
+      return expireClock(state, action.at);
+
+    case 'pause':
+    case 'resume': {
+      if (state.status !== 'playing' || !state.clock) return state;
+      const clock = action.type === 'pause' ? pauseClock(state.clock, action.at) : resumeClock(state.clock, action.at);
+      return clock === state.clock ? state : { ...state, clock };
+    }
+
+    case 'restore':
+      return action.state;
+
+    case 'reset':
+      return createInitialState(state.rules);
+  }
+};
+
+export const gameReducer = createGameReducer();
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { HINT_BUDGETS, canAfford, createHintState, difficultyOf, findClue, isClue, pointsLeft, spendHint } from './hints';
+import { calculateFeedback } from './code';
+import type { Guess } from './game';
+import { DEFAULT_RULES, GameRules } from './rules';
+import { filterCandidates } from './solver';
+import { createRng } from './rng';
+
+const rules: GameRules = DEFAULT_RULES;
+const secret = '3941';
+const answer = (code: string): Guess => ({ code, ...calculateFeedback(secret, code) });
+const board = (guesses: Guess[] = [answer('0123')], hints = createHintState(rules)) => ({ rules, secret, guesses, hints });
+
+describe('hint budgets', () => {
+  it('rates difficulty by the size of the code space', () => {
+    expect(difficultyOf({ ...rules, codeLength: 3 })).toBe('easy');
+    expect(difficultyOf(rules)).toBe('normal');
+    expect(difficultyOf({ ...rules, alphabet: 'hex', codeLength: 6 })).toBe('hard');
+    expect(createHintState(rules).budget).toBe(HINT_BUDGETS.normal);
+  });
+
+  it('spends points and refuses hints it can no longer pay for', () => {
+    let hints = createHintState(rules);
+    hints = spendHint(hints, { kind: 'position', position: 0, symbol: '3' });
+    expect(pointsLeft(hints)).toBe(1);
+    expect(canAfford(hints, 'absent')).toBe(true);
+    expect(canAfford(hints, 'color')).toBe(false);
+    // A narrowing hint costs an attempt, not points
+    expect(canAfford({ ...hints, spent: hints.budget }, 'narrow')).toBe(true);
+  });
+});
+
+describe('findClue', () => {
+  it('names symbols and positions of the secret, never the same one twice', () => {
+    const rng = createRng(3);
+    const position = findClue(board(), 'position', undefined, rng)!;
+    expect(position).toMatchObject({ kind: 'position' });
+    if (position.kind !== 'position') return;
+    expect(position.symbol).toBe(secret[position.position]);
+
+    let hints = createHintState(rules);
+    const absent = new Set<string>();
+    for (let i = 0; i < 6; i++) {
+      const clue = findClue(board(undefined, hints), 'absent', undefined, rng);
+      if (clue?.kind !== 'absent') throw new Error('expected an absent clue');
+      absent.add(clue.symbol);
+      hints = { ...hints, clues: [...hints.clues, clue] };
+    }
+    expect([...absent].sort()).toEqual(['0', '2', '5', '6', '7', '8']);
+    expect(findClue(board(undefined, hints), 'absent', undefined, rng)).toBeNull();
+  });
+
+  it('colors the latest guess unless told otherwise, and not twice', () => {
+    const guesses = [answer('0123'), answer('4567')];
+    expect(findClue(board(guesses), 'color')).toEqual({ kind: 'color', guess: 1 });
+    expect(findClue(board(guesses), 'color', 0)).toEqual({ kind: 'color', guess: 0 });
+    expect(findClue(board([{ ...guesses[0], isRevealed: true }]), 'color')).toBeNull();
+    expect(findClue(board([]), 'color')).toBeNull();
+  });
+
+  it('narrows with a code that is still consistent, where the space can be enumerated', () => {
+    const guesses = [answer('0123'), answer('4567')];
+    const clue = findClue(board(guesses), 'narrow', undefined, createRng(1));
+    if (clue?.kind !== 'narrow') throw new Error('expected a narrow clue');
+    expect(filterCandidates([clue.code], guesses)).toEqual([clue.code]);
+
+    const large: GameRules = { ...rules, alphabet: 'hex', codeLength: 8, allowDuplicates: true };
+    expect(findClue({ ...board([]), rules: large }, 'narrow')).toBeNull();
+  });
+});
+
+describe('isClue', () => {
+  it('accepts saved clues and rejects malformed ones', () => {
+    expect(isClue({ kind: 'narrow', code: '1234' })).toBe(true);
+    expect(isClue({ kind: 'position', position: '1', symbol: '2' })).toBe(false);
+    expect(isClue({ kind: 'nope' })).toBe(false);
+    expect(isClue(null)).toBe(false);
+  });
+});
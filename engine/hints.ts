@@ -0,0 +1,116 @@
+import { ALPHABETS, GameRules } from './rules';
+import { Rng, defaultRng } from './rng';
+import type { Guess } from './game';
+import { codeSpaceSize, remainingCandidates, suggestGuess } from './solver';
+
+// --- Hints ---
+// Every game gets a budget of hint points, set by how hard its rules are.
+// Each kind of hint has a price: points from the budget, or an attempt.
+
+export type HintKind = 'position' | 'absent' | 'color' | 'narrow';
+
+export type Clue =
+  | { kind: 'position'; position: number; symbol: string } // The code has `symbol` at `position`
+  | { kind: 'absent'; symbol: string } // `symbol` is not in the code
+  | { kind: 'color'; guess: number } // Guess #`guess` (0-based) is colored symbol by symbol
+  | { kind: 'narrow'; code: string }; // The solver's best splitting code, played as the next guess
+
+export interface HintState {
+  budget: number; // Points available for this game
+  spent: number;
+  clues: Clue[];
+}
+
+export type Difficulty = 'easy' | 'normal' | 'hard';
+
+export const HINT_KINDS: HintKind[] = ['absent', 'color', 'position', 'narrow'];
+
+export const HINT_COSTS: Record<HintKind, { points: number; attempts: number }> = {
+  absent: { points: 1, attempts: 0 },
+  color: { points: 2, attempts: 0 },
+  position: { points: 3, attempts: 0 },
+  narrow: { points: 0, attempts: 1 },
+};
+
+export const HINT_BUDGETS: Record<Difficulty, number> = {
+  easy: 6,
+  normal: 4,
+  hard: 2,
+};
+
+// Rated by the number of possible codes: the default unique 4-digit game is 'normal'
+export const difficultyOf = (rules: GameRules): Difficulty => {
+  const size = codeSpaceSize(rules);
+  if (size < 5_040) return 'easy';
+  if (size <= 100_000) return 'normal';
+  return 'hard';
+};
+
+export const createHintState = (rules: GameRules): HintState => ({
+  budget: HINT_BUDGETS[difficultyOf(rules)],
+  spent: 0,
+  clues: [],
+});
+
+export const pointsLeft = (hints: HintState) => hints.budget - hints.spent;
+
+export const canAfford = (hints: HintState, kind: HintKind) => HINT_COSTS[kind].points <= pointsLeft(hints);
+
+// The clue a hint of this kind would give right now, or null if it has nothing left to tell.
+// `guess` picks the guess to color (defaults to the latest one).
+export const findClue = (
+  board: { rules: GameRules; secret: string; guesses: Guess[]; hints: HintState },
+  kind: HintKind,
+  guess?: number,
+  rng: Rng = defaultRng,
+): Clue | null => {
+  const { rules, secret, guesses, hints } = board;
+  const pick = <T>(options: T[]): T | null => (options.length > 0 ? options[Math.floor(rng() * options.length)] : null);
+
+  switch (kind) {
+    case 'position': {
+      const known = new Set(hints.clues.map((c) => (c.kind === 'position' ? c.position : -1)));
+      const position = pick([...Array(rules.codeLength).keys()].filter((p) => !known.has(p)));
+      return position === null ? null : { kind, position, symbol: secret[position] };
+    }
+    case 'absent': {
+      const known = new Set(hints.clues.map((c) => (c.kind === 'absent' ? c.symbol : '')));
+      const symbol = pick(ALPHABETS[rules.alphabet].symbols.filter((s) => !secret.includes(s) && !known.has(s)));
+      return symbol === null ? null : { kind, symbol };
+    }
+    case 'color': {
+      const index = guess ?? guesses.length - 1;
+      if (!guesses[index] || guesses[index].isRevealed) return null;
+      return { kind, guess: index };
+    }
+    case 'narrow': {
+      // Only where the solver can enumerate the code space
+      const candidates = remainingCandidates(rules, guesses);
+      const code = candidates && suggestGuess(candidates, 'entropy', rng);
+      return code ? { kind, code } : null;
+    }
+  }
+};
+
+export const spendHint = (hints: HintState, clue: Clue): HintState => ({
+  ...hints,
+  spent: hints.spent + HINT_COSTS[clue.kind].points,
+  clues: [...hints.clues, clue],
+});
+
+export const isClue = (value: unknown): value is Clue => {
+  const c = value as Clue;
+  if (typeof c !== 'object' || c === null) return false;
+  switch (c.kind) {
+    case 'position':
+      return typeof c.position === 'number' && typeof c.symbol === 'string';
+    case 'absent':
+      return typeof c.symbol === 'string';
+    case 'color':
+      return typeof c.guess === 'number';
+    case 'narrow':
+      return typeof c.code === 'string';
+    default:
+      return false;
+  }
+};
@@ -0,0 +1,22 @@
+// Framework-free game engine: rules, scoring, the game state machine and the solver.
+// Nothing in here may import React or touch the DOM.
+export * from './rules';
+export * from './rng';
+export * from './code';
+export * from './commit';
+export * from './game';
+export * from './match';
+export * from './online';
+export * from './protocol';
+export * from './solver';
+export * from './notes';
+export * from './hints';
+export * from './clock';
+export * from './stats';
+export * from './score';
+export * from './daily';
+export * from './replay';
+export * from './challenge';
+export * from './evil';
+export * from './reverse';
+export * from './arena';
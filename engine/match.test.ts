@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { Match, PlayerIndex, advanceRound, createMatch, decideRound, matchWinner, roundStarter, updatePlayer, winsNeeded } from './match';
+import { DEFAULT_RULES, GameRules } from './rules';
+
+const rules: GameRules = { ...DEFAULT_RULES, maxAttempts: 3 };
+const miss = { code: '5678', bulls: 0, cows: 0 };
+const crack = { code: '1234', bulls: 4, cows: 0 };
+
+// A round-1 match with the given guesses and turn times on each board
+const withBoards = (
+  boards: [{ guesses: typeof miss[]; timeMs?: number }, { guesses: typeof miss[]; timeMs?: number }],
+  match: Match = createMatch(['Ada', 'Bo'], 3, rules),
+): Match => {
+  let players = match.players;
+  boards.forEach((board, i) => {
+    players = updatePlayer({ ...match, players }, i as PlayerIndex, { guesses: board.guesses, timeMs: board.timeMs ?? 0 });
+  });
+  return { ...match, players };
+};
+
+describe('createMatch', () => {
+  it('cleans names and falls back to a best-of-1 for unknown lengths', () => {
+    const match = createMatch(['  Ada  ', ''], 4, rules);
+    expect(match.players.map((p) => p.name)).toEqual(['Ada', 'Player 2']);
+    expect(match.bestOf).toBe(1);
+    expect(createMatch(['A', 'B'], 5, rules).bestOf).toBe(5);
+  });
+});
+
+describe('decideRound', () => {
+  it('waits until the second player has had as many turns', () => {
+    expect(decideRound(withBoards([{ guesses: [crack] }, { guesses: [] }]), rules)).toBeNull();
+    expect(decideRound(withBoards([{ guesses: [miss] }, { guesses: [miss] }]), rules)).toBeNull();
+  });
+
+  it('gives the round to the only player who cracked the code', () => {
+    expect(decideRound(withBoards([{ guesses: [crack] }, { guesses: [miss] }]), rules)).toEqual({ winner: 0, tiebreak: false });
+    expect(decideRound(withBoards([{ guesses: [miss] }, { guesses: [crack] }]), rules)).toEqual({ winner: 1, tiebreak: false });
+  });
+
+  it('breaks a double crack on time spent', () => {
+    expect(decideRound(withBoards([{ guesses: [crack], timeMs: 9000 }, { guesses: [crack], timeMs: 4000 }]), rules))
+      .toEqual({ winner: 1, tiebreak: true });
+    expect(decideRound(withBoards([{ guesses: [crack], timeMs: 3000 }, { guesses: [crack], timeMs: 4000 }]), rules))
+      .toEqual({ winner: 0, tiebreak: true });
+  });
+
+  it('voids a round with equal times or no crack within the attempts', () => {
+    expect(decideRound(withBoards([{ guesses: [crack], timeMs: 5000 }, { guesses: [crack], timeMs: 5000 }]), rules))
+      .toEqual({ winner: null, tiebreak: true });
+    expect(decideRound(withBoards([{ guesses: [miss, miss, miss] }, { guesses: [miss, miss, miss] }]), rules))
+      .toEqual({ winner: null, tiebreak: false });
+  });
+
+  it('lets the second player open even rounds', () => {
+    const round2 = advanceRound(createMatch(['Ada', 'Bo'], 3, rules), rules);
+    expect(roundStarter(2)).toBe(1);
+    // Bo opens, so Ada's answer is what settles the turn
+    expect(decideRound(withBoards([{ guesses: [] }, { guesses: [crack] }], round2), rules)).toBeNull();
+    expect(decideRound(withBoards([{ guesses: [miss] }, { guesses: [crack] }], round2), rules)).toEqual({ winner: 1, tiebreak: false });
+  });
+});
+
+describe('match progress', () => {
+  it('keeps names and score across rounds and ends at a majority', () => {
+    const match = { ...createMatch(['Ada', 'Bo'], 3, rules), scores: [1, 0] as [number, number] };
+    const next = advanceRound(match, rules);
+    expect(next.round).toBe(2);
+    expect(next.scores).toEqual([1, 0]);
+    expect(next.players[0]).toMatchObject({ name: 'Ada', secret: '', guesses: [] });
+    expect(winsNeeded(3)).toBe(2);
+    expect(matchWinner(match)).toBeNull();
+    expect(matchWinner({ ...match, scores: [1, 2] })).toBe(1);
+  });
+});
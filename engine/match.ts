@@ -0,0 +1,128 @@
+import type { Guess } from './game';
+import { GameRules } from './rules';
+import { HintState, createHintState } from './hints';
+
+// --- Versus Matches ---
+// Both players set a code, then take alternate guesses at each other's code.
+// A match is best-of-N rounds; each round a different player guesses first.
+
+export type PlayerIndex = 0 | 1;
+
+export interface PlayerBoard {
+  name: string;
+  secret: string; // The code this player set for the opponent
+  // Commit-reveal (see commit.ts). Online, the opponent's salt and secret arrive with their reveal.
+  salt: string;
+  commitment: string;
+  guesses: Guess[]; // This player's guesses at the opponent's code
+  hints: HintState;
+  timeMs: number; // Time spent on own guessing turns, used as the tiebreak
+}
+
+export interface Match {
+  bestOf: number;
+  round: number; // 1-based
+  scores: [number, number];
+  players: [PlayerBoard, PlayerBoard];
+  turn: PlayerIndex; // Who is setting or guessing right now
+  turnStartedAt: number | null;
+  // Filled in once the round is decided; a null winner means a void round
+  roundWinner: PlayerIndex | null;
+  decidedByTiebreak: boolean;
+}
+
+export interface RoundOutcome {
+  winner: PlayerIndex | null;
+  tiebreak: boolean;
+}
+
+export const BEST_OF_OPTIONS = [1, 3, 5];
+export const DEFAULT_PLAYER_NAMES: [string, string] = ['Player 1', 'Player 2'];
+export const MAX_NAME_LENGTH = 16;
+
+export const opponentOf = (player: PlayerIndex): PlayerIndex => (player === 0 ? 1 : 0);
+
+// Player 1 opens odd rounds, Player 2 opens even ones
+export const roundStarter = (round: number): PlayerIndex => ((round - 1) % 2 === 0 ? 0 : 1);
+
+export const winsNeeded = (bestOf: number) => Math.floor(bestOf / 2) + 1;
+
+export const matchWinner = (match: Match): PlayerIndex | null => {
+  const needed = winsNeeded(match.bestOf);
+  if (match.scores[0] >= needed) return 0;
+  if (match.scores[1] >= needed) return 1;
+  return null;
+};
+
+export const cleanPlayerName = (name: string, fallback: string) =>
+  name.trim().slice(0, MAX_NAME_LENGTH) || fallback;
+
+const emptyBoard = (name: string, rules: GameRules): PlayerBoard => ({
+  name,
+  secret: '',
+  salt: '',
+  commitment: '',
+  guesses: [],
+  hints: createHintState(rules),
+  timeMs: 0,
+});
+
+export const createMatch = (names: [string, string], bestOf: number, rules: GameRules): Match => ({
+  bestOf: BEST_OF_OPTIONS.includes(bestOf) ? bestOf : 1,
+  round: 1,
+  scores: [0, 0],
+  players: [
+    emptyBoard(cleanPlayerName(names[0], DEFAULT_PLAYER_NAMES[0]), rules),
+    emptyBoard(cleanPlayerName(names[1], DEFAULT_PLAYER_NAMES[1]), rules),
+  ],
+  turn: roundStarter(1),
+  turnStartedAt: null,
+  roundWinner: null,
+  decidedByTiebreak: false,
+});
+
+// Fresh boards for the next round, keeping names and score
+export const advanceRound = (match: Match, rules: GameRules): Match => {
+  const round = match.round + 1;
+  return {
+    ...match,
+    round,
+    players: [emptyBoard(match.players[0].name, rules), emptyBoard(match.players[1].name, rules)],
+    turn: roundStarter(round),
+    turnStartedAt: null,
+    roundWinner: null,
+    decidedByTiebreak: false,
+  };
+};
+
+export const updatePlayer = (match: Match, player: PlayerIndex, patch: Partial<PlayerBoard>): Match['players'] => {
+  const players: Match['players'] = [...match.players];
+  players[player] = { ...players[player], ...patch };
+  return players;
+};
+
+const hasCracked = (board: PlayerBoard, rules: GameRules) =>
+  board.guesses.some((g) => g.bulls === rules.codeLength);
+
+// Called after every guess. Returns null while the round goes on.
+// The round is only settled once both players have had the same number of turns,
+// so the second player always gets to answer a crack on the same turn.
+export const decideRound = (match: Match, rules: GameRules): RoundOutcome | null => {
+  const first = roundStarter(match.round);
+  const second = opponentOf(first);
+  const firstBoard = match.players[first];
+  const secondBoard = match.players[second];
+  if (secondBoard.guesses.length < firstBoard.guesses.length) return null;
+
+  const firstCracked = hasCracked(firstBoard, rules);
+  const secondCracked = hasCracked(secondBoard, rules);
+  if (firstCracked && secondCracked) {
+    // Tiebreak: whoever spent less time on their turns takes the round
+    if (firstBoard.timeMs === secondBoard.timeMs) return { winner: null, tiebreak: true };
+    return { winner: firstBoard.timeMs < secondBoard.timeMs ? first : second, tiebreak: true };
+  }
+  if (firstCracked) return { winner: first, tiebreak: false };
+  if (secondCracked) return { winner: second, tiebreak: false };
+  if (secondBoard.guesses.length >= rules.maxAttempts) return { winner: null, tiebreak: false };
+  return null;
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { createNotes, cycleNote, deduceNotes, excludedSymbols, mergeNotes } from './notes';
+import { DEFAULT_RULES, GameRules } from './rules';
+
+const rules: GameRules = DEFAULT_RULES;
+// Too many codes to enumerate, so only the simple eliminations apply
+const large: GameRules = { ...rules, alphabet: 'hex', codeLength: 8, allowDuplicates: true };
+
+describe('notes', () => {
+  it('cycles a cell through its marks', () => {
+    let notes = createNotes(rules);
+    const marks = [];
+    for (let i = 0; i < 4; i++) {
+      notes = cycleNote(notes, '7', 2);
+      marks.push(notes['7'][2]);
+    }
+    expect(marks).toEqual(['excluded', 'possible', 'confirmed', 'blank']);
+    expect(notes['7'][1]).toBe('blank');
+  });
+
+  it("fills only the player's blank cells with deductions", () => {
+    const manual = cycleNote(cycleNote(createNotes(rules), '1', 0), '1', 0);
+    const deduced = deduceNotes(rules, [{ code: '1234', bulls: 0, cows: 0 }]);
+    const merged = mergeNotes(manual, deduced);
+    expect(merged['1']).toEqual(['possible', 'excluded', 'excluded', 'excluded']);
+    expect(mergeNotes(manual, null)).toBe(manual);
+  });
+});
+
+describe('deduceNotes', () => {
+  it('is exact where the code space can be enumerated', () => {
+    const notes = deduceNotes(rules, [{ code: '0123', bulls: 3, cows: 0 }, { code: '0124', bulls: 3, cows: 0 }]);
+    // 012x, with x neither 3 nor 4
+    expect(notes['0'][0]).toBe('confirmed');
+    expect(notes['2'][2]).toBe('confirmed');
+    expect(notes['3'][3]).toBe('excluded');
+    expect(notes['9'][3]).toBe('blank');
+    expect(excludedSymbols(notes)).toEqual(['3', '4']);
+  });
+
+  it('uses the candidates it is given', () => {
+    const notes = deduceNotes(rules, [], ['1234']);
+    expect(notes['1'][0]).toBe('confirmed');
+    expect(notes['5'][0]).toBe('excluded');
+  });
+
+  it('proves nothing from contradictory feedback', () => {
+    const notes = deduceNotes(rules, [{ code: '0123', bulls: 4, cows: 0 }, { code: '4567', bulls: 4, cows: 0 }]);
+    expect(notes).toEqual(createNotes(rules));
+  });
+
+  it('falls back to simple eliminations for large code spaces', () => {
+    const notes = deduceNotes(large, [{ code: '01234567', bulls: 0, cows: 2 }, { code: '89ABCDEF', bulls: 0, cows: 0 }]);
+    expect(excludedSymbols(notes)).toEqual('89ABCDEF'.split(''));
+    expect(notes['0'][0]).toBe('excluded');
+    expect(notes['0'][1]).toBe('blank');
+  });
+});
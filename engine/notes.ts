@@ -0,0 +1,82 @@
+import { ALPHABETS, GameRules } from './rules';
+import type { Guess } from './game';
+import { remainingCandidates } from './solver';
+
+// --- Deduction Notepad ---
+// One mark per symbol and code position. The player's own marks always win;
+// deduced marks only fill the cells the player left blank.
+
+export type NoteMark = 'blank' | 'excluded' | 'possible' | 'confirmed';
+
+// symbol → one mark per position
+export type NoteGrid = Record<string, NoteMark[]>;
+
+// Order a cell steps through when tapped
+const CYCLE: NoteMark[] = ['blank', 'excluded', 'possible', 'confirmed'];
+
+export const createNotes = (rules: GameRules): NoteGrid =>
+  Object.fromEntries(ALPHABETS[rules.alphabet].symbols.map((s) => [s, Array<NoteMark>(rules.codeLength).fill('blank')]));
+
+export const cycleNote = (notes: NoteGrid, symbol: string, position: number): NoteGrid => {
+  const row = [...(notes[symbol] ?? [])];
+  row[position] = CYCLE[(CYCLE.indexOf(row[position] ?? 'blank') + 1) % CYCLE.length];
+  return { ...notes, [symbol]: row };
+};
+
+// What the recorded guesses prove. With an enumerable code space that is exact:
+// a symbol is excluded from a slot no remaining candidate has it in, and confirmed
+// where every candidate has it. Otherwise only the simple eliminations apply.
+// Pass `candidates` when the codes consistent with `guesses` are already known.
+export const deduceNotes = (
+  rules: GameRules,
+  guesses: Guess[],
+  candidates: string[] | null = remainingCandidates(rules, guesses),
+): NoteGrid => {
+  const notes = createNotes(rules);
+  const symbols = ALPHABETS[rules.alphabet].symbols;
+
+  if (candidates) {
+    if (candidates.length === 0) return notes; // Contradictory feedback: prove nothing
+    for (let p = 0; p < rules.codeLength; p++) {
+      const counts: Record<string, number> = {};
+      for (const code of candidates) counts[code[p]] = (counts[code[p]] ?? 0) + 1;
+      for (const s of symbols) {
+        const count = counts[s] ?? 0;
+        notes[s][p] = count === 0 ? 'excluded' : count === candidates.length ? 'confirmed' : 'blank';
+      }
+    }
+    return notes;
+  }
+
+  const exclude = (symbol: string, position?: number) => {
+    if (!notes[symbol]) return;
+    notes[symbol] = notes[symbol].map((mark, p) => (position === undefined || p === position ? 'excluded' : mark));
+  };
+  for (const g of guesses) {
+    const chars = g.code.split('');
+    // Nothing in this guess is in the code
+    if (g.bulls + g.cows === 0) chars.forEach((s) => exclude(s));
+    // No symbol is in its guessed slot
+    if (g.bulls === 0) chars.forEach((s, p) => exclude(s, p));
+    // Unique codes: every symbol of the code is in this guess, so nothing else is
+    if (!rules.allowDuplicates && g.bulls + g.cows === rules.codeLength) {
+      symbols.filter((s) => !chars.includes(s)).forEach((s) => exclude(s));
+    }
+  }
+  for (const g of guesses) {
+    if (g.bulls === rules.codeLength) g.code.split('').forEach((s, p) => { notes[s][p] = 'confirmed'; });
+  }
+  return notes;
+};
+
+// The player's marks, with deduced ones filling the blanks
+export const mergeNotes = (manual: NoteGrid, deduced: NoteGrid | null): NoteGrid => {
+  if (!deduced) return manual;
+  return Object.fromEntries(
+    Object.entries(manual).map(([s, row]) => [s, row.map((mark, p) => (mark === 'blank' ? deduced[s]?.[p] ?? 'blank' : mark))]),
+  );
+};
+
+// Symbols ruled out of every position
+export const excludedSymbols = (notes: NoteGrid): string[] =>
+  Object.entries(notes).filter(([, row]) => row.length > 0 && row.every((mark) => mark === 'excluded')).map(([s]) => s);
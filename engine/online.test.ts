@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { GameAction, GameState, createGameReducer, createInitialState } from './game';
+import { PlayerIndex } from './match';
+import { GameMessage } from './protocol';
+import { DEFAULT_RULES } from './rules';
+import { createRng } from './rng';
+
+const reduce = createGameReducer(createRng(1));
+const run = (state: GameState, ...actions: GameAction[]) => actions.reduce(reduce, state);
+
+const device = (me: PlayerIndex) =>
+  run(createInitialState(DEFAULT_RULES), { type: 'start', mode: 'online', rules: DEFAULT_RULES, online: { room: 'ABCD', me }, at: 0 });
+
+// Hands everything `from` has queued to `to`, as the relay would, and clears `from`'s queue
+const deliver = (from: GameState, to: GameState, at: number): [GameState, GameState] => {
+  const messages = from.online!.outbox;
+  const received = run(to, ...messages.map((message): GameAction => ({ type: 'remote', message, at })));
+  return [run(from, { type: 'flushOutbox', count: messages.length }), received];
+};
+
+const remote = (state: GameState, message: GameMessage, at = 1) => run(state, { type: 'remote', message, at });
+
+// Both codes locked in: player 1 (B) has 5678, player 0 (A) has 1234 and opens the round
+const seated = () => {
+  let a = run(device(0), { type: 'submit', code: '1234', salt: 'ab', at: 0 });
+  let b = run(device(1), { type: 'submit', code: '5678', salt: 'cd', at: 0 });
+  [a, b] = deliver(a, b, 0);
+  [b, a] = deliver(b, a, 0);
+  return [a, b];
+};
+
+describe('receiveOnline', () => {
+  it('starts the round once both codes are in', () => {
+    const [a, b] = seated();
+    expect(a.status).toBe('playing');
+    expect(b.status).toBe('handover');
+    expect(b.match!.players[0].commitment).toBe(a.match!.players[0].commitment);
+  });
+
+  it('needs a salt to lock in a code', () => {
+    const setup = device(0);
+    expect(run(setup, { type: 'submit', code: '1234', at: 0 })).toBe(setup);
+  });
+
+  it('scores a guess and times the turn on the scoring side', () => {
+    let [a, b] = seated();
+    a = run(a, { type: 'submit', code: '5687', at: 900 });
+    [a, b] = deliver(a, b, 1500);
+    expect(b.match!.players[0].guesses).toEqual([{ code: '5687', bulls: 2, cows: 2 }]);
+    expect(b.match!.players[0].timeMs).toBe(1500);
+    expect(b.status).toBe('playing');
+
+    [b, a] = deliver(b, a, 1600);
+    expect(a.online!.pendingGuess).toBeNull();
+    expect(a.match!.players[0].guesses).toEqual([{ code: '5687', bulls: 2, cows: 2, isRevealed: false }]);
+    // The scorer's time, not the guesser's own clock
+    expect(a.match!.players[0].timeMs).toBe(1500);
+    expect(a.status).toBe('handover');
+  });
+
+  it('ignores guesses out of turn and codes the rules rule out', () => {
+    const [, b] = seated();
+    for (const code of ['1123', '12a4', '123']) expect(remote(b, { type: 'guess', code })).toBe(b);
+    const [a] = seated();
+    expect(remote(a, { type: 'guess', code: '5678' })).toBe(a);
+  });
+
+  it('ignores feedback for another guess or with impossible counts', () => {
+    let [a] = seated();
+    a = run(a, { type: 'submit', code: '5687', at: 1 });
+    expect(remote(a, { type: 'feedback', code: '4321', bulls: 0, cows: 4, elapsedMs: 5 })).toBe(a);
+    expect(remote(a, { type: 'feedback', code: '5687', bulls: 3, cows: 2, elapsedMs: 5 })).toBe(a);
+    expect(remote(a, { type: 'feedback', code: '5687', bulls: 0, cows: 0, elapsedMs: -5 })).toBe(a);
+  });
+
+  it('stores a valid reveal once, and shows it when the round is decided', () => {
+    const [a] = seated();
+    expect(remote(a, { type: 'reveal', secret: '5578', salt: 'ab' })).toBe(a);
+    const revealed = remote(a, { type: 'reveal', secret: '5678', salt: 'ab' });
+    expect(revealed.match!.players[1]).toMatchObject({ secret: '5678', salt: 'ab' });
+    expect(remote(revealed, { type: 'reveal', secret: '8765', salt: 'cd' })).toBe(revealed);
+
+    const decided = remote({ ...a, status: 'lost' }, { type: 'reveal', secret: '5678', salt: 'ab' });
+    expect(decided.secret).toBe('5678');
+  });
+});
+
+describe('opponentConnection', () => {
+  it('pauses while the opponent is away and resumes where play was', () => {
+    const [a] = seated();
+    const away = run(a, { type: 'opponentConnection', event: 'disconnected' });
+    expect(away.status).toBe('disconnected');
+    expect(run(away, { type: 'opponentConnection', event: 'reconnected' }).status).toBe('playing');
+  });
+
+  it('stays disconnected once the opponent has left', () => {
+    const [a] = seated();
+    const left = run(a, { type: 'opponentConnection', event: 'disconnected' }, { type: 'opponentConnection', event: 'left' });
+    expect(left.online!.opponentLeft).toBe(true);
+    expect(run(left, { type: 'opponentConnection', event: 'reconnected' }).status).toBe('disconnected');
+  });
+});
@@ -0,0 +1,185 @@
+import type { GameState, GameStatus } from './game';
+import { Rng } from './rng';
+import { calculateFeedback, isValidCode } from './code';
+import { commitToCode } from './commit';
+import { Match, PlayerIndex, decideRound, opponentOf, roundStarter, updatePlayer } from './match';
+import { GameMessage } from './protocol';
+
+// --- Online Play ---
+// Each device runs its own engine with one local player (`me`). The opponent's
+// code never leaves their device: my guesses go out and come back scored, and
+// I score theirs against my code. Messages for the opponent queue up in `outbox`
+// so the reducer stays pure; the UI sends them and then flushes the queue.
+// Turn times for the tiebreak are measured by whoever scores the guess and
+// sent back with the feedback, so both devices hold the same times and no one
+// reports their own.
+
+export interface OnlineState {
+  room: string;
+  me: PlayerIndex;
+  opponentReady: boolean;
+  // My guess, sent and waiting to be scored by the opponent
+  pendingGuess: string | null;
+  outbox: GameMessage[];
+  // While the opponent is away: the status to return to
+  resumeStatus: GameStatus | null;
+  opponentLeft: boolean;
+}
+
+export type ConnectionEvent = 'disconnected' | 'reconnected' | 'left';
+
+export const createOnlineState = (room: string, me: PlayerIndex): OnlineState => ({
+  room,
+  me,
+  opponentReady: false,
+  pendingGuess: null,
+  outbox: [],
+  resumeStatus: null,
+  opponentLeft: false,
+});
+
+const send = (state: GameState, online: OnlineState, message: GameMessage): GameState => ({
+  ...state,
+  online: { ...online, outbox: [...online.outbox, message] },
+});
+
+// Hands the turn to `turn`: my guessing turn, or waiting on the opponent (whose turn I time)
+const focusTurn = (state: GameState, match: Match, online: OnlineState, turn: PlayerIndex, at: number): GameState => {
+  if (turn !== online.me) return { ...state, status: 'handover', match: { ...match, turn, turnStartedAt: at } };
+  return {
+    ...state,
+    status: 'playing',
+    secret: match.players[opponentOf(online.me)].secret,
+    guesses: match.players[online.me].guesses,
+    startedAt: state.startedAt ?? at,
+    match: { ...match, turn, turnStartedAt: at },
+  };
+};
+
+// After any scored guess: keep alternating, or settle the round and reveal my code (and its salt)
+const settle = (state: GameState, match: Match, online: OnlineState, mover: PlayerIndex, at: number): GameState => {
+  const outcome = decideRound(match, state.rules);
+  if (!outcome) return focusTurn(state, match, online, opponentOf(mover), at);
+
+  const scores: Match['scores'] = [...match.scores];
+  if (outcome.winner !== null) scores[outcome.winner]++;
+  const decided: GameState = {
+    ...state,
+    status: outcome.winner === null ? 'lost' : 'won',
+    guesses: match.players[online.me].guesses,
+    finishedAt: at,
+    match: { ...match, scores, roundWinner: outcome.winner, decidedByTiebreak: outcome.tiebreak },
+  };
+  const { secret, salt } = match.players[online.me];
+  return send(decided, online, { type: 'reveal', secret, salt });
+};
+
+// 'submit' for online games: lock in my code and publish its commitment, or send a guess out for scoring.
+// Setting the code needs the caller's salt.
+export const submitOnline = (state: GameState, code: string, salt: string | undefined, at: number, rng: Rng): GameState => {
+  const { match, online } = state;
+  if (!match || !online) return state;
+  const opponent = opponentOf(online.me);
+
+  if (state.status === 'setup') {
+    if (!salt) return state;
+    const commitment = commitToCode(code, salt);
+    const locked = send(
+      { ...state, input: '', error: null, match: { ...match, players: updatePlayer(match, online.me, { secret: code, salt, commitment }) } },
+      online,
+      { type: 'ready', commitment },
+    );
+    if (online.opponentReady) return focusTurn(locked, locked.match!, locked.online!, roundStarter(match.round), at);
+    return { ...locked, status: 'handover', match: { ...locked.match!, turn: opponent, turnStartedAt: null } };
+  }
+
+  if (online.pendingGuess) return state;
+  const waiting = { ...online, pendingGuess: code };
+  return send({ ...state, input: '', error: null }, waiting, { type: 'guess', code });
+};
+
+// A message from the opponent. Anything out of turn or malformed is ignored.
+export const receiveOnline = (state: GameState, message: GameMessage, at: number): GameState => {
+  const { match, online, rules } = state;
+  if (!match || !online) return state;
+  const opponent = opponentOf(online.me);
+  const mySecret = match.players[online.me].secret;
+
+  switch (message.type) {
+    case 'ready': {
+      if (online.opponentReady) return state;
+      const ready = { ...online, opponentReady: true };
+      const sealed: Match = { ...match, players: updatePlayer(match, opponent, { commitment: message.commitment }) };
+      // Both codes are in: the round can start
+      if (mySecret && state.status === 'handover') return focusTurn({ ...state, online: ready }, sealed, ready, roundStarter(match.round), at);
+      return { ...state, match: sealed, online: ready };
+    }
+
+    case 'guess': {
+      if (state.status !== 'handover' || match.turn !== opponent || !online.opponentReady || !mySecret) return state;
+      if (!isValidCode(rules, message.code)) return state;
+      const { bulls, cows } = calculateFeedback(mySecret, message.code);
+      const elapsedMs = match.turnStartedAt === null ? 0 : Math.max(0, at - match.turnStartedAt);
+      const board = match.players[opponent];
+      const played: Match = {
+        ...match,
+        turnStartedAt: null,
+        players: updatePlayer(match, opponent, {
+          guesses: [...board.guesses, { code: message.code, bulls, cows }],
+          timeMs: board.timeMs + elapsedMs,
+        }),
+      };
+      const scored = send(state, online, { type: 'feedback', code: message.code, bulls, cows, elapsedMs });
+      return settle(scored, played, scored.online!, opponent, at);
+    }
+
+    case 'feedback': {
+      const pending = online.pendingGuess;
+      if (!pending || pending !== message.code) return state;
+      const { bulls, cows } = message;
+      if (bulls < 0 || cows < 0 || bulls + cows > rules.codeLength || message.elapsedMs < 0) return state;
+      const board = match.players[online.me];
+      const played: Match = {
+        ...match,
+        turnStartedAt: null,
+        players: updatePlayer(match, online.me, {
+          guesses: [...board.guesses, { code: message.code, bulls, cows, isRevealed: false }],
+          timeMs: board.timeMs + message.elapsedMs,
+        }),
+      };
+      const cleared = { ...online, pendingGuess: null };
+      return settle({ ...state, online: cleared }, played, cleared, online.me, at);
+    }
+
+    // Taken as-is: verifyReveal checks it against the commitment from 'ready'
+    case 'reveal': {
+      if (match.players[opponent].secret || !isValidCode(rules, message.secret)) return state;
+      const revealed: Match = { ...match, players: updatePlayer(match, opponent, { secret: message.secret, salt: message.salt }) };
+      const decided = state.status === 'won' || state.status === 'lost';
+      return { ...state, match: revealed, secret: decided ? message.secret : state.secret };
+    }
+  }
+};
+
+// The relay reports the opponent's connection. Play pauses while they are gone.
+export const opponentConnection = (state: GameState, event: ConnectionEvent): GameState => {
+  const { online } = state;
+  if (!online) return state;
+  const inPlay = state.status === 'setup' || state.status === 'handover' || state.status === 'playing';
+
+  switch (event) {
+    case 'disconnected':
+      if (!inPlay) return state;
+      return { ...state, status: 'disconnected', online: { ...online, resumeStatus: state.status } };
+    case 'reconnected':
+      if (state.status !== 'disconnected' || online.opponentLeft || !online.resumeStatus) return state;
+      return { ...state, status: online.resumeStatus, online: { ...online, resumeStatus: null } };
+    case 'left':
+      if (!inPlay && state.status !== 'disconnected') return state;
+      return {
+        ...state,
+        status: 'disconnected',
+        online: { ...online, opponentLeft: true, resumeStatus: online.resumeStatus ?? state.status },
+      };
+  }
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { isClientMessage, isGameMessage } from './protocol';
+
+describe('isGameMessage', () => {
+  it('accepts well-formed game messages', () => {
+    expect(isGameMessage({ type: 'ready', commitment: 'ab' })).toBe(true);
+    expect(isGameMessage({ type: 'guess', code: '1234' })).toBe(true);
+    expect(isGameMessage({ type: 'feedback', code: '1234', bulls: 1, cows: 2, elapsedMs: 900 })).toBe(true);
+    expect(isGameMessage({ type: 'reveal', secret: '1234', salt: 'ab' })).toBe(true);
+  });
+
+  it('rejects missing or mistyped fields and unknown types', () => {
+    expect(isGameMessage({ type: 'guess', code: 1234 })).toBe(false);
+    expect(isGameMessage({ type: 'feedback', code: '1234', bulls: 1, cows: 2 })).toBe(false);
+    expect(isGameMessage({ type: 'reveal', secret: '1234' })).toBe(false);
+    expect(isGameMessage({ type: 'nope' })).toBe(false);
+    expect(isGameMessage(null)).toBe(false);
+    expect(isGameMessage('guess')).toBe(false);
+  });
+});
+
+describe('isClientMessage', () => {
+  it('checks relayed game messages too', () => {
+    expect(isClientMessage({ type: 'relay', message: { type: 'reveal', secret: '1234', salt: 'ab' } })).toBe(true);
+    expect(isClientMessage({ type: 'relay', message: { type: 'nope' } })).toBe(false);
+  });
+
+  it('accepts room commands with their fields', () => {
+    expect(isClientMessage({ type: 'create', name: 'Ada', rules: {} })).toBe(true);
+    expect(isClientMessage({ type: 'join', room: 'ABCD', name: 'Bo' })).toBe(true);
+    expect(isClientMessage({ type: 'join', room: 'ABCD' })).toBe(false);
+    expect(isClientMessage({ type: 'rejoin', room: 'ABCD', token: 't' })).toBe(true);
+    expect(isClientMessage({ type: 'leave' })).toBe(true);
+  });
+});
@@ -0,0 +1,77 @@
+import { GameRules } from './rules';
+
+// --- Online Protocol ---
+// Shared by the browser client and the relay server (server/relay.ts).
+// The relay never sees a secret: guesses are scored by the player who holds the code.
+
+export const RELAY_PORT = 8787;
+export const ROOM_CODE_LENGTH = 4;
+// How long the relay keeps a dropped player's seat before giving it up
+export const RECONNECT_GRACE_MS = 60_000;
+
+// Game traffic between the two players, passed through the relay untouched
+export type GameMessage =
+  | { type: 'ready'; commitment: string } // My code is locked in; sha256(salt:code), see commit.ts
+  | { type: 'guess'; code: string }
+  | { type: 'feedback'; code: string; bulls: number; cows: number; elapsedMs: number } // elapsedMs: the guesser's turn, timed by the scorer
+  | { type: 'reveal'; secret: string; salt: string }; // Sent once the round is decided
+
+export type ClientMessage =
+  | { type: 'create'; name: string; rules: GameRules }
+  | { type: 'join'; room: string; name: string }
+  | { type: 'rejoin'; room: string; token: string }
+  | { type: 'leave' }
+  | { type: 'relay'; message: GameMessage };
+
+export type ServerMessage =
+  | { type: 'joined'; room: string; seat: 0 | 1; token: string }
+  | { type: 'roomReady'; players: [string, string]; rules: GameRules }
+  | { type: 'relay'; message: GameMessage }
+  | { type: 'opponentDisconnected' }
+  | { type: 'opponentReconnected' }
+  | { type: 'opponentLeft' }
+  | { type: 'error'; message: string };
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+export const isGameMessage = (value: unknown): value is GameMessage => {
+  if (!isObject(value)) return false;
+  switch (value.type) {
+    case 'ready':
+      return typeof value.commitment === 'string';
+    case 'guess':
+      return typeof value.code === 'string';
+    case 'feedback':
+      return (
+        typeof value.code === 'string' &&
+        typeof value.bulls === 'number' &&
+        typeof value.cows === 'number' &&
+        typeof value.elapsedMs === 'number'
+      );
+    case 'reveal':
+      return typeof value.secret === 'string' && typeof value.salt === 'string';
+    default:
+      return false;
+  }
+};
+
+export const isClientMessage = (value: unknown): value is ClientMessage => {
+  if (!isObject(value)) return false;
+  switch (value.type) {
+    case 'create':
+      return typeof value.name === 'string' && isObject(value.rules);
+    case 'join':
+      return typeof value.room === 'string' && typeof value.name === 'string';
+    case 'rejoin':
+      return typeof value.room === 'string' && typeof value.token === 'string';
+    case 'leave':
+      return true;
+    case 'relay':
+      return isGameMessage(value.message);
+    default:
+      return false;
+  }
+};
+
+export const isServerMessage = (value: unknown): value is ServerMessage =>
+  isObject(value) && typeof value.type === 'string';
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { SharedGame, decodeSharedGame, encodeSharedGame, readShareHash, shareHash, toBase64Url } from './replay';
+import { DEFAULT_RULES, GameRules } from './rules';
+
+const rules: GameRules = { ...DEFAULT_RULES, alphabet: 'hex', maxAttempts: 6 };
+const replay: SharedGame = {
+  kind: 'replay',
+  rules,
+  secret: '1A2B',
+  guesses: [{ code: '0123', bulls: 1, cows: 1 }, { code: '1A2B', bulls: 4, cows: 0 }],
+};
+
+describe('shared games', () => {
+  it('round-trips replays and challenges, scoring the feedback again', () => {
+    expect(decodeSharedGame(encodeSharedGame(replay))).toEqual(replay);
+    const challenge: SharedGame = { kind: 'challenge', rules, secret: 'FED0' };
+    expect(decodeSharedGame(encodeSharedGame(challenge))).toEqual(challenge);
+    // Feedback in the link is never trusted
+    const lying = { ...replay, guesses: [{ code: '0123', bulls: 3, cows: 0 }] };
+    expect(decodeSharedGame(encodeSharedGame(lying))).toMatchObject({ guesses: [{ code: '0123', bulls: 1, cows: 1 }] });
+  });
+
+  it('reads links from the location hash only', () => {
+    expect(readShareHash(shareHash(replay))).toEqual(replay);
+    expect(readShareHash('#other=1')).toBeNull();
+    expect(readShareHash('')).toBeNull();
+  });
+
+  it('rejects damaged, foreign and impossible games', () => {
+    const encode = (text: string) => toBase64Url(text);
+    expect(decodeSharedGame('!!!')).toBeNull();
+    expect(decodeSharedGame(encode('x1.4.digits.0.10.1234'))).toBeNull();
+    expect(decodeSharedGame(encode('r1.4.runes.0.10.1234'))).toBeNull();
+    // Clamped rules, an invalid secret, a guess that breaks the rules
+    expect(decodeSharedGame(encode('r1.40.digits.0.10.1234'))).toBeNull();
+    expect(decodeSharedGame(encode('r1.4.digits.0.10.1123'))).toBeNull();
+    expect(decodeSharedGame(encode('r1.4.digits.0.10.1234.5566'))).toBeNull();
+    // Too many guesses, guesses after the crack, guesses on a challenge
+    expect(decodeSharedGame(encode('r1.4.digits.0.1.1234.5678.1234'))).toBeNull();
+    expect(decodeSharedGame(encode('r1.4.digits.0.10.1234.1234.5678'))).toBeNull();
+    expect(decodeSharedGame(encode('c1.4.digits.0.10.1234.5678'))).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import type { Guess } from './game';
+import { ALPHABETS, Alphabet, GameRules, normalizeRules } from './rules';
+import { calculateFeedback, isValidCode } from './code';
+
+// --- Shared Games ---
+// A finished game packs into a short URL-safe string: its rules, the secret and the
+// guessed codes. Feedback isn't stored; it is scored again when the link is opened,
+// so a replay can't disagree with its own secret.
+// A challenge carries only the rules and the secret, for a friend to play the same code.
+// The packing is base64url, which keeps the code from being read off the link at a
+// glance but is not encryption.
+
+export type SharedGame =
+  | { kind: 'replay'; rules: GameRules; secret: string; guesses: Guess[] }
+  | { kind: 'challenge'; rules: GameRules; secret: string };
+
+const SHARE_VERSION = 1;
+const KIND_TAGS: Record<SharedGame['kind'], string> = { replay: 'r', challenge: 'c' };
+// Links carry the payload in the fragment, which browsers never send to the server
+const HASH_KEY = 'game';
+
+// For binary strings (one char per byte); atob throws on anything that isn't base64
+export const toBase64Url = (text: string) => btoa(text).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+export const fromBase64Url = (text: string) => atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+
+// "r1.4.digits.0.10.1234.5678.1243", base64url-encoded
+export const encodeSharedGame = (game: SharedGame): string => {
+  const { rules } = game;
+  const fields = [
+    `${KIND_TAGS[game.kind]}${SHARE_VERSION}`,
+    rules.codeLength,
+    rules.alphabet,
+    rules.allowDuplicates ? 1 : 0,
+    rules.maxAttempts,
+    game.secret,
+    ...(game.kind === 'replay' ? game.guesses.map((g) => g.code) : []),
+  ];
+  return toBase64Url(fields.join('.'));
+};
+
+// The shared game in a payload, or null if it is damaged, from another version or not one of ours
+export const decodeSharedGame = (payload: string): SharedGame | null => {
+  let fields: string[];
+  try {
+    fields = fromBase64Url(payload).split('.');
+  } catch {
+    return null;
+  }
+  const [tag, length, alphabet, duplicates, attempts, secret, ...codes] = fields;
+  const kind = (Object.keys(KIND_TAGS) as SharedGame['kind'][]).find((k) => tag === `${KIND_TAGS[k]}${SHARE_VERSION}`);
+  if (!kind || !Object.keys(ALPHABETS).includes(alphabet)) return null;
+
+  const rules = normalizeRules({
+    codeLength: Number(length),
+    alphabet: alphabet as Alphabet,
+    allowDuplicates: duplicates === '1',
+    maxAttempts: Number(attempts),
+  });
+  // Rules that had to be clamped weren't written by encodeSharedGame
+  if (rules.codeLength !== Number(length) || rules.maxAttempts !== Number(attempts)) return null;
+  if (!isValidCode(rules, secret)) return null;
+  if (kind === 'challenge') return codes.length === 0 ? { kind, rules, secret } : null;
+
+  if (codes.length > rules.maxAttempts || !codes.every((code) => isValidCode(rules, code))) return null;
+  // Nothing is guessed after the code was cracked
+  if (codes.slice(0, -1).includes(secret)) return null;
+  return { kind, rules, secret, guesses: codes.map((code) => ({ code, ...calculateFeedback(secret, code) })) };
+};
+
+export const shareHash = (game: SharedGame) => `#${HASH_KEY}=${encodeSharedGame(game)}`;
+
+// The game shared in a location hash, if any
+export const readShareHash = (hash: string): SharedGame | null =>
+  hash.startsWith(`#${HASH_KEY}=`) ? decodeSharedGame(hash.slice(HASH_KEY.length + 2)) : null;
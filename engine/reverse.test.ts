@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { GameAction, GameState, createGameReducer, createInitialState } from './game';
+import { DEFAULT_RULES, GameRules } from './rules';
+import { filterCandidates } from './solver';
+import { createRng } from './rng';
+
+const rules: GameRules = DEFAULT_RULES;
+const reduce = createGameReducer(createRng(3));
+const run = (state: GameState, ...actions: GameAction[]) => actions.reduce(reduce, state);
+const start = (overrides: Partial<Extract<GameAction, { type: 'start' }>> = {}, startRules = rules) =>
+  run(createInitialState(startRules), { type: 'start', mode: 'reverse', rules: startRules, at: 0, ...overrides });
+const cpu: GameAction = { type: 'cpuGuess', at: 1 };
+
+describe('reverse games', () => {
+  it('lets the player set a code, then the CPU guesses consistently until it cracks it', () => {
+    let state = run(start(), { type: 'submit', code: '3941', at: 0 });
+    expect(state.status).toBe('playing');
+    while (state.status === 'playing') {
+      state = run(state, cpu);
+      // Every guess is still possible given the answers before it
+      const last = state.guesses[state.guesses.length - 1];
+      expect(filterCandidates([last.code], state.guesses.slice(0, -1))).toEqual([last.code]);
+    }
+    expect(state.status).toBe('lost');
+    expect(state.guesses[state.guesses.length - 1].code).toBe('3941');
+    const { remaining } = state.reverse!;
+    expect(remaining).toHaveLength(state.guesses.length);
+    expect(remaining.every((n, i) => i === 0 || n <= remaining[i - 1])).toBe(true);
+  });
+
+  it('is won by holding out for every attempt', () => {
+    let state = start({ manualScoring: true }, { ...rules, maxAttempts: 1 });
+    state = run(state, cpu);
+    state = run(state, { type: 'score', bulls: 0, cows: 0, at: 2 });
+    expect(state.status).toBe('won');
+    expect(state.finishedAt).toBe(2);
+  });
+
+  it('waits for a hand-scored answer, and ignores answers no code could get', () => {
+    let state = start({ manualScoring: true });
+    expect(state.status).toBe('playing');
+    state = run(state, cpu);
+    const pending = state.reverse!.pending;
+    expect(pending).not.toBeNull();
+    expect(run(state, cpu)).toBe(state);
+    expect(run(state, { type: 'score', bulls: 3, cows: 2, at: 2 })).toBe(state);
+    expect(run(state, { type: 'score', bulls: -1, cows: 0, at: 2 })).toBe(state);
+
+    state = run(state, { type: 'score', bulls: 0, cows: 0, at: 2 });
+    expect(state.guesses).toEqual([{ code: pending, bulls: 0, cows: 0 }]);
+    expect(state.reverse!.pending).toBeNull();
+  });
+
+  it('ends the game when the answers rule out every code', () => {
+    let state = start({ manualScoring: true });
+    state = run(state, cpu, { type: 'score', bulls: 0, cows: 0, at: 2 });
+    state = run(state, cpu);
+    const guess = state.reverse!.pending!;
+    expect(guess.split('').some((s) => state.guesses[0].code.includes(s))).toBe(false);
+    state = run(state, { type: 'score', bulls: 0, cows: 0, at: 3 });
+    // 6 digits left, 4 of them ruled out here: no unique 4-digit code remains
+    expect(state.status).toBe('lost');
+    expect(state.reverse!.lied).toBe(true);
+  });
+
+  it('needs a code space small enough to enumerate', () => {
+    const large: GameRules = { ...rules, alphabet: 'hex', codeLength: 8, allowDuplicates: true };
+    expect(start({}, large).status).toBe('menu');
+  });
+});
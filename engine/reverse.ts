@@ -0,0 +1,80 @@
+import type { GameState, GameStatus, Guess } from './game';
+import { Rng, defaultRng } from './rng';
+import { calculateFeedback } from './code';
+import { narrowCandidates, remainingCandidates, suggestGuess } from './solver';
+
+// --- Reverse Mode ---
+// The player sets the code and the CPU breaks it, always guessing a code that is still
+// consistent with the answers so far. Scored automatically, the answers come from the
+// player's code; scored by hand, the code never enters the app and the player answers
+// each guess. A hand-scored answer that rules out every code can't have been honest,
+// and ends the game there.
+// The player wins by surviving every attempt, so the code space must be small enough to enumerate.
+
+export type BreakerStrength = 'random' | 'minimax' | 'entropy';
+
+export const BREAKER_STRENGTHS: BreakerStrength[] = ['random', 'minimax', 'entropy'];
+
+export interface ReverseState {
+  strength: BreakerStrength;
+  manual: boolean; // The player scores the CPU's guesses
+  pending: string | null; // Scored by hand: the guess waiting for an answer
+  remaining: number[]; // Candidates left after each guess
+  lied: boolean; // The answers given rule out every code
+}
+
+export const createReverseState = (strength: BreakerStrength, manual: boolean): ReverseState => ({
+  strength,
+  manual,
+  pending: null,
+  remaining: [],
+  lied: false,
+});
+
+const candidatesOf = (state: GameState) => remainingCandidates(state.rules, state.guesses) ?? [];
+
+const pickGuess = (candidates: string[], strength: BreakerStrength, rng: Rng): string | null =>
+  strength === 'random' ? candidates[Math.floor(rng() * candidates.length)] ?? null : suggestGuess(candidates, strength, rng);
+
+// Record an answered guess: the CPU cracks the code, is caught out by a lie, runs out of attempts or plays on
+const answerGuess = (state: GameState, candidates: string[], guess: Guess, at: number): GameState => {
+  const reverse = state.reverse!;
+  const guesses = [...state.guesses, guess];
+  const left = narrowCandidates(candidates, [guess]).length;
+  const cracked = guess.bulls === state.rules.codeLength;
+  const lied = !cracked && left === 0;
+
+  // The player plays the code's side: cracking it (or a lie) loses, holding out wins
+  let status: GameStatus = 'playing';
+  if (cracked || lied) {
+    status = 'lost';
+  } else if (guesses.length >= state.rules.maxAttempts) {
+    status = 'won';
+  }
+  return {
+    ...state,
+    guesses,
+    status,
+    finishedAt: status === 'playing' ? null : at,
+    reverse: { ...reverse, pending: null, remaining: [...reverse.remaining, left], lied },
+  };
+};
+
+// The CPU's next guess: answered from the player's code, or left pending for the player to score
+export const cpuTurn = (state: GameState, at: number, rng: Rng = defaultRng): GameState => {
+  const { reverse } = state;
+  if (state.status !== 'playing' || !reverse || reverse.pending) return state;
+  const candidates = candidatesOf(state);
+  const code = pickGuess(candidates, reverse.strength, rng);
+  if (!code) return state;
+  if (reverse.manual) return { ...state, reverse: { ...reverse, pending: code } };
+  return answerGuess(state, candidates, { code, ...calculateFeedback(state.secret, code) }, at);
+};
+
+// The player's answer to the pending guess; answers no code could get are ignored
+export const scoreCpuGuess = (state: GameState, bulls: number, cows: number, at: number): GameState => {
+  const { reverse } = state;
+  if (state.status !== 'playing' || !reverse?.pending) return state;
+  if (![bulls, cows].every((n) => Number.isInteger(n) && n >= 0) || bulls + cows > state.rules.codeLength) return state;
+  return answerGuess(state, candidatesOf(state), { code: reverse.pending, bulls, cows }, at);
+};
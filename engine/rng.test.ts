@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { createRng, hashSeed } from './rng';
+import { generateSecretCode } from './code';
+import { DEFAULT_RULES } from './rules';
+
+describe('createRng', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    const first = Array.from({ length: 100 }, a);
+    expect(Array.from({ length: 100 }, b)).toEqual(first);
+  });
+
+  it('gives different sequences for different seeds', () => {
+    expect(Array.from({ length: 10 }, createRng(1))).not.toEqual(Array.from({ length: 10 }, createRng(2)));
+  });
+
+  it('stays within [0, 1)', () => {
+    const rng = createRng(7);
+    for (let i = 0; i < 10_000; i++) {
+      const n = rng();
+      expect(n).toBeGreaterThanOrEqual(0);
+      expect(n).toBeLessThan(1);
+    }
+  });
+
+  it('deals the same secrets from the same seed', () => {
+    const deal = (seed: number) => {
+      const rng = createRng(seed);
+      return Array.from({ length: 20 }, () => generateSecretCode(DEFAULT_RULES, rng));
+    };
+    expect(deal(hashSeed('2026-10-19'))).toEqual(deal(hashSeed('2026-10-19')));
+  });
+});
+
+describe('hashSeed', () => {
+  it('is stable and spreads nearby inputs', () => {
+    expect(hashSeed('abc')).toBe(hashSeed('abc'));
+    expect(hashSeed('room-1')).not.toBe(hashSeed('room-2'));
+  });
+});
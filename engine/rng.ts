@@ -0,0 +1,30 @@
+// --- Random Number Generation ---
+// The engine never calls Math.random() directly; every function that needs
+// randomness takes an Rng so games can be replayed from a seed.
+
+// Returns a float in [0, 1), like Math.random()
+export type Rng = () => number;
+
+export const defaultRng: Rng = () => Math.random();
+
+// Mulberry32: tiny, fast and good enough for shuffling game codes
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// FNV-1a, for turning text (a date, a room name...) into a seed
+export const hashSeed = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
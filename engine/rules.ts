@@ -0,0 +1,54 @@
+// --- Game Rules ---
+// Everything that varies between puzzles: how long the code is, which symbols
+// it is drawn from, whether symbols may repeat and how many guesses are allowed.
+
+export type Alphabet = 'digits' | 'hex' | 'letters' | 'colors';
+
+export interface GameRules {
+  codeLength: number;
+  alphabet: Alphabet;
+  allowDuplicates: boolean;
+  maxAttempts: number;
+}
+
+export const MIN_CODE_LENGTH = 3;
+export const MAX_CODE_LENGTH = 8;
+export const MIN_ATTEMPT_LIMIT = 5;
+export const MAX_ATTEMPT_LIMIT = 20;
+
+export const ALPHABETS: Record<Alphabet, { label: string; unit: string; symbols: string[] }> = {
+  digits: { label: 'Digits', unit: 'digit', symbols: '0123456789'.split('') },
+  hex: { label: 'Hex', unit: 'hex digit', symbols: '0123456789ABCDEF'.split('') },
+  letters: { label: 'Letters', unit: 'letter', symbols: 'ABCDEFGHIJ'.split('') },
+  colors: { label: 'Colors', unit: 'color', symbols: 'ROYGBPCW'.split('') },
+};
+
+export const DEFAULT_RULES: GameRules = {
+  codeLength: 4,
+  alphabet: 'digits',
+  allowDuplicates: false,
+  maxAttempts: 10,
+};
+
+// Longest code the rules allow (unique codes can't outgrow their alphabet)
+export const maxCodeLength = (rules: Pick<GameRules, 'alphabet' | 'allowDuplicates'>) =>
+  rules.allowDuplicates ? MAX_CODE_LENGTH : Math.min(MAX_CODE_LENGTH, ALPHABETS[rules.alphabet].symbols.length);
+
+// Clamp a (possibly stale or hand-edited) rules object into a playable one
+export const normalizeRules = (rules: Partial<GameRules>): GameRules => {
+  const alphabet = rules.alphabet && rules.alphabet in ALPHABETS ? rules.alphabet : DEFAULT_RULES.alphabet;
+  const allowDuplicates = rules.allowDuplicates ?? DEFAULT_RULES.allowDuplicates;
+  const clamp = (n: unknown, min: number, max: number, fallback: number) =>
+    typeof n === 'number' && Number.isFinite(n) ? Math.min(max, Math.max(min, Math.round(n))) : fallback;
+
+  return {
+    codeLength: clamp(rules.codeLength, MIN_CODE_LENGTH, maxCodeLength({ alphabet, allowDuplicates }), DEFAULT_RULES.codeLength),
+    alphabet,
+    allowDuplicates,
+    maxAttempts: clamp(rules.maxAttempts, MIN_ATTEMPT_LIMIT, MAX_ATTEMPT_LIMIT, DEFAULT_RULES.maxAttempts),
+  };
+};
+
+// e.g. "unique 4-digit", "5-color"
+export const describeRules = (rules: GameRules) =>
+  `${rules.allowDuplicates ? '' : 'unique '}${rules.codeLength}-${ALPHABETS[rules.alphabet].unit}`;
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { buildLeaderboard, rangeStart, scoreBreakdown, scoreRecord } from './score';
+import type { GameRecord } from './stats';
+import { DEFAULT_RULES } from './rules';
+
+const DAY_MS = 24 * 60 * 60_000;
+const now = new Date(2026, 4, 20, 15, 30);
+
+const record = (overrides: Partial<GameRecord> = {}): GameRecord => ({
+  id: 'r',
+  mode: 'solo',
+  rules: DEFAULT_RULES,
+  secret: '1234',
+  guesses: Array.from({ length: 5 }, () => ({ code: '1234', bulls: 4, cows: 0 })),
+  hintsUsed: 0,
+  outcome: 'won',
+  startedAt: now.getTime(),
+  durationMs: 5 * 60_000,
+  ...overrides,
+});
+
+describe('scoreBreakdown', () => {
+  it('scales the base by attempts left, speed and hints', () => {
+    // Normal difficulty, 6 of 10 attempts unused, no speed bonus
+    expect(scoreBreakdown(record())).toEqual({ base: 1000, attemptsFactor: 0.6, timeFactor: 1, hintFactor: 1, total: 600 });
+    expect(scoreBreakdown(record({ durationMs: 0 })).timeFactor).toBe(1.5);
+    // A position hint costs 3 points: 30% off
+    expect(scoreRecord(record({ hints: ['position'], hintsUsed: 1 }))).toBe(420);
+    // Older records count each hint as one point
+    expect(scoreRecord(record({ hintsUsed: 2 }))).toBe(480);
+    expect(scoreBreakdown(record({ hints: ['position', 'position', 'position'], hintsUsed: 3 })).hintFactor).toBe(0.2);
+  });
+
+  it('scores losses as zero and marathon runs per cracked code', () => {
+    expect(scoreRecord(record({ outcome: 'lost' }))).toBe(0);
+    expect(scoreRecord(record({ mode: 'marathon', solved: 3 }))).toBe(3000);
+    expect(scoreRecord(record({ mode: 'marathon', solved: 3, hints: ['absent'], hintsUsed: 1 }))).toBe(2700);
+  });
+});
+
+describe('rangeStart', () => {
+  it('starts today at midnight and the other ranges days before it', () => {
+    const midnight = new Date(2026, 4, 20).getTime();
+    expect(rangeStart('today', now)).toBe(midnight);
+    expect(rangeStart('week', now)).toBe(midnight - 6 * DAY_MS);
+    expect(rangeStart('all', now)).toBe(0);
+  });
+});
+
+describe('buildLeaderboard', () => {
+  it('ranks wins of one mode and profile within the range, best first and earliest on ties', () => {
+    const records = [
+      record({ id: 'slow', durationMs: 5 * 60_000 }),
+      record({ id: 'fast', durationMs: 0 }),
+      record({ id: 'tie', durationMs: 5 * 60_000, startedAt: now.getTime() - 1000 }),
+      record({ id: 'lost', outcome: 'lost' }),
+      record({ id: 'old', startedAt: now.getTime() - 2 * DAY_MS }),
+      record({ id: 'other', profile: 'p2' }),
+      record({ id: 'challenge', mode: 'challenge' }),
+    ];
+    const ids = (filter: Parameters<typeof buildLeaderboard>[1]) => buildLeaderboard(records, filter, now).map((e) => e.record.id);
+    expect(ids({ mode: 'solo', profile: null, range: 'today' })).toEqual(['fast', 'tie', 'slow', 'other']);
+    expect(ids({ mode: 'solo', profile: 'p2', range: 'all' })).toEqual(['other']);
+    expect(ids({ mode: 'challenge', profile: null, range: 'all' })).toEqual(['challenge']);
+  });
+});
@@ -0,0 +1,81 @@
+import type { GameMode } from './game';
+import type { GameRecord } from './stats';
+import { Difficulty, HINT_COSTS, difficultyOf } from './hints';
+
+// --- Scoring & Leaderboard ---
+// Only wins score. A win is worth a base amount for its difficulty, scaled by the
+// share of attempts left unused, a bonus for speed and a penalty per hint point.
+// A marathon run scores the base once per cracked code, with the same hint penalty.
+
+export interface ScoreBreakdown {
+  base: number;
+  attemptsFactor: number; // 1 for a first-guess crack, down to 1/maxAttempts on the last one
+  timeFactor: number; // 1.5 for an instant solve, 1 from FAST_SOLVE_MS on
+  hintFactor: number; // 1 without hints, down to MIN_HINT_FACTOR
+  total: number;
+}
+
+export type LeaderboardRange = 'today' | 'week' | 'month' | 'all';
+
+export interface LeaderboardFilter {
+  mode: GameMode;
+  profile: string | null; // null: every profile
+  range: LeaderboardRange;
+}
+
+export interface LeaderboardEntry {
+  record: GameRecord;
+  score: number;
+}
+
+const DIFFICULTY_BASE: Record<Difficulty, number> = {
+  easy: 500,
+  normal: 1000,
+  hard: 2000,
+};
+
+const FAST_SOLVE_MS = 5 * 60_000;
+const HINT_POINT_PENALTY = 0.1;
+const MIN_HINT_FACTOR = 0.2;
+export const LEADERBOARD_SIZE = 10;
+
+const DAY_MS = 24 * 60 * 60_000;
+const RANGE_DAYS: Record<Exclude<LeaderboardRange, 'all'>, number> = { today: 1, week: 7, month: 30 };
+
+export const scoreBreakdown = (record: GameRecord): ScoreBreakdown => {
+  const { rules } = record;
+  const base = DIFFICULTY_BASE[difficultyOf(rules)];
+  const attemptsFactor = Math.max(0, rules.maxAttempts - record.guesses.length + 1) / rules.maxAttempts;
+  const timeFactor = 1 + 0.5 * Math.max(0, 1 - record.durationMs / FAST_SOLVE_MS);
+  // Older records only know how many hints were used: count each as one point
+  const hintPoints = record.hints
+    ? record.hints.reduce((sum, kind) => sum + HINT_COSTS[kind].points, 0)
+    : record.hintsUsed;
+  const hintFactor = Math.max(MIN_HINT_FACTOR, 1 - HINT_POINT_PENALTY * hintPoints);
+  if (record.solved !== undefined) {
+    const total = record.outcome === 'won' ? Math.round(base * record.solved * hintFactor) : 0;
+    return { base, attemptsFactor: 1, timeFactor: 1, hintFactor, total };
+  }
+  const total = record.outcome === 'won' ? Math.round(base * attemptsFactor * timeFactor * hintFactor) : 0;
+  return { base, attemptsFactor, timeFactor, hintFactor, total };
+};
+
+export const scoreRecord = (record: GameRecord) => scoreBreakdown(record).total;
+
+// "Today" starts at local midnight; the other ranges are rolling windows
+export const rangeStart = (range: LeaderboardRange, now: Date): number => {
+  if (range === 'all') return 0;
+  const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  return midnight - (RANGE_DAYS[range] - 1) * DAY_MS;
+};
+
+// Best wins first; ties go to the earlier game
+export const buildLeaderboard = (records: GameRecord[], filter: LeaderboardFilter, now: Date = new Date()): LeaderboardEntry[] => {
+  const since = rangeStart(filter.range, now);
+  return records
+    .filter((r) => r.outcome === 'won' && r.mode === filter.mode && r.startedAt >= since)
+    .filter((r) => filter.profile === null || r.profile === filter.profile)
+    .map((record) => ({ record, score: scoreRecord(record) }))
+    .sort((a, b) => b.score - a.score || a.record.startedAt - b.record.startedAt)
+    .slice(0, LEADERBOARD_SIZE);
+};
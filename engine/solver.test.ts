@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { autoPlay, canSolve, candidateSteps, codeSpaceSize, enumerateCodes, filterCandidates, narrowCandidates, remainingCandidates } from './solver';
+import { calculateFeedback, generateSecretCode } from './code';
+import { DEFAULT_RULES, GameRules } from './rules';
+import { createRng } from './rng';
+
+const rules: GameRules = DEFAULT_RULES;
+
+describe('code space', () => {
+  it('sizes and enumerates unique and repeating codes', () => {
+    expect(codeSpaceSize(rules)).toBe(5040);
+    expect(enumerateCodes(rules)).toHaveLength(5040);
+    expect(codeSpaceSize({ ...rules, allowDuplicates: true })).toBe(10_000);
+    expect(canSolve({ ...rules, alphabet: 'hex', codeLength: 8, allowDuplicates: true })).toBe(false);
+    expect(enumerateCodes({ ...rules, alphabet: 'hex', codeLength: 8, allowDuplicates: true })).toBeNull();
+  });
+
+  it('narrows candidates the same way as filterCandidates', () => {
+    const codes = enumerateCodes(rules)!;
+    const guesses = [{ code: '0123', ...calculateFeedback('3941', '0123') }, { code: '4567', ...calculateFeedback('3941', '4567') }];
+    const narrowed = narrowCandidates(codes, guesses);
+    expect(narrowed).toEqual(filterCandidates(codes, guesses));
+    expect(narrowed).toContain('3941');
+  });
+
+  it('narrows a growing history step by step, and starts over when it changes', () => {
+    const answer = (code: string) => ({ code, ...calculateFeedback('3941', code) });
+    const first = candidateSteps(rules, [answer('0123')])!;
+    const second = candidateSteps(rules, [answer('0123'), answer('4567')])!;
+    expect(second).toHaveLength(3);
+    expect(second[1]).toBe(first[1]);
+    expect(second[2]).toEqual(filterCandidates(enumerateCodes(rules)!, [answer('0123'), answer('4567')]));
+
+    const other = remainingCandidates(rules, [{ code: '0123', bulls: 0, cows: 0 }])!;
+    expect(other).toEqual(filterCandidates(enumerateCodes(rules)!, [{ code: '0123', bulls: 0, cows: 0 }]));
+    expect(remainingCandidates({ ...rules, alphabet: 'hex', codeLength: 8, allowDuplicates: true }, [])).toBeNull();
+  });
+});
+
+describe('autoPlay', () => {
+  it('cracks seeded secrets within the attempt limit', () => {
+    const rng = createRng(5);
+    for (let i = 0; i < 10; i++) {
+      const secret = generateSecretCode(rules, rng);
+      const guesses = autoPlay(secret, rules, 'minimax', rng);
+      expect(guesses.at(-1)?.code).toBe(secret);
+      expect(guesses.length).toBeLessThanOrEqual(rules.maxAttempts);
+    }
+  });
+});
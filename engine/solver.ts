@@ -0,0 +1,238 @@
+import { ALPHABETS, GameRules } from './rules';
+import { Rng, defaultRng } from './rng';
+import { calculateFeedback } from './code';
+import type { Guess } from './game';
+
+// --- Solver ---
+// Tracks which secrets are still consistent with the recorded guesses and
+// picks the next guess that splits them best.
+
+export type SolverStrategy = 'minimax' | 'entropy';
+
+// Code spaces larger than this are not enumerated (e.g. 8 hex symbols with repeats)
+export const SOLVER_LIMIT = 200_000;
+
+// Roughly how many feedback evaluations a single suggestion may cost
+const SUGGESTION_BUDGET = 400_000;
+
+export interface GuessAnalysis {
+  guess: Guess;
+  candidatesBefore: number;
+  candidatesAfter: number;
+  // Expected number of candidates left by the player's guess and by the solver's pick
+  expectedAfter: number;
+  bestExpectedAfter: number;
+  bestGuess: string;
+}
+
+export interface GameAnalysis {
+  steps: GuessAnalysis[];
+  // Mean of bestExpectedAfter / expectedAfter over all guesses, 1 = perfect play
+  moveQuality: number;
+  // How many guesses the solver itself needs for the same secret
+  solverAttempts: number;
+}
+
+export const codeSpaceSize = (rules: GameRules): number => {
+  const n = ALPHABETS[rules.alphabet].symbols.length;
+  let size = 1;
+  for (let i = 0; i < rules.codeLength; i++) size *= rules.allowDuplicates ? n : n - i;
+  return size;
+};
+
+export const canSolve = (rules: GameRules) => codeSpaceSize(rules) <= SOLVER_LIMIT;
+
+// Every code the rules allow, in lexicographic order, or null if there are too many
+export const enumerateCodes = (rules: GameRules): string[] | null => {
+  if (!canSolve(rules)) return null;
+  const symbols = ALPHABETS[rules.alphabet].symbols;
+  const codes: string[] = [];
+  const build = (prefix: string) => {
+    if (prefix.length === rules.codeLength) {
+      codes.push(prefix);
+      return;
+    }
+    for (const symbol of symbols) {
+      if (!rules.allowDuplicates && prefix.includes(symbol)) continue;
+      build(prefix + symbol);
+    }
+  };
+  build('');
+  return codes;
+};
+
+// Scratch counters shared by feedbackIndex (indexed by char code)
+const unmatched = new Int16Array(128);
+
+// calculateFeedback packed into a single bucket index, without allocating.
+// Used in the solver's hot loops; the result is bulls * (length + 1) + cows.
+export const feedbackIndex = (secret: string, guess: string): number => {
+  const length = secret.length;
+  let bulls = 0;
+  for (let i = 0; i < length; i++) {
+    const s = secret.charCodeAt(i);
+    if (s === guess.charCodeAt(i)) bulls++;
+    else unmatched[s]++;
+  }
+  let cows = 0;
+  for (let i = 0; i < length; i++) {
+    const g = guess.charCodeAt(i);
+    if (g !== secret.charCodeAt(i) && unmatched[g] > 0) {
+      cows++;
+      unmatched[g]--;
+    }
+  }
+  for (let i = 0; i < length; i++) unmatched[secret.charCodeAt(i)] = 0;
+  return bulls * (length + 1) + cows;
+};
+
+export const isConsistent = (candidate: string, guesses: Guess[]) =>
+  guesses.every((g) => {
+    const { bulls, cows } = calculateFeedback(candidate, g.code);
+    return bulls === g.bulls && cows === g.cows;
+  });
+
+export const filterCandidates = (candidates: string[], guesses: Guess[]) =>
+  candidates.filter((c) => isConsistent(c, guesses));
+
+// filterCandidates on feedbackIndex, for whole code spaces
+export const narrowCandidates = (candidates: string[], guesses: Guess[]) => {
+  const answers = guesses.map((g) => ({ code: g.code, index: g.bulls * (g.code.length + 1) + g.cows }));
+  return candidates.filter((c) => answers.every((a) => feedbackIndex(c, a.code) === a.index));
+};
+
+// Recently narrowed histories, newest first. The reducer, the notepad and the advisor
+// keep asking about the same game as it grows, one guess at a time.
+const NARROWED_CACHE_SIZE = 4;
+const narrowed: { rules: string; guesses: Guess[]; steps: string[][] }[] = [];
+
+const sameAnswer = (a: Guess, b: Guess) => a.code === b.code && a.bulls === b.bulls && a.cows === b.cows;
+
+// The codes still consistent after each guess: [every code, after guess 1, ...], or null if
+// the space can't be enumerated. A history that extends a recent one is only narrowed by its
+// new guesses. The lists are shared between callers, so they must not be modified.
+export const candidateSteps = (rules: GameRules, guesses: Guess[]): string[][] | null => {
+  if (!canSolve(rules)) return null;
+  const key = `${rules.alphabet}/${rules.codeLength}/${rules.allowDuplicates}`;
+  let steps: string[][] | null = null;
+  for (const entry of narrowed) {
+    if (entry.rules !== key) continue;
+    let shared = 0;
+    while (shared < guesses.length && shared < entry.guesses.length && sameAnswer(guesses[shared], entry.guesses[shared])) shared++;
+    if (!steps || shared + 1 > steps.length) steps = entry.steps.slice(0, shared + 1);
+  }
+  steps ??= [enumerateCodes(rules)!];
+  for (let i = steps.length - 1; i < guesses.length; i++) steps.push(narrowCandidates(steps[i], [guesses[i]]));
+
+  narrowed.unshift({ rules: key, guesses: [...guesses], steps });
+  narrowed.splice(NARROWED_CACHE_SIZE);
+  return steps;
+};
+
+// The codes still consistent with every guess, or null if the space can't be enumerated
+export const remainingCandidates = (rules: GameRules, guesses: Guess[]): string[] | null => {
+  const steps = candidateSteps(rules, guesses);
+  return steps && steps[steps.length - 1];
+};
+
+// How many candidates land in each bulls/cows bucket if `guess` is played
+export const partitionSizes = (candidates: string[], guess: string): Int32Array => {
+  const length = guess.length;
+  const sizes = new Int32Array((length + 1) * (length + 1));
+  for (const candidate of candidates) sizes[feedbackIndex(candidate, guess)]++;
+  return sizes;
+};
+
+// Expected number of candidates left after playing `guess`
+export const expectedRemaining = (candidates: string[], guess: string): number => {
+  if (candidates.length === 0) return 0;
+  let sumSquares = 0;
+  for (const size of partitionSizes(candidates, guess)) sumSquares += size * size;
+  return sumSquares / candidates.length;
+};
+
+// Lower is better for both strategies
+const guessCost = (candidates: string[], guess: string, strategy: SolverStrategy): number => {
+  const sizes = partitionSizes(candidates, guess);
+  if (strategy === 'minimax') {
+    let worst = 0;
+    for (const size of sizes) worst = Math.max(worst, size);
+    return worst;
+  }
+  // Negative expected information in bits
+  let entropy = 0;
+  for (const size of sizes) {
+    if (size === 0) continue;
+    const p = size / candidates.length;
+    entropy -= p * Math.log2(p);
+  }
+  return -entropy;
+};
+
+// Best next guess drawn from the remaining candidates. Large candidate sets are
+// scored against a random sample of guesses to keep the cost bounded.
+export const suggestGuess = (candidates: string[], strategy: SolverStrategy = 'minimax', rng: Rng = defaultRng): string | null => {
+  if (candidates.length <= 2) return candidates[0] ?? null;
+
+  const poolSize = Math.max(24, Math.floor(SUGGESTION_BUDGET / candidates.length));
+  let pool = candidates;
+  if (candidates.length > poolSize) {
+    pool = [];
+    for (let i = 0; i < poolSize; i++) pool.push(candidates[Math.floor(rng() * candidates.length)]);
+  }
+
+  let best = pool[0];
+  let bestCost = Infinity;
+  for (const guess of pool) {
+    const cost = guessCost(candidates, guess, strategy);
+    if (cost < bestCost) {
+      best = guess;
+      bestCost = cost;
+    }
+  }
+  return best;
+};
+
+// Plays a whole game against `secret` and returns every guess made.
+// Stops at `maxGuesses` even if the code is still unbroken.
+export const autoPlay = (secret: string, rules: GameRules, strategy: SolverStrategy = 'minimax', rng: Rng = defaultRng, maxGuesses = 50): Guess[] => {
+  let candidates = enumerateCodes(rules);
+  if (!candidates) return [];
+  const guesses: Guess[] = [];
+  while (guesses.length < maxGuesses) {
+    const code = suggestGuess(candidates, strategy, rng);
+    if (!code) break;
+    const guess = { code, ...calculateFeedback(secret, code) };
+    guesses.push(guess);
+    if (guess.bulls === rules.codeLength) break;
+    candidates = filterCandidates(candidates, [guess]);
+  }
+  return guesses;
+};
+
+// Compares every guess of a finished game with what the solver would have played
+export const analyzeGame = (secret: string, rules: GameRules, guesses: Guess[], strategy: SolverStrategy = 'minimax', rng: Rng = defaultRng): GameAnalysis | null => {
+  let candidates = enumerateCodes(rules);
+  if (!candidates) return null;
+
+  const steps: GuessAnalysis[] = [];
+  for (const guess of guesses) {
+    const bestGuess = suggestGuess(candidates, strategy, rng) ?? guess.code;
+    const remaining = filterCandidates(candidates, [guess]);
+    steps.push({
+      guess,
+      candidatesBefore: candidates.length,
+      candidatesAfter: remaining.length,
+      expectedAfter: expectedRemaining(candidates, guess.code),
+      bestExpectedAfter: expectedRemaining(candidates, bestGuess),
+      bestGuess,
+    });
+    candidates = remaining;
+  }
+
+  const moveQuality = steps.length === 0
+    ? 1
+    : steps.reduce((sum, s) => sum + Math.min(1, s.bestExpectedAfter / Math.max(s.expectedAfter, 1e-9)), 0) / steps.length;
+
+  return { steps, moveQuality, solverAttempts: autoPlay(secret, rules, strategy, rng).length };
+};
@@ -0,0 +1,137 @@
+import { GameRules, normalizeRules } from './rules';
+import type { GameMode, GameState, Guess } from './game';
+import { HINT_KINDS, HintKind } from './hints';
+import { runHints } from './clock';
+
+// --- Game Records & Statistics ---
+
+export interface GameRecord {
+  id: string;
+  mode: GameMode;
+  player?: string; // Versus only: whose board this record describes
+  profile?: string; // Id of the local profile that played it (stamped by the app, not the engine)
+  rules: GameRules;
+  secret: string;
+  guesses: Guess[];
+  hintsUsed: number;
+  hints?: HintKind[]; // Which hints were taken, in order (absent from older records)
+  solved?: number; // Marathon only: codes cracked in the run. `secret` and `guesses` are the unfinished last code.
+  outcome: 'won' | 'lost';
+  startedAt: number;
+  durationMs: number;
+}
+
+export interface GameStats {
+  played: number;
+  wins: number;
+  winRate: number; // 0..1
+  currentStreak: number;
+  bestStreak: number;
+  // distribution[n - 1] = games won in exactly n attempts (marathon runs and reverse games aren't counted)
+  distribution: number[];
+  averageSolveMs: number | null;
+}
+
+// Snapshot of a finished game, or nothing while it is still undecided.
+// A versus round yields one record per player, each against the opponent's code.
+// Online, only the local player's board is recorded, once the opponent has revealed their code.
+export const createGameRecords = (state: GameState): GameRecord[] => {
+  if ((state.status !== 'won' && state.status !== 'lost') || state.startedAt === null || state.finishedAt === null) return [];
+  const { match, online, startedAt } = state;
+  if (match) {
+    if (online && !match.players[online.me === 0 ? 1 : 0].secret) return [];
+    const records = match.players.map((board, i): GameRecord => ({
+      id: `${state.mode}-${startedAt}-${i}`,
+      mode: state.mode,
+      player: board.name,
+      rules: state.rules,
+      secret: match.players[i === 0 ? 1 : 0].secret,
+      guesses: board.guesses.map(({ code, bulls, cows }) => ({ code, bulls, cows })),
+      hintsUsed: board.hints.clues.length,
+      hints: board.hints.clues.map((c) => c.kind),
+      outcome: match.roundWinner === i ? 'won' : 'lost',
+      startedAt,
+      durationMs: board.timeMs,
+    }));
+    return online ? [records[online.me]] : records;
+  }
+  // A marathon run counts the hints of every code it played, not just the last one
+  const hints = [...(state.marathon ? runHints(state.marathon) : []), ...state.hints.clues.map((c) => c.kind)];
+  return [{
+    id: `${state.mode}-${state.startedAt}`,
+    mode: state.mode,
+    rules: state.rules,
+    secret: state.secret,
+    guesses: state.guesses.map(({ code, bulls, cows }) => ({ code, bulls, cows })),
+    hintsUsed: hints.length,
+    hints,
+    outcome: state.status,
+    ...(state.marathon ? { solved: state.marathon.solved } : {}),
+    startedAt,
+    durationMs: state.finishedAt - startedAt,
+  }];
+};
+
+export const computeStats = (records: GameRecord[]): GameStats => {
+  const ordered = [...records].sort((a, b) => a.startedAt - b.startedAt);
+  const wins = ordered.filter((r) => r.outcome === 'won');
+  // A marathon run always lasts its full clock and ends on an unfinished code;
+  // a reverse win is a code that held out against the CPU, not a solve
+  const solves = wins.filter((r) => r.solved === undefined && r.mode !== 'reverse');
+
+  let currentStreak = 0;
+  let bestStreak = 0;
+  for (const record of ordered) {
+    currentStreak = record.outcome === 'won' ? currentStreak + 1 : 0;
+    bestStreak = Math.max(bestStreak, currentStreak);
+  }
+
+  // One bar per attempt, up to the most generous attempt limit that was played
+  const maxAttempts = ordered.reduce((max, r) => Math.max(max, r.rules.maxAttempts), 0);
+  const distribution = new Array<number>(maxAttempts).fill(0);
+  for (const record of solves) distribution[record.guesses.length - 1]++;
+
+  return {
+    played: ordered.length,
+    wins: wins.length,
+    winRate: ordered.length === 0 ? 0 : wins.length / ordered.length,
+    currentStreak,
+    bestStreak,
+    distribution,
+    averageSolveMs: solves.length === 0 ? null : solves.reduce((sum, r) => sum + r.durationMs, 0) / solves.length,
+  };
+};
+
+const isGuess = (value: unknown): value is Guess => {
+  const g = value as Guess;
+  return typeof g === 'object' && g !== null && typeof g.code === 'string' && typeof g.bulls === 'number' && typeof g.cows === 'number';
+};
+
+// Validates one record from untrusted JSON (imports, old storage), normalizing its rules
+export const parseGameRecord = (value: unknown): GameRecord | null => {
+  const r = value as GameRecord;
+  if (typeof r !== 'object' || r === null) return null;
+  if (typeof r.id !== 'string' || typeof r.secret !== 'string') return null;
+  if (!['solo', 'multiplayer', 'daily', 'online', 'blitz', 'marathon', 'challenge', 'evil', 'reverse'].includes(r.mode)) return null;
+  if (r.outcome !== 'won' && r.outcome !== 'lost') return null;
+  if (!Array.isArray(r.guesses) || !r.guesses.every(isGuess)) return null;
+  if (typeof r.startedAt !== 'number' || typeof r.durationMs !== 'number') return null;
+  const rules = normalizeRules(typeof r.rules === 'object' && r.rules !== null ? r.rules : {});
+  if (r.mode === 'marathon' && typeof r.solved !== 'number') return null;
+  if (r.mode !== 'marathon' && r.outcome === 'won' && (r.guesses.length === 0 || r.guesses.length > rules.maxAttempts)) return null;
+  return {
+    id: r.id,
+    mode: r.mode,
+    ...(typeof r.player === 'string' ? { player: r.player } : {}),
+    ...(typeof r.profile === 'string' ? { profile: r.profile } : {}),
+    rules,
+    secret: r.secret,
+    guesses: r.guesses.map(({ code, bulls, cows }) => ({ code, bulls, cows })),
+    hintsUsed: typeof r.hintsUsed === 'number' ? r.hintsUsed : 0,
+    ...(Array.isArray(r.hints) ? { hints: r.hints.filter((kind) => HINT_KINDS.includes(kind)) } : {}),
+    outcome: r.outcome,
+    ...(r.mode === 'marathon' ? { solved: r.solved } : {}),
+    startedAt: r.startedAt,
+    durationMs: r.durationMs,
+  };
+};
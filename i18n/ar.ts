@@ -0,0 +1,361 @@
+import type { Catalog } from './index';
+
+// Arabic (right to left). Counted nouns take all six plural forms: the singular and dual
+// stand without the number, 3–10 take the plural, 11–99 and 100+ the singular.
+export const ar: Catalog = {
+  // Symbols and rules
+  'color.R': 'أحمر',
+  'color.O': 'برتقالي',
+  'color.Y': 'أصفر',
+  'color.G': 'أخضر',
+  'color.B': 'أزرق',
+  'color.P': 'بنفسجي',
+  'color.C': 'سماوي',
+  'color.W': 'أبيض',
+  'alphabet.digits': 'أرقام',
+  'alphabet.hex': 'ست عشري',
+  'alphabet.letters': 'حروف',
+  'alphabet.colors': 'ألوان',
+  'unit.digits': { zero: 'رقم', one: 'رقم', two: 'رقمان', few: 'أرقام', many: 'رقمًا', other: 'رقم' },
+  'unit.hex': { zero: 'رمز ست عشري', one: 'رمز ست عشري', two: 'رمزان ست عشريان', few: 'رموز ست عشرية', many: 'رمزًا ست عشريًا', other: 'رمز ست عشري' },
+  'unit.letters': { zero: 'حرف', one: 'حرف', two: 'حرفان', few: 'أحرف', many: 'حرفًا', other: 'حرف' },
+  'unit.colors': { zero: 'لون', one: 'لون', two: 'لونان', few: 'ألوان', many: 'لونًا', other: 'لون' },
+  'rules.describe.unique': 'من {length} {units} دون تكرار',
+  'rules.describe.repeats': 'من {length} {units}',
+  'rules.summary': '{length} · {alphabet} · {repeats} · {tries}',
+  'rules.tries': { zero: 'بلا محاولات', one: 'محاولة واحدة', two: 'محاولتان', few: '{count} محاولات', many: '{count} محاولة', other: '{count} محاولة' },
+  'rules.length': 'الطول',
+  'rules.symbols': 'الرموز',
+  'rules.repeats': 'التكرار',
+  'rules.unique': 'دون تكرار',
+  'rules.allowed': 'مسموح',
+  'rules.attempts': 'المحاولات',
+  'rules.advisor': 'المستشار',
+  'mode.solo': 'فردي',
+  'mode.multiplayer': 'مواجهة',
+  'mode.daily': 'يومي',
+  'mode.online': 'عبر الإنترنت',
+  'mode.blitz': 'خاطف',
+  'mode.marathon': 'ماراثون',
+  'mode.challenge': 'تحدٍّ',
+  'mode.evil': 'الحاسوب الماكر',
+  'mode.reverse': 'معكوس',
+  'breaker.random': 'عشوائي',
+  'breaker.minimax': 'أدنى الأقصى',
+  'breaker.entropy': 'إنتروبيا',
+  'difficulty.easy': 'سهل',
+  'difficulty.normal': 'عادي',
+  'difficulty.hard': 'صعب',
+  'player.default': 'اللاعب {number}',
+  'count.attempts': { zero: 'بلا محاولات', one: 'محاولة واحدة', two: 'محاولتان', few: '{count} محاولات', many: '{count} محاولة', other: '{count} محاولة' },
+
+  // Feedback
+  'feedback.describe': '{bulls}، {cows}',
+  'feedback.bulls': { zero: 'لا ثيران', one: 'ثور واحد', two: 'ثوران', few: '{count} ثيران', many: '{count} ثورًا', other: '{count} ثور' },
+  'feedback.cows': { zero: 'لا بقرات', one: 'بقرة واحدة', two: 'بقرتان', few: '{count} بقرات', many: '{count} بقرة', other: '{count} بقرة' },
+  'feedback.short': '{bulls}ث{cows}ب',
+  'feedback.bull': 'ثور',
+  'feedback.cow': 'بقرة',
+  'feedback.miss': 'خطأ',
+
+  // Input
+  'error.incomplete': 'الرمز غير مكتمل.',
+  'error.duplicate': 'لا يجوز تكرار الرموز.',
+  'error.invalid-symbol': 'ليس من رموز هذه الشيفرة.',
+  'error.no-hint': 'لا يوجد تلميح متاح.',
+  'keypad.delete': 'حذف',
+  'keypad.submit': 'إرسال',
+  'keypad.ruledOut': '{symbol}، مستبعد',
+
+  // Common
+  'common.back': 'رجوع',
+  'common.cancel': 'إلغاء',
+  'common.close': 'إغلاق',
+  'common.copied': 'تم النسخ',
+  'common.done': 'تم',
+  'common.export': 'تصدير',
+  'common.left': 'بقي {count}',
+
+  // Header and settings
+  'header.home': 'العودة إلى القائمة',
+  'header.reconnecting': 'جارٍ إعادة الاتصال',
+  'settings.open': 'المظهر واللغة',
+  'settings.theme': 'المظهر',
+  'settings.language': 'اللغة',
+  'theme.light': 'فاتح',
+  'theme.dark': 'داكن',
+  'theme.midnight': 'منتصف الليل',
+  'theme.contrast': 'تباين عالٍ',
+  'update.ready': 'يتوفر إصدار جديد.',
+  'update.apply': 'تحديث',
+  'update.later': 'لاحقًا',
+
+  // Menu
+  'menu.title.1': 'فُكّ',
+  'menu.title.2': 'رموز',
+  'menu.title.3': 'الشيفرة.',
+  'menu.tagline': 'منطق واستنتاج. اعثر على التسلسل {rules}.',
+  'profile.default': 'لاعب',
+  'profile.confirmRemove': 'حذف الملف الشخصي "{name}"؟ تبقى ألعابه في السجل.',
+  'profile.remove': 'حذف الملف الشخصي {name}',
+  'profile.new': 'ملف شخصي جديد',
+  'profile.add': 'إضافة ملف شخصي',
+  'menu.continue': 'متابعة اللعبة',
+  'menu.creatingKey': 'إنشاء المفتاح',
+  'menu.handover': 'تسليم الجهاز',
+  'menu.solo': 'لعب فردي',
+  'menu.solo.sub': 'تغلّب على الحاسوب',
+  'menu.evil': 'الحاسوب الماكر',
+  'menu.evil.sub': 'لا يلتزم أبدًا',
+  'menu.reverse': 'معكوس',
+  'menu.reverse.sub': 'الحاسوب يفك رمزك',
+  'menu.versus': 'مواجهة',
+  'menu.versus.sub': 'تحدَّ صديقًا',
+  'menu.online': 'عبر الإنترنت',
+  'menu.online.sub': 'وجهًا لوجه',
+  'menu.online.offline': 'يحتاج إلى اتصال',
+  'menu.challenge': 'تحدٍّ عن بُعد',
+  'menu.challenge.sub': 'أرسل رمزًا',
+  'menu.blitz': 'خاطف',
+  'menu.blitz.sub': 'سابق الوقت',
+  'menu.marathon': 'ماراثون',
+  'menu.marathon.sub': 'رموز في {time}',
+  'menu.daily': 'الشيفرة اليومية',
+  'menu.daily.solved': 'حُلّت في {count}',
+  'menu.daily.failed': 'فشلت',
+  'menu.daily.inProgress': 'قيد اللعب',
+  'menu.daily.today': 'لغز اليوم',
+  'menu.stats': 'الإحصاءات',
+  'menu.stats.sub': { zero: 'لا ألعاب', one: 'لعبة واحدة', two: 'لعبتان', few: '{count} ألعاب', many: '{count} لعبة', other: '{count} لعبة' },
+  'menu.leaderboard': 'لوحة الصدارة',
+  'menu.leaderboard.sub': 'أعلى النتائج',
+  'reverse.cpu': 'الحاسوب',
+  'reverse.scoring': 'التقييم',
+  'reverse.auto': 'تلقائي',
+  'reverse.manual': 'يدوي',
+  'reverse.tooMany': 'الرموز المحتملة أكثر مما يحتمله الحاسوب. قصّر الرمز أو استخدم رموزًا أقل.',
+  'reverse.start': 'ابدأ',
+  'reverse.setCode': 'اختر رمزك',
+  'versus.bestOf': 'الأفضل من',
+  'versus.start': 'ابدأ المباراة',
+  'online.roomCode': 'رمز الغرفة',
+  'online.reconnecting': 'جارٍ إعادة الاتصال…',
+  'online.waiting': 'بانتظار خصم…',
+  'online.yourName': 'اسمك',
+  'online.create': 'أنشئ غرفة',
+  'online.codePlaceholder': 'الرمز',
+  'online.join': 'انضم',
+  'challenge.set': 'اختر رمزًا',
+  'challenge.paste': 'الصق نتيجة',
+  'challenge.check': 'تحقق',
+  'challenge.cracked': 'فُكّ في {count}/{max}',
+  'challenge.held': {
+    zero: 'صمد رمزك',
+    one: 'صمد رمزك أمام محاولته الوحيدة',
+    two: 'صمد رمزك أمام المحاولتين',
+    few: 'صمد رمزك أمام المحاولات الـ{count} كلها',
+    many: 'صمد رمزك أمام الـ{count} محاولة كلها',
+    other: 'صمد رمزك أمام الـ{count} محاولة كلها',
+  },
+  'challenge.damaged': 'رابط التحدي هذا تالف أو ناقص.',
+  'challenge.insecure': 'لا يمكن ختم الروابط إلا عندما يُقدَّم التطبيق عبر https.',
+  'challenge.notResult': 'هذه ليست سلسلة نتيجة.',
+  'challenge.otherDevice': 'هذه النتيجة لرمز أُرسل من جهاز آخر.',
+  'challenge.mismatch': 'هذه النتيجة لا تطابق الرمز الذي لُعبت ضده.',
+  'blitz.clock': 'الساعة',
+  'blitz.game': '{time} للعبة',
+  'blitz.guess': '{time} للتخمين',
+  'blitz.start': 'ابدأ الخاطف',
+
+  // Setting a code and handing over
+  'setup.yourCode': 'رمزك',
+  'setup.title': 'أنشئ المفتاح',
+  'setup.enter.unique': 'أدخل {count} {units} دون تكرار.',
+  'setup.enter.repeats': 'أدخل {count} {units}.',
+  'waiting.guessing': 'يخمّن الآن…',
+  'waiting.setting': 'ينشئ مفتاحه…',
+  'disconnected.left': 'غادر الخصم',
+  'disconnected.lost': 'انقطع الاتصال',
+  'disconnected.leftText': 'غادر {name} المباراة.',
+  'disconnected.waiting': 'بانتظار عودة {name}…',
+  'disconnected.leave': 'غادر المباراة',
+  'share.qr': 'رمز QR لرابط التحدي',
+  'share.title': 'أرسل رمزك',
+  'share.text': 'يمسح صديقك هذا الرمز أو يفتح الرابط ليلعبه. عندما يعيد إليك نتيجته، الصقها تحت التحدي عن بُعد.',
+  'share.copyLink': 'نسخ الرابط',
+  'handover.title': 'تسليم الجهاز',
+  'handover.pass': 'سلّم الجهاز إلى {name}.',
+  'handover.secret': 'أبقِ الرمز سرًا.',
+  'handover.lastChance': 'فكّ {name} الرمز. فرصة أخيرة لتعادله!',
+  'handover.start': 'ابدأ التخمين',
+
+  // Playing
+  'play.empty': 'النظام آمن',
+  'play.pickGuess': 'المس تخمينًا لتلوينه',
+  'play.colorGuess': 'لوّن التخمين {number}',
+  'play.byHint': 'لعبه تلميح',
+  'play.daily': 'اليومية رقم {number}',
+  'play.attempt': 'المحاولة {number}/{max}',
+  'play.cpuAttempt': 'محاولة الحاسوب {number}/{max}',
+  'play.cracked': 'فُكّ {count}',
+  'play.candidates': { zero: 'لا احتمالات', one: 'احتمال واحد', two: 'احتمالان', few: '{count} احتمالات', many: '{count} احتمالًا', other: '{count} احتمال' },
+  'play.timeLeft': 'بقي {time}',
+  'play.suggest': 'اقترح',
+  'play.auto': 'تلقائي',
+  'play.stop': 'أوقف',
+  'play.scoring': 'جارٍ التقييم',
+  'play.notes': 'ملاحظات',
+  'play.hint': 'تلميح ({count})',
+  'play.clue.position': 'الخانة {number} = {symbol}',
+  'play.clue.absent': 'لا {symbol}',
+  'play.again': 'العب مجددًا',
+  'hint.absent.title': 'رمز غائب',
+  'hint.absent.text': 'يسمّي رمزًا ليس في الشيفرة',
+  'hint.color.title': 'لوّن تخمينًا',
+  'hint.color.text': 'يعلّم كل رمز في تخمين بأنه ثور أو بقرة أو خطأ',
+  'hint.position.title': 'اكشف خانة',
+  'hint.position.text': 'يُظهر رمزًا واحدًا في موضعه الصحيح',
+  'hint.narrow.title': 'ضيّق الاحتمالات',
+  'hint.narrow.text': 'يلعب أفضل تخمين فاصل لدى الحلّال',
+  'hint.points': { zero: '{count} ن', one: 'نقطة', two: 'نقطتان', few: '{count} نقاط', many: '{count} نقطة', other: '{count} نقطة' },
+  'hint.pointsLeft': {
+    zero: '{difficulty} · لم تبقَ نقاط',
+    one: '{difficulty} · بقيت نقطة واحدة',
+    two: '{difficulty} · بقيت نقطتان',
+    few: '{difficulty} · بقيت {count} نقاط',
+    many: '{difficulty} · بقيت {count} نقطة',
+    other: '{difficulty} · بقيت {count} نقطة',
+  },
+  'cpu.guesses': 'يخمّن الحاسوب',
+  'cpu.yourCode': 'رمزك · حاسوب {strength}',
+  'cpu.bulls': 'ثيران',
+  'cpu.cows': 'بقرات',
+  'cpu.answer': 'أجب',
+  'cpu.thinking': 'يفكّر',
+  'notes.cell': '{symbol} في الموضع {position}: {mark}',
+  'notes.cellDeduced': '{symbol} في الموضع {position}: {mark} (مستنتج)',
+  'notes.mark.blank': 'بلا ملاحظة',
+  'notes.mark.excluded': 'مستبعد',
+  'notes.mark.possible': 'محتمل',
+  'notes.mark.confirmed': 'مؤكد',
+  'notes.legend': '✕ لا · ? ربما · ● هنا',
+  'notes.autoFill': 'ملء تلقائي',
+
+  // Announcements
+  'announce.guess': 'التخمين {number}: {code}. {feedback}.',
+  'announce.cpuGuess': 'يخمّن الحاسوب {code}. قيّمه.',
+  'announce.result': '{title}. {message}',
+
+  // Results
+  'result.lied': 'لقد كذبت',
+  'result.held': 'صمد الرمز',
+  'result.cracked': 'فُكّ الرمز',
+  'result.timeUp': 'انتهى الوقت',
+  'result.unlocked': 'فُتح القفل',
+  'result.timedOut': 'نفد الوقت',
+  'result.failed': 'فشل',
+  'result.deadlock': 'تعادل',
+  'result.lied.text': {
+    zero: 'لا يطابق أي رمز إجاباتك.',
+    one: 'لا يطابق أي رمز الإجابة التي قدمتها.',
+    two: 'لا يطابق أي رمز الإجابتين اللتين قدمتهما.',
+    few: 'لا يطابق أي رمز الإجابات الـ{count} التي قدمتها.',
+    many: 'لا يطابق أي رمز الـ{count} إجابة التي قدمتها.',
+    other: 'لا يطابق أي رمز الـ{count} إجابة التي قدمتها.',
+  },
+  'result.held.text': 'نفدت محاولات الحاسوب.',
+  'result.cracked.text': {
+    zero: 'فكّه الحاسوب.',
+    one: 'فكّه الحاسوب في محاولة واحدة.',
+    two: 'فكّه الحاسوب في محاولتين.',
+    few: 'فكّه الحاسوب في {count} محاولات.',
+    many: 'فكّه الحاسوب في {count} محاولة.',
+    other: 'فكّه الحاسوب في {count} محاولة.',
+  },
+  'result.marathon.text': {
+    zero: 'لم يُفكّ أي رمز قبل نفاد الوقت.',
+    one: 'فُكّ رمز واحد قبل نفاد الوقت.',
+    two: 'فُكّ رمزان قبل نفاد الوقت.',
+    few: 'فُكّت {count} رموز قبل نفاد الوقت.',
+    many: 'فُكّ {count} رمزًا قبل نفاد الوقت.',
+    other: 'فُكّ {count} رمز قبل نفاد الوقت.',
+  },
+  'result.marathon.none': 'لم يُفكّ أي رمز في الوقت.',
+  'result.won.text': {
+    zero: 'عُثر على التسلسل.',
+    one: 'عُثر على التسلسل في محاولة واحدة.',
+    two: 'عُثر على التسلسل في محاولتين.',
+    few: 'عُثر على التسلسل في {count} محاولات.',
+    many: 'عُثر على التسلسل في {count} محاولة.',
+    other: 'عُثر على التسلسل في {count} محاولة.',
+  },
+  'result.timedOut.text': 'نفد الوقت.',
+  'result.lost.text': 'بدأ الإغلاق الأمني.',
+  'round.void.tiebreak': 'فكّه كلاكما في الدور نفسه وفي الوقت نفسه. الجولة ملغاة.',
+  'round.void': 'لم يفكّ أحد أي رمز. الجولة ملغاة.',
+  'round.won': 'فكّه {name} في {count} وفاز بالجولة {round}.',
+  'round.wonMatch': 'فكّه {name} في {count} وفاز بالمباراة.',
+  'round.faster': 'فكّه كلاكما في {count}، وكان {name} أسرع ({time} ث مقابل {otherTime} ث) وفاز بالجولة {round}.',
+  'round.fasterMatch': 'فكّه كلاكما في {count}، وكان {name} أسرع ({time} ث مقابل {otherTime} ث) وفاز بالمباراة.',
+  'score.marathon': '{base} أساس × {count} مفكوك',
+  'score.single': '{base} أساس × {tries}% محاولات × {speed}% سرعة',
+  'score.hints': ' × {percent}% تلميحات',
+  'match.firstTo': 'الفائز أول من يبلغ {count}',
+  'daily.share': 'شارك النتيجة',
+  'result.hintsUsed': { zero: 'بلا تلميحات', one: 'تلميح واحد مستخدم', two: 'تلميحان مستخدمان', few: '{count} تلميحات مستخدمة', many: '{count} تلميحًا مستخدمًا', other: '{count} تلميح مستخدم' },
+  'result.pointsSpent': { zero: 'بلا نقاط مصروفة', one: 'نقطة واحدة مصروفة', two: 'نقطتان مصروفتان', few: '{count} نقاط مصروفة', many: '{count} نقطة مصروفة', other: '{count} نقطة مصروفة' },
+  'result.analysis': 'جودة النقلات {quality}% · يحتاج الحلّال {count}',
+  'key.player': 'مفتاح {name}',
+  'key.yours': 'مفتاحك',
+  'key.secret': 'المفتاح السري',
+  'key.verified': 'موثّق',
+  'key.tampered': 'معبوث به',
+  'key.pending': 'بانتظار الكشف',
+  'challenge.sendBack': 'أرسل هذا إلى من اختار الرمز',
+  'challenge.copyResult': 'انسخ النتيجة',
+  'share.replay': 'رابط الإعادة',
+  'share.challenge': 'تحدَّ صديقًا',
+  'match.next': 'الجولة التالية',
+  'match.end': 'أنهِ المباراة',
+  'result.restart': 'أعد تشغيل النظام',
+
+  // Replay viewer
+  'replay.title': 'إعادة',
+  'replay.cracked': 'فُكّ في {count}',
+  'replay.failed': 'فشل بعد {count}',
+  'replay.secret': 'المفتاح السري {code}',
+  'replay.first': 'التخمين الأول',
+  'replay.previous': 'التخمين السابق',
+  'replay.next': 'التخمين التالي',
+  'replay.last': 'التخمين الأخير',
+  'replay.solver': 'عرض الحلّال',
+
+  // Statistics
+  'stats.title': 'الإحصاءات',
+  'stats.all': 'الكل',
+  'stats.played': 'لُعبت',
+  'stats.winRate': '% الفوز',
+  'stats.averageSolve': 'متوسط الحل',
+  'stats.currentStreak': 'السلسلة الحالية',
+  'stats.bestStreak': 'أفضل سلسلة',
+  'stats.distribution': 'المحاولات حتى الحل',
+  'stats.empty': 'لا ألعاب منتهية بعد.',
+  'stats.import': 'استيراد',
+  'stats.clear': 'مسح',
+  'stats.confirmClear': 'حذف كل الألعاب المسجلة؟',
+  'stats.importFailed': 'فشل الاستيراد.',
+  'stats.importNotJson': 'الملف ليس بتنسيق JSON صالح.',
+  'stats.importNoHistory': 'لا يحتوي الملف على سجل ألعاب.',
+  'stats.importUnreadable': 'تعذرت قراءة أي من الألعاب في هذا الملف.',
+
+  // Leaderboard
+  'leaderboard.title': 'لوحة الصدارة',
+  'leaderboard.today': 'اليوم',
+  'leaderboard.week': '7 أيام',
+  'leaderboard.month': '30 يومًا',
+  'leaderboard.all': 'كل الأوقات',
+  'leaderboard.everyone': 'الجميع',
+  'leaderboard.unknown': 'مجهول',
+  'leaderboard.empty': 'لا انتصارات مسجلة هنا بعد.',
+  'leaderboard.hints': { zero: 'بلا تلميحات', one: 'تلميح واحد', two: 'تلميحان', few: '{count} تلميحات', many: '{count} تلميحًا', other: '{count} تلميح' },
+};
@@ -0,0 +1,317 @@
+// English: the reference catalog. Every other language has exactly these keys.
+
+export const en = {
+  // Symbols and rules
+  'color.R': 'red',
+  'color.O': 'orange',
+  'color.Y': 'yellow',
+  'color.G': 'green',
+  'color.B': 'blue',
+  'color.P': 'purple',
+  'color.C': 'cyan',
+  'color.W': 'white',
+  'alphabet.digits': 'Digits',
+  'alphabet.hex': 'Hex',
+  'alphabet.letters': 'Letters',
+  'alphabet.colors': 'Colors',
+  'unit.digits': { one: 'digit', other: 'digits' },
+  'unit.hex': { one: 'hex digit', other: 'hex digits' },
+  'unit.letters': { one: 'letter', other: 'letters' },
+  'unit.colors': { one: 'color', other: 'colors' },
+  'rules.describe.unique': 'unique {length}-{unit}',
+  'rules.describe.repeats': '{length}-{unit}',
+  'rules.summary': '{length} · {alphabet} · {repeats} · {tries}',
+  'rules.tries': { one: '{count} try', other: '{count} tries' },
+  'rules.length': 'Length',
+  'rules.symbols': 'Symbols',
+  'rules.repeats': 'Repeats',
+  'rules.unique': 'Unique',
+  'rules.allowed': 'Allowed',
+  'rules.attempts': 'Attempts',
+  'rules.advisor': 'Advisor',
+  'mode.solo': 'Solo',
+  'mode.multiplayer': 'Versus',
+  'mode.daily': 'Daily',
+  'mode.online': 'Online',
+  'mode.blitz': 'Blitz',
+  'mode.marathon': 'Marathon',
+  'mode.challenge': 'Challenge',
+  'mode.evil': 'Evil CPU',
+  'mode.reverse': 'Reverse',
+  'breaker.random': 'Random',
+  'breaker.minimax': 'Minimax',
+  'breaker.entropy': 'Entropy',
+  'difficulty.easy': 'Easy',
+  'difficulty.normal': 'Normal',
+  'difficulty.hard': 'Hard',
+  'player.default': 'Player {number}',
+  'count.attempts': { one: '{count} attempt', other: '{count} attempts' },
+
+  // Feedback
+  'feedback.describe': '{bulls}, {cows}',
+  'feedback.bulls': { one: '{count} bull', other: '{count} bulls' },
+  'feedback.cows': { one: '{count} cow', other: '{count} cows' },
+  'feedback.short': '{bulls}B{cows}C',
+  'feedback.bull': 'bull',
+  'feedback.cow': 'cow',
+  'feedback.miss': 'miss',
+
+  // Input
+  'error.incomplete': 'Code incomplete.',
+  'error.duplicate': 'Symbols may not repeat.',
+  'error.invalid-symbol': 'Not a symbol of this code.',
+  'error.no-hint': 'No hint available.',
+  'keypad.delete': 'Delete',
+  'keypad.submit': 'Submit',
+  'keypad.ruledOut': '{symbol}, ruled out',
+
+  // Common
+  'common.back': 'Back',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.copied': 'Copied',
+  'common.done': 'Done',
+  'common.export': 'Export',
+  'common.left': '{count} left',
+
+  // Header and settings
+  'header.home': 'Back to menu',
+  'header.reconnecting': 'Reconnecting',
+  'settings.open': 'Theme and language',
+  'settings.theme': 'Theme',
+  'settings.language': 'Language',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.midnight': 'Midnight',
+  'theme.contrast': 'High contrast',
+  'update.ready': 'A new version is ready.',
+  'update.apply': 'Update',
+  'update.later': 'Later',
+
+  // Menu
+  'menu.title.1': 'CRACK',
+  'menu.title.2': 'THE',
+  'menu.title.3': 'CIPHER.',
+  'menu.tagline': 'Logic & deduction. Find the {rules} sequence.',
+  'profile.default': 'Player',
+  'profile.confirmRemove': 'Remove profile "{name}"? Its games stay in the history.',
+  'profile.remove': 'Remove profile {name}',
+  'profile.new': 'New profile',
+  'profile.add': 'Add profile',
+  'menu.continue': 'Continue game',
+  'menu.creatingKey': 'Creating key',
+  'menu.handover': 'Handover',
+  'menu.solo': 'Solo Run',
+  'menu.solo.sub': 'Beat the CPU',
+  'menu.evil': 'Evil CPU',
+  'menu.evil.sub': 'It Never Commits',
+  'menu.reverse': 'Reverse',
+  'menu.reverse.sub': 'The CPU Cracks Yours',
+  'menu.versus': 'Versus',
+  'menu.versus.sub': 'Challenge a Friend',
+  'menu.online': 'Online',
+  'menu.online.sub': 'Head to Head',
+  'menu.online.offline': 'Needs a Connection',
+  'menu.challenge': 'Remote Challenge',
+  'menu.challenge.sub': 'Send a Code',
+  'menu.blitz': 'Blitz',
+  'menu.blitz.sub': 'Beat the Clock',
+  'menu.marathon': 'Marathon',
+  'menu.marathon.sub': 'Codes in {time}',
+  'menu.daily': 'Daily Cipher',
+  'menu.daily.solved': 'Solved in {count}',
+  'menu.daily.failed': 'Failed',
+  'menu.daily.inProgress': 'In progress',
+  'menu.daily.today': "Today's puzzle",
+  'menu.stats': 'Statistics',
+  'menu.stats.sub': { one: '{count} game', other: '{count} games' },
+  'menu.leaderboard': 'Leaderboard',
+  'menu.leaderboard.sub': 'Top scores',
+  'reverse.cpu': 'CPU',
+  'reverse.scoring': 'Scoring',
+  'reverse.auto': 'Automatic',
+  'reverse.manual': 'By hand',
+  'reverse.tooMany': 'Too many possible codes for the CPU. Shorten the code or use fewer symbols.',
+  'reverse.start': 'Start',
+  'reverse.setCode': 'Set Your Code',
+  'versus.bestOf': 'Best of',
+  'versus.start': 'Start Match',
+  'online.roomCode': 'Room code',
+  'online.reconnecting': 'Reconnecting…',
+  'online.waiting': 'Waiting for an opponent…',
+  'online.yourName': 'Your name',
+  'online.create': 'Create Room',
+  'online.codePlaceholder': 'CODE',
+  'online.join': 'Join',
+  'challenge.set': 'Set a Code',
+  'challenge.paste': 'Paste a result',
+  'challenge.check': 'Check',
+  'challenge.cracked': 'Cracked in {count}/{max}',
+  'challenge.held': { one: 'Your code held for its only attempt', other: 'Your code held for all {count} attempts' },
+  'challenge.damaged': 'This challenge link is damaged or incomplete.',
+  'challenge.insecure': 'Links can only be sealed when the app is served over https.',
+  'challenge.notResult': "That isn't a result string.",
+  'challenge.otherDevice': 'That result is for a code sent from another device.',
+  'challenge.mismatch': "That result doesn't fit the code it was played against.",
+  'blitz.clock': 'Clock',
+  'blitz.game': '{time} per game',
+  'blitz.guess': '{time} per guess',
+  'blitz.start': 'Start Blitz',
+
+  // Setting a code and handing over
+  'setup.yourCode': 'Your Code',
+  'setup.title': 'Create Key',
+  'setup.enter.unique': 'Enter {count} unique {units}.',
+  'setup.enter.repeats': 'Enter {count} {units}.',
+  'waiting.guessing': 'is making a guess…',
+  'waiting.setting': 'is creating their key…',
+  'disconnected.left': 'Opponent Left',
+  'disconnected.lost': 'Connection Lost',
+  'disconnected.leftText': '{name} left the match.',
+  'disconnected.waiting': 'Waiting for {name} to reconnect…',
+  'disconnected.leave': 'Leave Match',
+  'share.qr': 'QR code of the challenge link',
+  'share.title': 'Send Your Code',
+  'share.text': 'Your friend scans this or opens the link to play it. When they send their result back, paste it under Remote Challenge.',
+  'share.copyLink': 'Copy Link',
+  'handover.title': 'Device Handover',
+  'handover.pass': 'Pass device to {name}.',
+  'handover.secret': 'Keep the code secret.',
+  'handover.lastChance': '{name} cracked the code. Last chance to match it!',
+  'handover.start': 'Start Guessing',
+
+  // Playing
+  'play.empty': 'System Secure',
+  'play.pickGuess': 'Tap a guess to color it',
+  'play.colorGuess': 'Color guess {number}',
+  'play.byHint': 'Played by a hint',
+  'play.daily': 'Daily #{number}',
+  'play.attempt': 'Attempt {number}/{max}',
+  'play.cpuAttempt': 'CPU Attempt {number}/{max}',
+  'play.cracked': '{count} cracked',
+  'play.candidates': { one: '{count} candidate', other: '{count} candidates' },
+  'play.timeLeft': '{time} left',
+  'play.suggest': 'Suggest',
+  'play.auto': 'Auto',
+  'play.stop': 'Stop',
+  'play.scoring': 'Scoring',
+  'play.notes': 'Notes',
+  'play.hint': 'Hint ({count})',
+  'play.clue.position': 'Slot {number} = {symbol}',
+  'play.clue.absent': 'No {symbol}',
+  'play.again': 'Play Again',
+  'hint.absent.title': 'Missing symbol',
+  'hint.absent.text': "Name a symbol that isn't in the code",
+  'hint.color.title': 'Color a guess',
+  'hint.color.text': 'Mark each symbol of a guess as bull, cow or miss',
+  'hint.position.title': 'Reveal a slot',
+  'hint.position.text': 'Show one symbol in its correct position',
+  'hint.narrow.title': 'Narrow it down',
+  'hint.narrow.text': "Play the solver's best splitting guess",
+  'hint.points': { one: '{count} pt', other: '{count} pts' },
+  'hint.pointsLeft': { one: '{difficulty} · {count} point left', other: '{difficulty} · {count} points left' },
+  'cpu.guesses': 'The CPU guesses',
+  'cpu.yourCode': 'Your code · {strength} CPU',
+  'cpu.bulls': 'Bulls',
+  'cpu.cows': 'Cows',
+  'cpu.answer': 'Answer',
+  'cpu.thinking': 'Thinking',
+  'notes.cell': '{symbol} in position {position}: {mark}',
+  'notes.cellDeduced': '{symbol} in position {position}: {mark} (deduced)',
+  'notes.mark.blank': 'no note',
+  'notes.mark.excluded': 'excluded',
+  'notes.mark.possible': 'possible',
+  'notes.mark.confirmed': 'confirmed',
+  'notes.legend': '✕ out · ? maybe · ● here',
+  'notes.autoFill': 'Auto-fill',
+
+  // Announcements
+  'announce.guess': 'Guess {number}: {code}. {feedback}.',
+  'announce.cpuGuess': 'The CPU guesses {code}. Score it.',
+  'announce.result': '{title}. {message}',
+
+  // Results
+  'result.lied': 'YOU LIED',
+  'result.held': 'CODE HELD',
+  'result.cracked': 'CRACKED',
+  'result.timeUp': 'TIME UP',
+  'result.unlocked': 'UNLOCKED',
+  'result.timedOut': 'TIMED OUT',
+  'result.failed': 'FAILED',
+  'result.deadlock': 'DEADLOCK',
+  'result.lied.text': { one: 'No code fits the answer you gave.', other: 'No code fits all {count} answers you gave.' },
+  'result.held.text': 'The CPU ran out of attempts.',
+  'result.cracked.text': { one: 'The CPU cracked it in {count} attempt.', other: 'The CPU cracked it in {count} attempts.' },
+  'result.marathon.text': { one: '{count} code cracked before the clock ran out.', other: '{count} codes cracked before the clock ran out.' },
+  'result.marathon.none': 'No code cracked in time.',
+  'result.won.text': { one: 'Sequence found in {count} attempt.', other: 'Sequence found in {count} attempts.' },
+  'result.timedOut.text': 'The clock ran out.',
+  'result.lost.text': 'Security lockout initiated.',
+  'round.void.tiebreak': 'Both cracked it on the same turn, in the same time. Round void.',
+  'round.void': 'Nobody cracked a code. Round void.',
+  'round.won': '{name} cracked it in {count} and takes round {round}.',
+  'round.wonMatch': '{name} cracked it in {count} and wins the match.',
+  'round.faster': 'Both cracked it in {count}, {name} was faster ({time}s vs {otherTime}s) and takes round {round}.',
+  'round.fasterMatch': 'Both cracked it in {count}, {name} was faster ({time}s vs {otherTime}s) and wins the match.',
+  'score.marathon': '{base} base × {count} cracked',
+  'score.single': '{base} base × {tries}% tries × {speed}% speed',
+  'score.hints': ' × {percent}% hints',
+  'match.firstTo': 'First to {count}',
+  'daily.share': 'Share Result',
+  'result.hintsUsed': { one: '{count} hint used', other: '{count} hints used' },
+  'result.pointsSpent': { one: '{count} point spent', other: '{count} points spent' },
+  'result.analysis': 'Move quality {quality}% · Solver needs {count}',
+  'key.player': "{name}'s Key",
+  'key.yours': 'Your Key',
+  'key.secret': 'Secret Key',
+  'key.verified': 'Verified',
+  'key.tampered': 'Tampered',
+  'key.pending': 'Awaiting reveal',
+  'challenge.sendBack': 'Send this back to whoever set the code',
+  'challenge.copyResult': 'Copy Result',
+  'share.replay': 'Replay Link',
+  'share.challenge': 'Challenge a Friend',
+  'match.next': 'Next Round',
+  'match.end': 'End Match',
+  'result.restart': 'Restart System',
+
+  // Replay viewer
+  'replay.title': 'Replay',
+  'replay.cracked': 'Cracked in {count}',
+  'replay.failed': 'Failed after {count}',
+  'replay.secret': 'Secret key {code}',
+  'replay.first': 'First guess',
+  'replay.previous': 'Previous guess',
+  'replay.next': 'Next guess',
+  'replay.last': 'Last guess',
+  'replay.solver': 'Solver view',
+
+  // Statistics
+  'stats.title': 'Statistics',
+  'stats.all': 'All',
+  'stats.played': 'Played',
+  'stats.winRate': 'Win %',
+  'stats.averageSolve': 'Avg. solve',
+  'stats.currentStreak': 'Current streak',
+  'stats.bestStreak': 'Best streak',
+  'stats.distribution': 'Attempts to solve',
+  'stats.empty': 'No finished games yet.',
+  'stats.import': 'Import',
+  'stats.clear': 'Clear',
+  'stats.confirmClear': 'Delete all recorded games?',
+  'stats.importFailed': 'Import failed.',
+  'stats.importNotJson': 'File is not valid JSON.',
+  'stats.importNoHistory': 'No game history found in file.',
+  'stats.importUnreadable': 'None of the games in this file could be read.',
+
+  // Leaderboard
+  'leaderboard.title': 'Leaderboard',
+  'leaderboard.today': 'Today',
+  'leaderboard.week': '7 days',
+  'leaderboard.month': '30 days',
+  'leaderboard.all': 'All time',
+  'leaderboard.everyone': 'Everyone',
+  'leaderboard.unknown': 'Unknown',
+  'leaderboard.empty': 'No wins recorded here yet.',
+  'leaderboard.hints': { one: '{count} hint', other: '{count} hints' },
+};
@@ -0,0 +1,318 @@
+import type { Catalog } from './index';
+
+// Spanish
+export const es: Catalog = {
+  // Symbols and rules
+  'color.R': 'rojo',
+  'color.O': 'naranja',
+  'color.Y': 'amarillo',
+  'color.G': 'verde',
+  'color.B': 'azul',
+  'color.P': 'morado',
+  'color.C': 'cian',
+  'color.W': 'blanco',
+  'alphabet.digits': 'Dígitos',
+  'alphabet.hex': 'Hex',
+  'alphabet.letters': 'Letras',
+  'alphabet.colors': 'Colores',
+  'unit.digits': { one: 'dígito', other: 'dígitos' },
+  'unit.hex': { one: 'dígito hex', other: 'dígitos hex' },
+  'unit.letters': { one: 'letra', other: 'letras' },
+  'unit.colors': { one: 'color', other: 'colores' },
+  'rules.describe.unique': 'de {length} {units} sin repetir',
+  'rules.describe.repeats': 'de {length} {units}',
+  'rules.summary': '{length} · {alphabet} · {repeats} · {tries}',
+  'rules.tries': { one: '{count} intento', other: '{count} intentos' },
+  'rules.length': 'Longitud',
+  'rules.symbols': 'Símbolos',
+  'rules.repeats': 'Repetición',
+  'rules.unique': 'Sin repetir',
+  'rules.allowed': 'Permitida',
+  'rules.attempts': 'Intentos',
+  'rules.advisor': 'Asesor',
+  'mode.solo': 'Solo',
+  'mode.multiplayer': 'Versus',
+  'mode.daily': 'Diario',
+  'mode.online': 'En línea',
+  'mode.blitz': 'Blitz',
+  'mode.marathon': 'Maratón',
+  'mode.challenge': 'Reto',
+  'mode.evil': 'CPU malvada',
+  'mode.reverse': 'Inverso',
+  'breaker.random': 'Aleatoria',
+  'breaker.minimax': 'Minimax',
+  'breaker.entropy': 'Entropía',
+  'difficulty.easy': 'Fácil',
+  'difficulty.normal': 'Normal',
+  'difficulty.hard': 'Difícil',
+  'player.default': 'Jugador {number}',
+  'count.attempts': { one: '{count} intento', other: '{count} intentos' },
+
+  // Feedback
+  'feedback.describe': '{bulls}, {cows}',
+  'feedback.bulls': { one: '{count} toro', other: '{count} toros' },
+  'feedback.cows': { one: '{count} vaca', other: '{count} vacas' },
+  'feedback.short': '{bulls}T{cows}V',
+  'feedback.bull': 'toro',
+  'feedback.cow': 'vaca',
+  'feedback.miss': 'fallo',
+
+  // Input
+  'error.incomplete': 'Código incompleto.',
+  'error.duplicate': 'Los símbolos no se pueden repetir.',
+  'error.invalid-symbol': 'No es un símbolo de este código.',
+  'error.no-hint': 'No hay ninguna pista disponible.',
+  'keypad.delete': 'Borrar',
+  'keypad.submit': 'Enviar',
+  'keypad.ruledOut': '{symbol}, descartado',
+
+  // Common
+  'common.back': 'Atrás',
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.copied': 'Copiado',
+  'common.done': 'Hecho',
+  'common.export': 'Exportar',
+  'common.left': 'Quedan {count}',
+
+  // Header and settings
+  'header.home': 'Volver al menú',
+  'header.reconnecting': 'Reconectando',
+  'settings.open': 'Tema e idioma',
+  'settings.theme': 'Tema',
+  'settings.language': 'Idioma',
+  'theme.light': 'Claro',
+  'theme.dark': 'Oscuro',
+  'theme.midnight': 'Medianoche',
+  'theme.contrast': 'Alto contraste',
+  'update.ready': 'Hay una versión nueva.',
+  'update.apply': 'Actualizar',
+  'update.later': 'Más tarde',
+
+  // Menu
+  'menu.title.1': 'DESCIFRA',
+  'menu.title.2': 'EL',
+  'menu.title.3': 'CÓDIGO.',
+  'menu.tagline': 'Lógica y deducción. Encuentra la secuencia {rules}.',
+  'profile.default': 'Jugador',
+  'profile.confirmRemove': '¿Eliminar el perfil "{name}"? Sus partidas se quedan en el historial.',
+  'profile.remove': 'Eliminar el perfil {name}',
+  'profile.new': 'Perfil nuevo',
+  'profile.add': 'Añadir perfil',
+  'menu.continue': 'Continuar partida',
+  'menu.creatingKey': 'Creando clave',
+  'menu.handover': 'Cambio de turno',
+  'menu.solo': 'Partida en solitario',
+  'menu.solo.sub': 'Gana a la CPU',
+  'menu.evil': 'CPU malvada',
+  'menu.evil.sub': 'Nunca se decide',
+  'menu.reverse': 'Inverso',
+  'menu.reverse.sub': 'La CPU descifra el tuyo',
+  'menu.versus': 'Versus',
+  'menu.versus.sub': 'Reta a un amigo',
+  'menu.online': 'En línea',
+  'menu.online.sub': 'Cara a cara',
+  'menu.online.offline': 'Necesita conexión',
+  'menu.challenge': 'Reto a distancia',
+  'menu.challenge.sub': 'Envía un código',
+  'menu.blitz': 'Blitz',
+  'menu.blitz.sub': 'Contra el reloj',
+  'menu.marathon': 'Maratón',
+  'menu.marathon.sub': 'Códigos en {time}',
+  'menu.daily': 'Cifrado diario',
+  'menu.daily.solved': 'Resuelto en {count}',
+  'menu.daily.failed': 'Fallado',
+  'menu.daily.inProgress': 'En curso',
+  'menu.daily.today': 'El reto de hoy',
+  'menu.stats': 'Estadísticas',
+  'menu.stats.sub': { one: '{count} partida', other: '{count} partidas' },
+  'menu.leaderboard': 'Clasificación',
+  'menu.leaderboard.sub': 'Mejores puntuaciones',
+  'reverse.cpu': 'CPU',
+  'reverse.scoring': 'Puntuación',
+  'reverse.auto': 'Automática',
+  'reverse.manual': 'A mano',
+  'reverse.tooMany': 'Demasiados códigos posibles para la CPU. Acorta el código o usa menos símbolos.',
+  'reverse.start': 'Empezar',
+  'reverse.setCode': 'Elige tu código',
+  'versus.bestOf': 'Al mejor de',
+  'versus.start': 'Empezar partida',
+  'online.roomCode': 'Código de sala',
+  'online.reconnecting': 'Reconectando…',
+  'online.waiting': 'Esperando a un rival…',
+  'online.yourName': 'Tu nombre',
+  'online.create': 'Crear sala',
+  'online.codePlaceholder': 'CÓDIGO',
+  'online.join': 'Unirse',
+  'challenge.set': 'Elige un código',
+  'challenge.paste': 'Pega un resultado',
+  'challenge.check': 'Comprobar',
+  'challenge.cracked': 'Descifrado en {count}/{max}',
+  'challenge.held': { one: 'Tu código resistió su único intento', other: 'Tu código resistió los {count} intentos' },
+  'challenge.damaged': 'Este enlace de reto está dañado o incompleto.',
+  'challenge.insecure': 'Los enlaces solo se pueden sellar si la app se sirve por https.',
+  'challenge.notResult': 'Eso no es un resultado.',
+  'challenge.otherDevice': 'Ese resultado es de un código enviado desde otro dispositivo.',
+  'challenge.mismatch': 'Ese resultado no encaja con el código contra el que se jugó.',
+  'blitz.clock': 'Reloj',
+  'blitz.game': '{time} por partida',
+  'blitz.guess': '{time} por intento',
+  'blitz.start': 'Empezar Blitz',
+
+  // Setting a code and handing over
+  'setup.yourCode': 'Tu código',
+  'setup.title': 'Crea la clave',
+  'setup.enter.unique': 'Introduce {count} {units} sin repetir.',
+  'setup.enter.repeats': 'Introduce {count} {units}.',
+  'waiting.guessing': 'está haciendo un intento…',
+  'waiting.setting': 'está creando su clave…',
+  'disconnected.left': 'El rival se fue',
+  'disconnected.lost': 'Conexión perdida',
+  'disconnected.leftText': '{name} abandonó la partida.',
+  'disconnected.waiting': 'Esperando a que {name} se reconecte…',
+  'disconnected.leave': 'Abandonar partida',
+  'share.qr': 'Código QR del enlace del reto',
+  'share.title': 'Envía tu código',
+  'share.text': 'Tu amigo escanea esto o abre el enlace para jugarlo. Cuando te devuelva su resultado, pégalo en Reto a distancia.',
+  'share.copyLink': 'Copiar enlace',
+  'handover.title': 'Cambio de turno',
+  'handover.pass': 'Pasa el dispositivo a {name}.',
+  'handover.secret': 'Mantén el código en secreto.',
+  'handover.lastChance': '{name} descifró el código. ¡Última oportunidad para igualarlo!',
+  'handover.start': 'Empezar a adivinar',
+
+  // Playing
+  'play.empty': 'Sistema seguro',
+  'play.pickGuess': 'Toca un intento para colorearlo',
+  'play.colorGuess': 'Colorear el intento {number}',
+  'play.byHint': 'Jugado por una pista',
+  'play.daily': 'Diario n.º {number}',
+  'play.attempt': 'Intento {number}/{max}',
+  'play.cpuAttempt': 'Intento de la CPU {number}/{max}',
+  'play.cracked': '{count} descifrados',
+  'play.candidates': { one: '{count} candidato', other: '{count} candidatos' },
+  'play.timeLeft': 'Quedan {time}',
+  'play.suggest': 'Sugerir',
+  'play.auto': 'Auto',
+  'play.stop': 'Parar',
+  'play.scoring': 'Puntuando',
+  'play.notes': 'Notas',
+  'play.hint': 'Pista ({count})',
+  'play.clue.position': 'Casilla {number} = {symbol}',
+  'play.clue.absent': 'Sin {symbol}',
+  'play.again': 'Jugar otra vez',
+  'hint.absent.title': 'Símbolo ausente',
+  'hint.absent.text': 'Nombra un símbolo que no está en el código',
+  'hint.color.title': 'Colorear un intento',
+  'hint.color.text': 'Marca cada símbolo de un intento como toro, vaca o fallo',
+  'hint.position.title': 'Revelar una casilla',
+  'hint.position.text': 'Muestra un símbolo en su posición correcta',
+  'hint.narrow.title': 'Acotar',
+  'hint.narrow.text': 'Juega el intento que mejor divide del solucionador',
+  'hint.points': { one: '{count} pt', other: '{count} pts' },
+  'hint.pointsLeft': { one: '{difficulty} · Queda {count} punto', other: '{difficulty} · Quedan {count} puntos' },
+  'cpu.guesses': 'La CPU propone',
+  'cpu.yourCode': 'Tu código · CPU {strength}',
+  'cpu.bulls': 'Toros',
+  'cpu.cows': 'Vacas',
+  'cpu.answer': 'Responder',
+  'cpu.thinking': 'Pensando',
+  'notes.cell': '{symbol} en la posición {position}: {mark}',
+  'notes.cellDeduced': '{symbol} en la posición {position}: {mark} (deducido)',
+  'notes.mark.blank': 'sin nota',
+  'notes.mark.excluded': 'descartado',
+  'notes.mark.possible': 'posible',
+  'notes.mark.confirmed': 'confirmado',
+  'notes.legend': '✕ no · ? quizá · ● aquí',
+  'notes.autoFill': 'Autocompletar',
+
+  // Announcements
+  'announce.guess': 'Intento {number}: {code}. {feedback}.',
+  'announce.cpuGuess': 'La CPU propone {code}. Puntúalo.',
+  'announce.result': '{title}. {message}',
+
+  // Results
+  'result.lied': 'HAS MENTIDO',
+  'result.held': 'CÓDIGO A SALVO',
+  'result.cracked': 'DESCIFRADO',
+  'result.timeUp': 'TIEMPO',
+  'result.unlocked': 'DESBLOQUEADO',
+  'result.timedOut': 'SIN TIEMPO',
+  'result.failed': 'FALLIDO',
+  'result.deadlock': 'EMPATE',
+  'result.lied.text': { one: 'Ningún código encaja con la respuesta que diste.', other: 'Ningún código encaja con las {count} respuestas que diste.' },
+  'result.held.text': 'La CPU se quedó sin intentos.',
+  'result.cracked.text': { one: 'La CPU lo descifró en {count} intento.', other: 'La CPU lo descifró en {count} intentos.' },
+  'result.marathon.text': { one: '{count} código descifrado antes de que se acabara el tiempo.', other: '{count} códigos descifrados antes de que se acabara el tiempo.' },
+  'result.marathon.none': 'Ningún código descifrado a tiempo.',
+  'result.won.text': { one: 'Secuencia encontrada en {count} intento.', other: 'Secuencia encontrada en {count} intentos.' },
+  'result.timedOut.text': 'Se acabó el tiempo.',
+  'result.lost.text': 'Bloqueo de seguridad activado.',
+  'round.void.tiebreak': 'Ambos lo descifraron en el mismo turno y el mismo tiempo. Ronda nula.',
+  'round.void': 'Nadie descifró un código. Ronda nula.',
+  'round.won': '{name} lo descifró en {count} y gana la ronda {round}.',
+  'round.wonMatch': '{name} lo descifró en {count} y gana la partida.',
+  'round.faster': 'Ambos lo descifraron en {count}, {name} fue más rápido ({time} s contra {otherTime} s) y gana la ronda {round}.',
+  'round.fasterMatch': 'Ambos lo descifraron en {count}, {name} fue más rápido ({time} s contra {otherTime} s) y gana la partida.',
+  'score.marathon': '{base} base × {count} descifrados',
+  'score.single': '{base} base × {tries}% intentos × {speed}% rapidez',
+  'score.hints': ' × {percent}% pistas',
+  'match.firstTo': 'Gana quien llegue a {count}',
+  'daily.share': 'Compartir resultado',
+  'result.hintsUsed': { one: '{count} pista usada', other: '{count} pistas usadas' },
+  'result.pointsSpent': { one: '{count} punto gastado', other: '{count} puntos gastados' },
+  'result.analysis': 'Calidad de jugadas {quality}% · El solucionador necesita {count}',
+  'key.player': 'Clave de {name}',
+  'key.yours': 'Tu clave',
+  'key.secret': 'Clave secreta',
+  'key.verified': 'Verificada',
+  'key.tampered': 'Manipulada',
+  'key.pending': 'Esperando revelación',
+  'challenge.sendBack': 'Envía esto a quien eligió el código',
+  'challenge.copyResult': 'Copiar resultado',
+  'share.replay': 'Enlace de repetición',
+  'share.challenge': 'Reta a un amigo',
+  'match.next': 'Siguiente ronda',
+  'match.end': 'Terminar partida',
+  'result.restart': 'Reiniciar sistema',
+
+  // Replay viewer
+  'replay.title': 'Repetición',
+  'replay.cracked': 'Descifrado en {count}',
+  'replay.failed': 'Fallido tras {count}',
+  'replay.secret': 'Clave secreta {code}',
+  'replay.first': 'Primer intento',
+  'replay.previous': 'Intento anterior',
+  'replay.next': 'Intento siguiente',
+  'replay.last': 'Último intento',
+  'replay.solver': 'Vista del solucionador',
+
+  // Statistics
+  'stats.title': 'Estadísticas',
+  'stats.all': 'Todo',
+  'stats.played': 'Jugadas',
+  'stats.winRate': '% victorias',
+  'stats.averageSolve': 'Media',
+  'stats.currentStreak': 'Racha actual',
+  'stats.bestStreak': 'Mejor racha',
+  'stats.distribution': 'Intentos para resolver',
+  'stats.empty': 'Aún no hay partidas terminadas.',
+  'stats.import': 'Importar',
+  'stats.clear': 'Borrar',
+  'stats.confirmClear': '¿Borrar todas las partidas guardadas?',
+  'stats.importFailed': 'No se pudo importar.',
+  'stats.importNotJson': 'El archivo no es un JSON válido.',
+  'stats.importNoHistory': 'El archivo no contiene un historial de partidas.',
+  'stats.importUnreadable': 'No se pudo leer ninguna de las partidas del archivo.',
+
+  // Leaderboard
+  'leaderboard.title': 'Clasificación',
+  'leaderboard.today': 'Hoy',
+  'leaderboard.week': '7 días',
+  'leaderboard.month': '30 días',
+  'leaderboard.all': 'Siempre',
+  'leaderboard.everyone': 'Todos',
+  'leaderboard.unknown': 'Desconocido',
+  'leaderboard.empty': 'Aún no hay victorias aquí.',
+  'leaderboard.hints': { one: '{count} pista', other: '{count} pistas' },
+};
@@ -0,0 +1,73 @@
+import { createContext, useContext } from 'react';
+import { en } from './en';
+import { es } from './es';
+import { ar } from './ar';
+
+// --- Localization ---
+// One catalog per language, keyed like the English one. A message is a template with
+// {name} placeholders, or a set of plural forms picked by the `count` parameter using
+// the language's own plural rules (Arabic has six forms, English two).
+// Code symbols are never translated, and codes always read left to right.
+
+export type Locale = 'en' | 'es' | 'ar';
+
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralForms;
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+// Languages in picker order, each named in itself
+export const LOCALES: { locale: Locale; name: string; dir: 'ltr' | 'rtl' }[] = [
+  { locale: 'en', name: 'English', dir: 'ltr' },
+  { locale: 'es', name: 'Español', dir: 'ltr' },
+  { locale: 'ar', name: 'العربية', dir: 'rtl' },
+];
+
+const CATALOGS: Record<Locale, Catalog> = { en, es, ar };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some((l) => l.locale === value);
+
+// The first of the browser's languages there is a catalog for
+export const preferredLocale = (languages: readonly string[]): Locale =>
+  languages.map((tag) => tag.split('-')[0].toLowerCase()).find(isLocale) ?? 'en';
+
+export interface Translator {
+  locale: Locale;
+  dir: 'ltr' | 'rtl';
+  t: (key: MessageKey, params?: MessageParams) => string;
+  // The same message split around its placeholders, so a parameter can be an element
+  parts: <T>(key: MessageKey, params: Record<string, string | number | T>) => (string | T)[];
+}
+
+export const createTranslator = (locale: Locale): Translator => {
+  const plurals = new Intl.PluralRules(locale);
+  const template = (key: MessageKey, count: unknown): string => {
+    const message = CATALOGS[locale][key] ?? en[key];
+    if (typeof message === 'string') return message;
+    const forms = message as PluralForms;
+    // Exact zero gets its own form where the language has one
+    const rule = typeof count === 'number' ? plurals.select(count) : 'other';
+    return forms[rule] ?? forms.other;
+  };
+  const parts = <T,>(key: MessageKey, params: Record<string, string | number | T>) =>
+    template(key, params.count)
+      .split(/(\{\w+\})/)
+      .filter((piece) => piece !== '')
+      .map((piece) => {
+        const name = /^\{(\w+)\}$/.exec(piece)?.[1];
+        if (name === undefined || !(name in params)) return piece;
+        const value = params[name];
+        return typeof value === 'number' ? value.toLocaleString(locale) : value;
+      });
+  return {
+    locale,
+    dir: LOCALES.find((l) => l.locale === locale)!.dir,
+    t: (key, params = {}) => parts(key, params).join(''),
+    parts,
+  };
+};
+
+export const I18nContext = createContext<Translator>(createTranslator('en'));
+
+export const useI18n = (): Translator => useContext(I18nContext);
@@ -0,0 +1,119 @@
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import type { Plugin, ResolvedConfig } from 'vite';
+
+// --- Service worker (production builds only) ---
+// Emits sw.js next to the build output. It precaches every emitted file and everything in
+// public/, so the app starts and plays with no network at all, and keeps a runtime copy of
+// the CDN styles and fonts index.html loads.
+// The cache is named after a hash of everything precached: any change ships a new worker,
+// which waits until the app tells it to take over (services/serviceWorker.ts).
+
+const CACHE_PREFIX = 'smash-code-';
+
+// Every file under `dir`, as URL paths relative to it
+const listFiles = (dir: string, prefix = ''): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap((entry) =>
+    entry.isDirectory()
+      ? listFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`)
+      : [`${prefix}${entry.name}`]);
+
+// Scripts and stylesheets index.html pulls from other origins (preconnect hints aren't loads)
+const externalResources = (html: string): string[] =>
+  [...html.matchAll(/<(?:script|link)\b[^>]*>/g)]
+    .map(([tag]) => tag)
+    .filter((tag) => !/rel="preconnect"/.test(tag))
+    .flatMap((tag) => tag.match(/(?:src|href)="(https:\/\/[^"]+)"/)?.[1] ?? []);
+
+const workerSource = (version: string, shell: string, files: string[], external: string[]) => `// Generated at build time by plugins/serviceWorker.ts
+const PRECACHE = ${JSON.stringify(CACHE_PREFIX + version)};
+const RUNTIME = ${JSON.stringify(`${CACHE_PREFIX}runtime`)};
+const SHELL = ${JSON.stringify(shell)};
+const FILES = ${JSON.stringify(files)};
+const EXTERNAL = ${JSON.stringify(external)};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    await (await caches.open(PRECACHE)).addAll(FILES);
+    // Best effort: a CDN that can't be reached now is picked up at runtime instead
+    const runtime = await caches.open(RUNTIME);
+    await Promise.all(EXTERNAL.map((url) =>
+      fetch(url, { mode: 'no-cors' }).then((response) => runtime.put(url, response)).catch(() => {})));
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    for (const name of await caches.keys()) {
+      if (name.startsWith(${JSON.stringify(CACHE_PREFIX)}) && name !== PRECACHE && name !== RUNTIME) await caches.delete(name);
+    }
+    await self.clients.claim();
+  })());
+});
+
+// The app asks a waiting worker to take over once the player accepts the update
+self.addEventListener('message', (event) => {
+  if (event.data === 'skip-waiting') self.skipWaiting();
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  if (new URL(request.url).origin === self.location.origin) {
+    // A single page app: every navigation gets the precached shell
+    const key = request.mode === 'navigate' ? SHELL : request;
+    event.respondWith(caches.match(key).then((cached) => cached || fetch(request)));
+    return;
+  }
+  // Other origins: answer from the runtime cache and refresh it in the background
+  event.respondWith(caches.open(RUNTIME).then(async (cache) => {
+    const cached = await cache.match(request);
+    const network = fetch(request).then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    });
+    if (!cached) return network;
+    event.waitUntil(network.catch(() => {}));
+    return cached;
+  }));
+});
+`;
+
+export const serviceWorker = (): Plugin => {
+  let config: ResolvedConfig;
+  return {
+    name: 'smash-code-service-worker',
+    apply: 'build',
+    // After Vite has added index.html to the bundle
+    enforce: 'post',
+    configResolved(resolved) {
+      config = resolved;
+    },
+    generateBundle(_, bundle) {
+      const hash = createHash('sha256');
+      const files: string[] = [];
+      for (const fileName of Object.keys(bundle).sort()) {
+        if (fileName.endsWith('.map')) continue;
+        const output = bundle[fileName];
+        hash.update(fileName).update(output.type === 'chunk' ? output.code : output.source);
+        files.push(fileName);
+      }
+      if (config.publicDir && existsSync(config.publicDir)) {
+        for (const fileName of listFiles(config.publicDir).sort()) {
+          hash.update(fileName).update(readFileSync(path.join(config.publicDir, fileName)));
+          files.push(fileName);
+        }
+      }
+
+      const html = bundle['index.html'];
+      const external = html?.type === 'asset' ? externalResources(String(html.source)) : [];
+      const version = hash.digest('hex').slice(0, 12);
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: workerSource(version, `${config.base}index.html`, files.map((f) => config.base + f), external),
+      });
+    },
+  };
+};
@@ -0,0 +1,163 @@
+import { randomBytes } from 'crypto';
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+  ClientMessage, GameRules, RECONNECT_GRACE_MS, RELAY_PORT, ROOM_CODE_LENGTH, ServerMessage, isClientMessage, normalizeRules,
+} from '../engine';
+
+// --- Online relay ---
+// Pairs two players in a room and passes game messages between them. It holds
+// no game state and never sees a secret; scoring happens on the players' devices.
+// Run with `npm run relay` (PORT overrides the default port).
+
+interface Seat {
+  name: string;
+  token: string; // Lets a dropped player reclaim the seat
+  socket: WebSocket | null;
+  // Messages that arrived while the player was disconnected
+  backlog: ServerMessage[];
+  graceTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface Room {
+  code: string;
+  rules: GameRules;
+  seats: [Seat | null, Seat | null];
+}
+
+// No I/O/0/1, so codes survive being read out loud
+const ROOM_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const MAX_NAME_LENGTH = 16;
+
+const rooms = new Map<string, Room>();
+const seatOf = new Map<WebSocket, { room: Room; seat: 0 | 1 }>();
+
+const newRoomCode = (): string => {
+  let code = '';
+  do {
+    code = Array.from(randomBytes(ROOM_CODE_LENGTH), (b) => ROOM_ALPHABET[b % ROOM_ALPHABET.length]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+const deliver = (seat: Seat | null, message: ServerMessage) => {
+  if (!seat) return;
+  if (seat.socket && seat.socket.readyState === WebSocket.OPEN) {
+    seat.socket.send(JSON.stringify(message));
+  } else {
+    seat.backlog.push(message);
+  }
+};
+
+const reply = (socket: WebSocket, message: ServerMessage) => socket.send(JSON.stringify(message));
+
+const createSeat = (socket: WebSocket, name: string): Seat => ({
+  name: name.trim().slice(0, MAX_NAME_LENGTH) || 'Player',
+  token: randomBytes(16).toString('hex'),
+  socket,
+  backlog: [],
+  graceTimer: null,
+});
+
+const attach = (socket: WebSocket, room: Room, seat: 0 | 1) => {
+  seatOf.set(socket, { room, seat });
+  const s = room.seats[seat]!;
+  reply(socket, { type: 'joined', room: room.code, seat, token: s.token });
+};
+
+const announceReady = (room: Room) => {
+  const [host, guest] = room.seats;
+  if (!host || !guest) return;
+  const message: ServerMessage = { type: 'roomReady', players: [host.name, guest.name], rules: room.rules };
+  deliver(host, message);
+  deliver(guest, message);
+};
+
+// Frees a seat for good and closes the room once nobody is left
+const vacate = (room: Room, seat: 0 | 1) => {
+  const s = room.seats[seat];
+  if (s?.graceTimer) clearTimeout(s.graceTimer);
+  room.seats[seat] = null;
+  deliver(room.seats[seat === 0 ? 1 : 0], { type: 'opponentLeft' });
+  if (!room.seats[0] && !room.seats[1]) rooms.delete(room.code);
+};
+
+const handleMessage = (socket: WebSocket, message: ClientMessage) => {
+  const current = seatOf.get(socket);
+
+  switch (message.type) {
+    case 'create': {
+      if (current) return reply(socket, { type: 'error', message: 'Already in a room.' });
+      const room: Room = { code: newRoomCode(), rules: normalizeRules(message.rules), seats: [createSeat(socket, message.name), null] };
+      rooms.set(room.code, room);
+      return attach(socket, room, 0);
+    }
+
+    case 'join': {
+      if (current) return reply(socket, { type: 'error', message: 'Already in a room.' });
+      const room = rooms.get(message.room.trim().toUpperCase());
+      if (!room) return reply(socket, { type: 'error', message: 'Room not found.' });
+      if (room.seats[1]) return reply(socket, { type: 'error', message: 'Room is full.' });
+      room.seats[1] = createSeat(socket, message.name);
+      attach(socket, room, 1);
+      return announceReady(room);
+    }
+
+    case 'rejoin': {
+      const room = rooms.get(message.room);
+      const seat = room?.seats.findIndex((s) => s?.token === message.token);
+      if (!room || seat === undefined || seat < 0) return reply(socket, { type: 'error', message: 'Seat expired.' });
+      const s = room.seats[seat]!;
+      if (s.graceTimer) clearTimeout(s.graceTimer);
+      if (s.socket && s.socket !== socket) seatOf.delete(s.socket);
+      s.socket = socket;
+      s.graceTimer = null;
+      attach(socket, room, seat as 0 | 1);
+      for (const pending of s.backlog.splice(0)) reply(socket, pending);
+      deliver(room.seats[seat === 0 ? 1 : 0], { type: 'opponentReconnected' });
+      return;
+    }
+
+    case 'leave': {
+      if (!current) return;
+      seatOf.delete(socket);
+      return vacate(current.room, current.seat);
+    }
+
+    case 'relay': {
+      if (!current) return reply(socket, { type: 'error', message: 'Not in a room.' });
+      return deliver(current.room.seats[current.seat === 0 ? 1 : 0], { type: 'relay', message: message.message });
+    }
+  }
+};
+
+// A dropped connection keeps its seat for a while so the player can reconnect
+const handleClose = (socket: WebSocket) => {
+  const current = seatOf.get(socket);
+  if (!current) return;
+  seatOf.delete(socket);
+  const { room, seat } = current;
+  const s = room.seats[seat];
+  if (!s || s.socket !== socket) return;
+  s.socket = null;
+  deliver(room.seats[seat === 0 ? 1 : 0], { type: 'opponentDisconnected' });
+  s.graceTimer = setTimeout(() => vacate(room, seat), RECONNECT_GRACE_MS);
+};
+
+const port = Number(process.env.PORT) || RELAY_PORT;
+const server = new WebSocketServer({ port });
+
+server.on('connection', (socket) => {
+  socket.on('message', (data) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data.toString());
+    } catch {
+      return reply(socket, { type: 'error', message: 'Malformed message.' });
+    }
+    if (!isClientMessage(parsed)) return reply(socket, { type: 'error', message: 'Unknown message.' });
+    handleMessage(socket, parsed);
+  });
+  socket.on('close', () => handleClose(socket));
+});
+
+console.log(`Relay listening on ws://localhost:${port}`);
@@ -0,0 +1,40 @@
+import { GameAnalysis, GameRules, Guess, SolverStrategy, analyzeGame } from '../engine';
+
+// --- Post-game analysis ---
+// analyzeGame replays the whole game with the solver, which takes seconds on the larger
+// code spaces, so it runs in a worker and the result screen fills it in once it's done.
+
+export interface AnalysisRequest {
+  secret: string;
+  rules: GameRules;
+  guesses: Guess[];
+  strategy: SolverStrategy;
+}
+
+// Calls `onDone` with the analysis unless the returned cancel function runs first
+export const analyzeInBackground = (request: AnalysisRequest, onDone: (analysis: GameAnalysis | null) => void): (() => void) => {
+  // Without a worker (none available, or it failed to load or crashed), still keep it off the render that shows the result
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const analyzeHere = () => {
+    timer = setTimeout(() => onDone(analyzeGame(request.secret, request.rules, request.guesses, request.strategy)), 0);
+  };
+  if (typeof Worker === 'undefined') {
+    analyzeHere();
+    return () => clearTimeout(timer!);
+  }
+  const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<GameAnalysis | null>) => {
+    onDone(event.data);
+    worker.terminate();
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    worker.terminate();
+    analyzeHere();
+  };
+  worker.postMessage(request);
+  return () => {
+    worker.terminate();
+    if (timer !== null) clearTimeout(timer);
+  };
+};
@@ -0,0 +1,8 @@
+import { analyzeGame } from '../engine';
+import type { AnalysisRequest } from './analysis';
+
+// Runs one analysis off the main thread (see analysis.ts)
+self.onmessage = (event: MessageEvent<AnalysisRequest>) => {
+  const { secret, rules, guesses, strategy } = event.data;
+  self.postMessage(analyzeGame(secret, rules, guesses, strategy));
+};
@@ -0,0 +1,70 @@
+import { Challenge, fromBase64Url, isValidCode, normalizeRules, packChallenge, toBase64Url, unpackChallenge } from '../engine';
+
+// --- Remote challenge links & sent codes (localStorage) ---
+// The code is sealed with AES-GCM under a fresh random key, and the key rides along
+// in the link's fragment. That keeps the code out of sight and makes an edited link
+// fail to open, but whoever holds the whole link could decrypt it: it keeps friends
+// honest, it doesn't stop a determined one.
+// The setter keeps a copy of every code they send, to score the results that come back.
+
+const SENT_KEY = 'smashCodeChallenges';
+const MAX_SENT = 20;
+const HASH_KEY = 'duel';
+const KEY_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface SentChallenge extends Challenge {
+  sentAt: number;
+}
+
+const bytesToText = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+const textToBytes = (text: string) => Uint8Array.from(text, (c) => c.charCodeAt(0));
+
+// "<key>.<iv + ciphertext>", both base64url. Needs WebCrypto, so a secure (https or localhost) page.
+export const sealChallenge = async (challenge: Challenge): Promise<string> => {
+  const key = crypto.getRandomValues(new Uint8Array(KEY_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const aesKey = await crypto.subtle.importKey('raw', key, 'AES-GCM', false, ['encrypt']);
+  const sealed = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, aesKey, new TextEncoder().encode(packChallenge(challenge)));
+  return `${toBase64Url(bytesToText(key))}.${toBase64Url(bytesToText(iv) + bytesToText(new Uint8Array(sealed)))}`;
+};
+
+// The challenge in a sealed payload, or null if it was damaged or edited
+export const openChallenge = async (payload: string): Promise<Challenge | null> => {
+  try {
+    const [keyText, sealedText] = payload.split('.');
+    const sealed = textToBytes(fromBase64Url(sealedText));
+    const aesKey = await crypto.subtle.importKey('raw', textToBytes(fromBase64Url(keyText)), 'AES-GCM', false, ['decrypt']);
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.slice(0, IV_BYTES) }, aesKey, sealed.slice(IV_BYTES));
+    return unpackChallenge(new TextDecoder().decode(plain));
+  } catch {
+    return null;
+  }
+};
+
+export const challengeHash = (sealed: string) => `#${HASH_KEY}=${sealed}`;
+
+// The sealed payload in a location hash, if any
+export const readChallengeHash = (hash: string): string | null =>
+  hash.startsWith(`#${HASH_KEY}=`) ? hash.slice(HASH_KEY.length + 2) : null;
+
+export const loadSentChallenges = (): SentChallenge[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SENT_KEY) ?? '[]');
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((c: SentChallenge) => {
+      if (typeof c !== 'object' || c === null || typeof c.id !== 'string' || typeof c.sentAt !== 'number') return [];
+      const rules = normalizeRules(typeof c.rules === 'object' && c.rules !== null ? c.rules : {});
+      return typeof c.secret === 'string' && isValidCode(rules, c.secret) ? [{ id: c.id, rules, secret: c.secret, sentAt: c.sentAt }] : [];
+    });
+  } catch {
+    return [];
+  }
+};
+
+// Newest first; sending the same code again just refreshes it
+export const rememberChallenge = (challenge: Challenge, sentAt: number): SentChallenge[] => {
+  const sent = [{ ...challenge, sentAt }, ...loadSentChallenges().filter((c) => c.id !== challenge.id)].slice(0, MAX_SENT);
+  localStorage.setItem(SENT_KEY, JSON.stringify(sent));
+  return sent;
+};
@@ -0,0 +1,76 @@
+import {
+  Clue, DAILY_RULES, GameState, Guess, calculateFeedback, createHintState, createInitialState, dailyKey, dailySecret, isClue, isValidCode,
+  spendHint,
+} from '../engine';
+
+// --- Daily Cipher progress (localStorage) ---
+// Only today's game is kept. The secret is never stored: it is re-derived from the date.
+
+const DAILY_KEY = 'smashCodeDaily';
+
+interface DailyProgress {
+  date: string;
+  guesses: string[];
+  clues: Clue[];
+  // Older saves: index of the guess the single hint revealed, -1 if unused
+  revealedGuess?: number;
+  startedAt: number;
+  finishedAt: number | null;
+}
+
+export const saveDailyGame = (state: GameState) => {
+  if (state.mode !== 'daily' || state.startedAt === null) return;
+  const progress: DailyProgress = {
+    date: dailyKey(new Date(state.startedAt)),
+    guesses: state.guesses.map((g) => g.code),
+    clues: state.hints.clues,
+    startedAt: state.startedAt,
+    finishedAt: state.finishedAt,
+  };
+  localStorage.setItem(DAILY_KEY, JSON.stringify(progress));
+};
+
+// Rebuilds the saved game for `date`, or null if that day hasn't been started
+export const loadDailyGame = (date: string): GameState | null => {
+  let progress: DailyProgress;
+  try {
+    const raw = localStorage.getItem(DAILY_KEY);
+    if (!raw) return null;
+    progress = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (progress?.date !== date || !Array.isArray(progress.guesses) || typeof progress.startedAt !== 'number') return null;
+
+  // Feedback and clues are recomputed rather than trusted from storage
+  const secret = dailySecret(date);
+  const savedClues: Clue[] = Array.isArray(progress.clues)
+    ? progress.clues.filter(isClue)
+    : progress.revealedGuess !== undefined && progress.revealedGuess >= 0 ? [{ kind: 'color', guess: progress.revealedGuess }] : [];
+  const colored = new Set(savedClues.map((c) => (c.kind === 'color' ? c.guess : -1)));
+  const guesses: Guess[] = progress.guesses
+    .filter((code) => typeof code === 'string' && isValidCode(DAILY_RULES, code))
+    .slice(0, DAILY_RULES.maxAttempts)
+    .map((code, i) => ({ code, ...calculateFeedback(secret, code), isRevealed: colored.has(i) }));
+  const hints = savedClues
+    .map((c): Clue => {
+      if (c.kind === 'position') return { ...c, symbol: secret[c.position] ?? '' };
+      return c;
+    })
+    .filter((c) => c.kind !== 'position' || c.symbol !== '')
+    .reduce(spendHint, createHintState(DAILY_RULES));
+
+  const won = guesses.some((g) => g.bulls === DAILY_RULES.codeLength);
+  const lost = !won && guesses.length >= DAILY_RULES.maxAttempts;
+
+  return {
+    ...createInitialState(DAILY_RULES),
+    mode: 'daily',
+    status: won ? 'won' : lost ? 'lost' : 'playing',
+    secret,
+    guesses,
+    hints,
+    startedAt: progress.startedAt,
+    finishedAt: won || lost ? progress.finishedAt ?? progress.startedAt : null,
+  };
+};
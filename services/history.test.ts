@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GameRecord, DEFAULT_RULES } from '../engine';
+import { HistoryImportError, exportHistory, importHistory, loadHistory } from './history';
+
+// A Map-backed stand-in for the browser's localStorage
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key),
+});
+
+const record = (id: string, startedAt: number): GameRecord => ({
+  id,
+  mode: 'solo',
+  rules: DEFAULT_RULES,
+  secret: '1234',
+  guesses: [{ code: '1234', bulls: 4, cows: 0 }],
+  hintsUsed: 0,
+  outcome: 'won',
+  startedAt,
+  durationMs: 1000,
+});
+
+const problemOf = (json: string) => {
+  try {
+    importHistory(json);
+  } catch (err) {
+    return err instanceof HistoryImportError ? err.problem : 'other';
+  }
+  return null;
+};
+
+describe('importHistory', () => {
+  beforeEach(() => storage.clear());
+
+  it('merges an export into the stored history, oldest first', () => {
+    importHistory(exportHistory([record('b', 2)]));
+    expect(importHistory(exportHistory([record('a', 1), record('b', 2)])).map((r) => r.id)).toEqual(['a', 'b']);
+    expect(loadHistory()).toHaveLength(2);
+  });
+
+  it('says why a file could not be imported', () => {
+    expect(problemOf('{')).toBe('not-json');
+    expect(problemOf('{"games": []}')).toBe('no-history');
+    expect(problemOf('[{"id": 1}]')).toBe('unreadable');
+    expect(problemOf('[]')).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { GameRecord, parseGameRecord } from '../engine';
+
+// --- Finished-game history (localStorage) ---
+
+const HISTORY_KEY = 'smashCodeHistory';
+const EXPORT_VERSION = 1;
+
+// Why a file couldn't be imported; the UI shows its own message for each
+export type ImportProblem = 'not-json' | 'no-history' | 'unreadable';
+
+export class HistoryImportError extends Error {
+  constructor(readonly problem: ImportProblem, message: string) {
+    super(message);
+  }
+}
+
+export const loadHistory = (): GameRecord[] => {
+  try {
+    const raw = localStorage.getItem(HISTORY_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(parseGameRecord).filter((r): r is GameRecord => r !== null);
+  } catch {
+    return [];
+  }
+};
+
+export const saveHistory = (records: GameRecord[]) => {
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(records));
+};
+
+// Appends a record unless one with the same id is already stored
+export const addRecord = (record: GameRecord): GameRecord[] => {
+  const records = loadHistory();
+  if (records.some((r) => r.id === record.id)) return records;
+  const updated = [...records, record];
+  saveHistory(updated);
+  return updated;
+};
+
+export const exportHistory = (records: GameRecord[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, exportedAt: new Date().toISOString(), records }, null, 2);
+
+// Merges an exported file into the stored history. Throws a HistoryImportError if the file isn't a history export.
+export const importHistory = (json: string): GameRecord[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new HistoryImportError('not-json', 'File is not valid JSON.');
+  }
+  const payload = parsed as { records?: unknown };
+  const rawRecords = Array.isArray(parsed) ? parsed : payload?.records;
+  if (!Array.isArray(rawRecords)) throw new HistoryImportError('no-history', 'No game history found in file.');
+
+  const imported = rawRecords.map(parseGameRecord).filter((r): r is GameRecord => r !== null);
+  if (imported.length === 0 && rawRecords.length > 0) {
+    throw new HistoryImportError('unreadable', 'None of the games in this file could be read.');
+  }
+
+  const byId = new Map(loadHistory().map((r) => [r.id, r]));
+  for (const record of imported) byId.set(record.id, record);
+  const merged = [...byId.values()].sort((a, b) => a.startedAt - b.startedAt);
+  saveHistory(merged);
+  return merged;
+};
+
+export const clearHistory = () => localStorage.removeItem(HISTORY_KEY);
@@ -0,0 +1,75 @@
+import { MAX_NAME_LENGTH } from '../engine';
+
+// --- Local player profiles (localStorage) ---
+// Profiles only tag recorded games, so the leaderboard can tell players on one device apart.
+
+const PROFILES_KEY = 'smashCodeProfiles';
+
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface ProfileStore {
+  profiles: Profile[];
+  activeId: string;
+}
+
+const DEFAULT_PROFILE_NAME = 'Player';
+
+const newProfile = (name: string): Profile => ({
+  id: `p-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name: name.trim().slice(0, MAX_NAME_LENGTH) || DEFAULT_PROFILE_NAME,
+  createdAt: Date.now(),
+});
+
+const isProfile = (value: unknown): value is Profile => {
+  const p = value as Profile;
+  return typeof p === 'object' && p !== null && typeof p.id === 'string' && typeof p.name === 'string' && typeof p.createdAt === 'number';
+};
+
+export const saveProfiles = (store: ProfileStore) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(store));
+};
+
+// The stored profiles, or a single default profile on first run
+export const loadProfiles = (): ProfileStore => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? 'null');
+    const profiles = Array.isArray(parsed?.profiles) ? parsed.profiles.filter(isProfile) : [];
+    if (profiles.length > 0) {
+      const activeId = profiles.some((p: Profile) => p.id === parsed.activeId) ? parsed.activeId : profiles[0].id;
+      return { profiles, activeId };
+    }
+  } catch {
+    // Corrupt entry: start over with the default profile
+  }
+  const first = newProfile(DEFAULT_PROFILE_NAME);
+  const store = { profiles: [first], activeId: first.id };
+  saveProfiles(store);
+  return store;
+};
+
+export const addProfile = (store: ProfileStore, name: string): ProfileStore => {
+  const profile = newProfile(name);
+  const updated = { profiles: [...store.profiles, profile], activeId: profile.id };
+  saveProfiles(updated);
+  return updated;
+};
+
+export const selectProfile = (store: ProfileStore, id: string): ProfileStore => {
+  if (!store.profiles.some((p) => p.id === id)) return store;
+  const updated = { ...store, activeId: id };
+  saveProfiles(updated);
+  return updated;
+};
+
+// The last profile can't be removed. Its recorded games keep their tag.
+export const removeProfile = (store: ProfileStore, id: string): ProfileStore => {
+  const profiles = store.profiles.filter((p) => p.id !== id);
+  if (profiles.length === 0) return store;
+  const updated = { profiles, activeId: store.activeId === id ? profiles[0].id : store.activeId };
+  saveProfiles(updated);
+  return updated;
+};
@@ -0,0 +1,127 @@
+import { ClientMessage, GameMessage, GameRules, RELAY_PORT, ServerMessage, isServerMessage } from '../engine';
+
+// --- Relay connection (browser side) ---
+// Wraps the WebSocket to server/relay.ts and transparently reconnects,
+// reclaiming our seat with the token the relay handed out.
+
+export type RelayStatus = 'connecting' | 'waiting' | 'connected' | 'reconnecting' | 'closed';
+
+export interface RelayHandlers {
+  onStatus: (status: RelayStatus) => void;
+  onJoined: (room: string, seat: 0 | 1) => void;
+  onRoomReady: (players: [string, string], rules: GameRules) => void;
+  onMessage: (message: GameMessage) => void;
+  onOpponent: (event: 'disconnected' | 'reconnected' | 'left') => void;
+  onError: (message: string) => void;
+}
+
+export interface RelayConnection {
+  send: (message: GameMessage) => void;
+  leave: () => void;
+}
+
+export type RelayIntent =
+  | { type: 'create'; name: string; rules: GameRules }
+  | { type: 'join'; room: string; name: string };
+
+const MAX_BACKOFF_MS = 8000;
+
+export const relayUrl = () => process.env.RELAY_URL || `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.hostname}:${RELAY_PORT}`;
+
+export const connectToRelay = (intent: RelayIntent, handlers: RelayHandlers): RelayConnection => {
+  let socket: WebSocket | null = null;
+  let seat: { room: string; token: string } | null = null;
+  let closedByUs = false;
+  let attempt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  // Game messages sent while the socket was down, in order
+  const queue: ClientMessage[] = [];
+
+  const write = (message: ClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN && seat) {
+      socket.send(JSON.stringify(message));
+    } else {
+      queue.push(message);
+    }
+  };
+
+  const handle = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'joined': {
+        const first = !seat;
+        seat = { room: message.room, token: message.token };
+        attempt = 0;
+        for (const pending of queue.splice(0)) socket?.send(JSON.stringify(pending));
+        if (first) {
+          handlers.onJoined(message.room, message.seat);
+          handlers.onStatus('waiting');
+        } else {
+          handlers.onStatus('connected');
+        }
+        return;
+      }
+      case 'roomReady':
+        handlers.onStatus('connected');
+        return handlers.onRoomReady(message.players, message.rules);
+      case 'relay':
+        return handlers.onMessage(message.message);
+      case 'opponentDisconnected':
+        return handlers.onOpponent('disconnected');
+      case 'opponentReconnected':
+        return handlers.onOpponent('reconnected');
+      case 'opponentLeft':
+        return handlers.onOpponent('left');
+      case 'error':
+        // A rejected create/join/rejoin leaves nothing to reconnect to
+        if (!seat || message.message === 'Seat expired.') {
+          closedByUs = true;
+          socket?.close();
+          handlers.onStatus('closed');
+        }
+        return handlers.onError(message.message);
+    }
+  };
+
+  const open = () => {
+    handlers.onStatus(seat ? 'reconnecting' : 'connecting');
+    socket = new WebSocket(relayUrl());
+    socket.onopen = () => {
+      socket?.send(JSON.stringify(seat ? { type: 'rejoin', room: seat.room, token: seat.token } : intent));
+    };
+    socket.onmessage = (event) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(event.data);
+      } catch {
+        return; // Ignore anything that isn't JSON
+      }
+      // Outside the try, so a failing handler isn't mistaken for bad input
+      if (isServerMessage(parsed)) handle(parsed);
+    };
+    socket.onclose = () => {
+      if (closedByUs) return;
+      if (!seat) {
+        handlers.onStatus('closed');
+        handlers.onError('Could not reach the relay server.');
+        return;
+      }
+      // Exponential backoff, capped
+      handlers.onStatus('reconnecting');
+      const delay = Math.min(MAX_BACKOFF_MS, 500 * 2 ** attempt++);
+      retryTimer = setTimeout(open, delay);
+    };
+  };
+
+  open();
+
+  return {
+    send: (message) => write({ type: 'relay', message }),
+    leave: () => {
+      closedByUs = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: 'leave' }));
+      socket?.close();
+      handlers.onStatus('closed');
+    },
+  };
+};
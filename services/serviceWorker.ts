@@ -0,0 +1,38 @@
+// --- Service worker registration & updates ---
+// The worker (generated by plugins/serviceWorker.ts) keeps the whole app cached for
+// offline play. A new build installs in the background and then waits: `onUpdate` hands
+// the app a function that lets it take over, after which the page reloads into the new
+// version. Games in progress survive that through the saved session.
+
+const UPDATE_CHECK_MS = 60 * 60_000;
+
+export const registerServiceWorker = (onUpdate: (apply: () => void) => void) => {
+  const url = process.env.SERVICE_WORKER_URL;
+  if (!url || !('serviceWorker' in navigator)) return;
+
+  // Only reload for an update the player accepted, not when the very first worker claims the page
+  let applying = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (applying) location.reload();
+  });
+  const offer = (worker: ServiceWorker) => onUpdate(() => {
+    applying = true;
+    worker.postMessage('skip-waiting');
+  });
+
+  navigator.serviceWorker.register(url).then((registration) => {
+    // Left waiting by an earlier visit
+    if (registration.waiting && navigator.serviceWorker.controller) offer(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const worker = registration.installing;
+      worker?.addEventListener('statechange', () => {
+        // Without a controller this is the first install, not an update
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) offer(worker);
+      });
+    });
+    // An installed app can stay open for days without a navigation to trigger the check
+    setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_MS);
+  }).catch(() => {
+    // No worker (private mode, insecure origin): the app still runs, just not offline
+  });
+};
@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GameAction, GameState, createGameReducer, createInitialState, createRng, DEFAULT_RULES } from '../engine';
+import { loadSession, saveSession } from './session';
+
+// A Map-backed stand-in for the browser's localStorage
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key),
+});
+
+const play = (actions: GameAction[]) => actions.reduce(createGameReducer(createRng(1)), createInitialState(DEFAULT_RULES));
+
+describe('versus sessions', () => {
+  beforeEach(() => storage.clear());
+
+  const start: GameAction = { type: 'start', mode: 'multiplayer', rules: DEFAULT_RULES, players: ['Ada', 'Bo'], at: 0 };
+  const setCode = (code: string): GameAction => ({ type: 'submit', code, salt: 'ab12', at: 1 });
+
+  it('resumes at the handover after the first code is set', () => {
+    const state = play([start, setCode('1234')]);
+    expect(state.status).toBe('handover');
+    saveSession(state);
+    expect(loadSession()?.match?.players[0].secret).toBe('1234');
+  });
+
+  it('resumes at the handover after both codes are set, and during a turn', () => {
+    const handover = play([start, setCode('1234'), { type: 'takeOver', at: 2 }, setCode('5678')]);
+    saveSession(handover);
+    expect(loadSession()?.status).toBe('handover');
+
+    const playing = play([start, setCode('1234'), { type: 'takeOver', at: 2 }, setCode('5678'), { type: 'takeOver', at: 3 }]);
+    saveSession(playing);
+    expect(loadSession()?.secret).toBe('5678');
+  });
+
+  it('refuses a code that no longer matches its commitment', () => {
+    const state = play([start, setCode('1234')]);
+    const [first, second] = state.match!.players;
+    const edited: GameState = { ...state, match: { ...state.match!, players: [{ ...first, secret: '4321' }, second] } };
+    saveSession(edited);
+    expect(loadSession()).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { GameState, commitToCode, createInitialState, isValidCode, normalizeRules, pauseClock } from '../engine';
+
+// --- In-progress game snapshot (localStorage) ---
+// The whole snapshot is XOR-scrambled with a random key so that a quick look at
+// storage during handover doesn't reveal Player 1's code. This is obfuscation,
+// not encryption: the key sits right next to the data.
+
+const SESSION_KEY = 'smashCodeSession';
+// Bumped whenever GameState changes shape (2: hint budgets replaced the single hint)
+const SESSION_VERSION = 2;
+
+const ACTIVE_STATUSES: GameState['status'][] = ['setup', 'handover', 'playing'];
+const RESUMABLE_MODES: GameState['mode'][] = ['solo', 'multiplayer', 'daily', 'blitz', 'marathon', 'challenge', 'evil', 'reverse'];
+
+// Online games can't be resumed from storage: the connection and the opponent are gone
+export const isActiveGame = (state: GameState) => ACTIVE_STATUSES.includes(state.status) && state.mode !== 'online';
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+
+const scramble = (bytes: Uint8Array, key: Uint8Array) => bytes.map((b, i) => b ^ key[i % key.length]);
+
+// Returns the snapshot as saved, to resume from without a reload
+export const saveSession = (state: GameState): GameState => {
+  // Partially typed codes aren't worth keeping, and in setup they'd be the secret in the clear.
+  // A timed game's clock stops while it sits in storage.
+  const snapshot: GameState = { ...state, input: '', error: null, clock: state.clock && pauseClock(state.clock, Date.now()) };
+  const key = crypto.getRandomValues(new Uint8Array(16));
+  const data = scramble(new TextEncoder().encode(JSON.stringify(snapshot)), key);
+  localStorage.setItem(SESSION_KEY, JSON.stringify({ version: SESSION_VERSION, key: toBase64(key), data: toBase64(data) }));
+  return snapshot;
+};
+
+export const clearSession = () => localStorage.removeItem(SESSION_KEY);
+
+// The saved in-progress game, or null if there is none or it can't be trusted
+export const loadSession = (): GameState | null => {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    if (!raw) return null;
+    const { version, key, data } = JSON.parse(raw);
+    if (version !== SESSION_VERSION) return null;
+    const state = JSON.parse(new TextDecoder().decode(scramble(fromBase64(data), fromBase64(key)))) as GameState;
+
+    if (!ACTIVE_STATUSES.includes(state.status)) return null;
+    if (!RESUMABLE_MODES.includes(state.mode)) return null;
+    if (!Array.isArray(state.guesses)) return null;
+    if (state.mode === 'multiplayer' && !state.match?.players) return null;
+    // Timed games are saved with their clock paused
+    if ((state.mode === 'blitz' || state.mode === 'marathon') && (!state.clock || state.clock.runningSince !== null)) return null;
+    if (state.mode === 'marathon' && !state.marathon) return null;
+    const rules = normalizeRules(state.rules ?? {});
+    // Scored by hand, a reverse game never learns the player's code
+    const knowsSecret = !state.reverse?.manual;
+    if (state.match) {
+      // Versus keeps each code on its setter's board, sealed by its commitment; the game's own
+      // secret is only loaded for a guessing turn, so it is still empty at the first handovers
+      const sealed = state.match.players.every((p) => !p.secret || (isValidCode(rules, p.secret) && commitToCode(p.secret, p.salt) === p.commitment));
+      if (!sealed) return null;
+      if (state.status === 'playing' && !isValidCode(rules, state.secret)) return null;
+    } else if (state.status !== 'setup' && knowsSecret && !isValidCode(rules, state.secret)) {
+      return null;
+    }
+    if (!state.guesses.every((g) => isValidCode(rules, g?.code))) return null;
+
+    return {
+      ...createInitialState(rules),
+      ...state,
+      rules,
+      input: '',
+      error: null,
+      errorCount: 0,
+    };
+  } catch {
+    return null;
+  }
+};
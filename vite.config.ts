@@ -1,18 +1,22 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { serviceWorker } from './plugins/serviceWorker';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, command }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.RELAY_URL': JSON.stringify(env.RELAY_URL ?? ''),
+        // Only builds have a service worker; the dev server always serves fresh files
+        'process.env.SERVICE_WORKER_URL': JSON.stringify(command === 'build' ? '/sw.js' : '')
       },
       resolve: {
         alias: {